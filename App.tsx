@@ -1,77 +1,658 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { GeminiEditor } from './components/GeminiEditor';
+import { ImageCleanupPanel } from './components/ImageCleanupPanel';
 import { CharacterExtractor } from './components/CharacterExtractor';
 import { GlyphGrid } from './components/GlyphGrid';
 import { GlyphEditor } from './components/GlyphEditor';
-import { editImageWithGemini } from './services/geminiService';
-import { ProcessingStatus, VectorGlyph } from './types';
+import { FontFaceSnippet } from './components/FontFaceSnippet';
+import { MetricsPanel } from './components/MetricsPanel';
+import { SpacingPanel } from './components/SpacingPanel';
+import { KerningPanel, KerningPick } from './components/KerningPanel';
+import { TextPreview, TextPreviewStrip } from './components/TextPreview';
+import { SamplesPanel } from './components/SamplesPanel';
+import { CoveragePanel } from './components/CoveragePanel';
+import { PageNavigator } from './components/PageNavigator';
+import { EditHistoryPanel } from './components/EditHistoryPanel';
+import { CompareControls, CompareSettings } from './components/CompareControls';
+import { RecentProjects } from './components/RecentProjects';
+import { IMAGE_PROVIDERS, ImageRegion, createCharacterIdentifier, createImageEditProvider, runImageEdit, runRegionEdit } from './services/imageEdit';
+import { acceptGuess, identifyGlyphs, isUnlabeled } from './services/characterId';
+import {
+  EditHistory,
+  addEdit,
+  createHistoryNode,
+  currentNode,
+  fillThumbnails,
+  findNode,
+  moveTo,
+  redoTarget,
+  removeBranch,
+  startHistory,
+  undoTarget
+} from './services/editHistory';
+import {
+  CharacterGuess,
+  IMAGE_EDIT_ERROR_MESSAGES,
+  ImageEditError,
+  ImageProviderSettings,
+  loadImageProviderSettings,
+  saveImageProviderSettings,
+  toImageEditError
+} from './services/imageProvider';
+import { ImageOperation, imageDataToDataUrl, loadImageData } from './services/imageOps';
+import { DEFAULT_PDF_DPI, PdfDocument, loadPdfPage, openPdf } from './services/pdfImport';
+import {
+  OpenedProject,
+  PROJECT_FORMAT,
+  PROJECT_VERSION,
+  Project,
+  ProjectSummary,
+  blobToDataUrl,
+  createProjectId,
+  dataUrlToFile,
+  parseProject,
+  projectFileName,
+  serializeProject
+} from './services/project';
+import { DEFAULT_METRICS, scaleGlyph, scaleMetrics } from './services/metrics';
+import { DEFAULT_SPACING, SpacingSettings, applySpacingGroups, autoSpace, spacingGroupNames } from './services/spacing';
+import { EMPTY_KERNING, Kerning, removeGlyphFromKerning, scaleKerning } from './services/kerning';
+import { markSamples, releaseSamples } from './services/clustering';
+import {
+  CoverageSettings,
+  DEFAULT_COVERAGE,
+  buildCoverageReport,
+  coverageReportToCsv,
+  coverageReportToJson,
+  findRepertoire
+} from './services/coverage';
+import { deleteProjectFromStore, listRecentProjects, loadProjectFromStore, saveProjectToStore } from './services/projectStore';
+import { exportFont, downloadBlob, FONT_FORMATS, FontFormat } from './services/fontExport';
+import {
+  allocatePuaCodepoints,
+  allocationTableToCsv,
+  buildPuaAllocationTable,
+  findCodepointConflicts,
+  formatCodepoint
+} from './services/unicode';
+import { BoundingBox, FontMetrics, ProcessingStatus, VectorGlyph } from './types';
+
+const DEFAULT_FAMILY_NAME = 'ArchaicType';
 
 export default function App() {
   const [currentImage, setCurrentImage] = useState<string | null>(null);
-  const [history, setHistory] = useState<string[]>([]);
+  const [history, setHistory] = useState<EditHistory | null>(null);
   const [status, setStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
   const [glyphs, setGlyphs] = useState<VectorGlyph[]>([]);
   const [editingGlyph, setEditingGlyph] = useState<VectorGlyph | null>(null);
+  const [kerning, setKerning] = useState<Kerning>(EMPTY_KERNING);
+  // Panel shown in place of the page when no glyph is being edited
+  const [panel, setPanel] = useState<'kerning' | 'preview' | 'samples' | null>(null);
+  const [kerningPick, setKerningPick] = useState<KerningPick>({ left: null, right: null });
+  const [coverage, setCoverage] = useState<CoverageSettings>(DEFAULT_COVERAGE);
+  // Picked from the coverage grid; the next glyph extracted by hand is assigned it
+  const [pendingCodepoint, setPendingCodepoint] = useState<number | null>(null);
+  const [previewText, setPreviewText] = useState('The quick brown fox jumps over the lazy dog');
+  const [draftGlyph, setDraftGlyph] = useState<VectorGlyph | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [imageProvider, setImageProvider] = useState<ImageProviderSettings>(loadImageProviderSettings);
+  // Failure of the last model edit, shown by the editor rather than as a general error
+  const [editError, setEditError] = useState<ImageEditError | null>(null);
+  const [editRetry, setEditRetry] = useState<string | null>(null);
+  const editAbort = useRef<AbortController | null>(null);
+  // Selection in the extractor, in image pixels; model edits can be limited to it
+  const [selectionBox, setSelectionBox] = useState<BoundingBox | null>(null);
+  // Earlier version of the image shown against the current one
+  const [compare, setCompare] = useState<CompareSettings | null>(null);
+  const [compareUrl, setCompareUrl] = useState<string | null>(null);
+  // Candidate characters for glyphs, by glyph id, until one is accepted or they are dismissed
+  const [guesses, setGuesses] = useState<Map<string, CharacterGuess[]>>(new Map());
+  // Glyphs waiting to be identified in the running batch
+  const [identifyingIds, setIdentifyingIds] = useState<Set<string>>(new Set());
+  const identifyAbort = useRef<AbortController | null>(null);
+  const [familyName, setFamilyName] = useState(DEFAULT_FAMILY_NAME);
+  const [metrics, setMetrics] = useState<FontMetrics>(DEFAULT_METRICS);
+  const [spacing, setSpacing] = useState<SpacingSettings>(DEFAULT_SPACING);
+  const [fontFormat, setFontFormat] = useState<FontFormat>('ttf');
+  const [isExporting, setIsExporting] = useState(false);
+  const [fontFaceCss, setFontFaceCss] = useState<string | null>(null);
+  // Data left out of the last export or opened project, which the user should know about
+  const [notice, setNotice] = useState<{ title: string; messages: string[] } | null>(null);
+  // The loaded PDF; dataUrl is the original file, kept for saving the project
+  const [pdf, setPdf] = useState<{ doc: PdfDocument; fileName: string; dataUrl: string } | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [pdfDpi, setPdfDpi] = useState(DEFAULT_PDF_DPI);
+  const [preferEmbedded, setPreferEmbedded] = useState(true);
+  const [isLoadingPage, setIsLoadingPage] = useState(false);
+  // Edit history of each page visited, so edits survive paging away and back
+  const pageStates = useRef(new Map<number, EditHistory>());
+  const [projectMeta, setProjectMeta] = useState<{ id: string; name: string; createdAt: number } | null>(null);
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+
+  const conflicts = useMemo(() => findCodepointConflicts(glyphs), [glyphs]);
+  const conflictingIds = useMemo(() => new Set([...conflicts.values()].flat()), [conflicts]);
+  const unassignedCount = glyphs.filter(isUnlabeled).length;
+  // The glyph being edited is previewed as it is, before it is saved
+  const previewGlyphs = useMemo(
+    () => (editingGlyph && draftGlyph?.id === editingGlyph.id ? glyphs.map(g => (g.id === draftGlyph.id ? draftGlyph : g)) : glyphs),
+    [glyphs, editingGlyph, draftGlyph]
+  );
+
+  const closePdf = () => {
+    pdf?.doc.destroy();
+    setPdf(null);
+    pageStates.current.clear();
+  };
+
+  // Font settings belong to a project, so a new one starts from the defaults
+  const resetFontSettings = () => {
+    setFamilyName(DEFAULT_FAMILY_NAME);
+    setMetrics(DEFAULT_METRICS);
+    setSpacing(DEFAULT_SPACING);
+  };
+
+  const startProject = (fileName: string) => {
+    setProjectMeta({ id: createProjectId(), name: fileName.replace(/\.[^.]+$/, '') || 'Untitled', createdAt: Date.now() });
+    setLastSavedAt(null);
+    resetFontSettings();
+  };
 
-  const handleImageSelected = (base64: string) => {
-    setHistory([]);
+  const handleImageSelected = async (base64: string, fileName: string) => {
+    editAbort.current?.abort();
+    identifyAbort.current?.abort();
+    closePdf();
+    startProject(fileName);
+    setHistory(null);
     setCurrentImage(base64);
     setGlyphs([]); 
+    setKerning(EMPTY_KERNING);
+    setCoverage(DEFAULT_COVERAGE);
+    setGuesses(new Map());
+    setPendingCodepoint(null);
     setEditingGlyph(null);
+    setHistory(await startHistory(base64));
+  };
+
+  // Shows the current image of `next`, which may belong to another page
+  const showHistory = async (next: EditHistory) => {
+    const image = await blobToDataUrl(currentNode(next).image);
+    setHistory(next);
+    setCurrentImage(image);
+  };
+
+  const loadPage = async (doc: PdfDocument, page: number, dpi: number, embedded: boolean) => {
+    // An edit still running belongs to the image being replaced
+    editAbort.current?.abort();
+    setIsLoadingPage(true);
+    setError(null);
+    try {
+      const image = await loadPdfPage(doc, page, dpi, embedded);
+      const started = await startHistory(image);
+      setCurrentImage(image);
+      setHistory(started);
+      setPageNumber(page);
+    } catch (err) {
+      console.error("PDF page failed to load:", err);
+      setError(`Failed to load page ${page} of the PDF.`);
+    } finally {
+      setIsLoadingPage(false);
+    }
+  };
+
+  const handlePdfSelected = async (file: File) => {
+    setStatus(ProcessingStatus.UPLOADING);
+    setError(null);
+    try {
+      const dataUrl = await blobToDataUrl(file);
+      const doc = await openPdf(file);
+      closePdf();
+      startProject(file.name);
+      setGlyphs([]);
+      setKerning(EMPTY_KERNING);
+      setCoverage(DEFAULT_COVERAGE);
+      setGuesses(new Map());
+      setPendingCodepoint(null);
+      setEditingGlyph(null);
+      setPdf({ doc, fileName: file.name, dataUrl });
+      await loadPage(doc, 1, pdfDpi, preferEmbedded);
+      setStatus(ProcessingStatus.IDLE);
+    } catch (err) {
+      console.error("PDF import failed:", err);
+      setError("Could not open the PDF.");
+      setStatus(ProcessingStatus.ERROR);
+    }
+  };
+
+  const handlePageChange = async (page: number) => {
+    if (!pdf || page === pageNumber) return;
+    editAbort.current?.abort();
+    if (history) pageStates.current.set(pageNumber, history);
+
+    const saved = pageStates.current.get(page);
+    if (saved) {
+      try {
+        await showHistory(await fillThumbnails(saved));
+        setPageNumber(page);
+      } catch (err) {
+        console.error("Page image failed to load:", err);
+        setError(`Failed to show page ${page}.`);
+      }
+    } else {
+      loadPage(pdf.doc, page, pdfDpi, preferEmbedded);
+    }
   };
 
-  const handleEditImage = async (prompt: string) => {
-    if (!currentImage) return;
+  // A new resolution or source invalidates every page already rasterized
+  const handlePdfSourceChange = (dpi: number, embedded: boolean) => {
+    setPdfDpi(dpi);
+    setPreferEmbedded(embedded);
+    if (!pdf) return;
+    pageStates.current.clear();
+    loadPage(pdf.doc, pageNumber, dpi, embedded);
+  };
 
+  const handleEditImage = async (prompt: string, region: ImageRegion | null) => {
+    if (!currentImage || !history) return;
+    const parentId = history.currentId;
+    const providerInfo = IMAGE_PROVIDERS.find(p => p.id === imageProvider.provider)!;
+
+    const controller = new AbortController();
+    editAbort.current = controller;
     setStatus(ProcessingStatus.GENERATING);
     setError(null);
+    setEditError(null);
 
     try {
-      // Save current state to history before editing
-      setHistory(prev => [...prev, currentImage]);
-      
-      const newImageBase64 = await editImageWithGemini(currentImage, prompt);
+      const provider = createImageEditProvider(imageProvider);
+      const options = {
+        signal: controller.signal,
+        onRetry: (attempt: number, delayMs: number, err: ImageEditError) =>
+          setEditRetry(`${IMAGE_EDIT_ERROR_MESSAGES[err.kind]} Retrying in ${Math.round(delayMs / 1000)} s (attempt ${attempt + 1})…`)
+      };
+      const newImageBase64 = region
+        ? await runRegionEdit(provider, currentImage, prompt, region, options)
+        : await runImageEdit(provider, currentImage, prompt, options);
+      const node = await createHistoryNode(parentId, {
+        kind: 'prompt',
+        prompt,
+        provider: imageProvider.provider,
+        model: providerInfo.remote ? imageProvider.model || providerInfo.defaultModel : '',
+        region: region?.box
+      }, newImageBase64);
+      if (controller.signal.aborted) throw new ImageEditError('cancelled', 'Cancelled');
+      setHistory(prev => prev && addEdit(prev, node));
       setCurrentImage(newImageBase64);
       setStatus(ProcessingStatus.IDLE);
     } catch (err) {
-      setError("Failed to update image. Please try a different prompt.");
+      const editErr = toImageEditError(err);
+      if (editErr.kind === 'cancelled') {
+        setStatus(ProcessingStatus.IDLE);
+      } else {
+        setEditError(editErr);
+        setStatus(ProcessingStatus.ERROR);
+      }
+    } finally {
+      if (editAbort.current === controller) editAbort.current = null;
+      setEditRetry(null);
+    }
+  };
+
+  const handleCancelEdit = () => editAbort.current?.abort();
+
+  const handleImageProviderChange = (settings: ImageProviderSettings) => {
+    setImageProvider(settings);
+    saveImageProviderSettings(settings);
+  };
+
+  const handleCleanupImage = async (operation: ImageOperation, name: string, params: Record<string, number>) => {
+    if (!currentImage || !history) return;
+    const parentId = history.currentId;
+
+    setStatus(ProcessingStatus.PROCESSING);
+    setError(null);
+
+    try {
+      // Same history as the model edits
+      const result = imageDataToDataUrl(operation(await loadImageData(currentImage)));
+      const node = await createHistoryNode(parentId, { kind: 'filter', name, params }, result);
+      setHistory(prev => prev && addEdit(prev, node));
+      setCurrentImage(result);
+      setStatus(ProcessingStatus.IDLE);
+    } catch (err) {
+      setError("Failed to process the image.");
       setStatus(ProcessingStatus.ERROR);
-      setHistory(prev => prev.slice(0, -1));
     }
   };
 
-  const handleUndo = () => {
-    if (history.length === 0) return;
-    const previous = history[history.length - 1];
-    setCurrentImage(previous);
-    setHistory(prev => prev.slice(0, -1));
+  const isBusy = status === ProcessingStatus.GENERATING || status === ProcessingStatus.PROCESSING;
+  const undoId = history && undoTarget(history);
+  const redoId = history && redoTarget(history);
+  const compareNode = compare && history && compare.nodeId !== history.currentId ? findNode(history, compare.nodeId) : undefined;
+  const compareImage = compareNode?.image;
+
+  useEffect(() => {
+    if (!compareImage) {
+      setCompareUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(compareImage);
+    setCompareUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [compareImage]);
+
+  const handleGoToEdit = async (id: string | null) => {
+    if (!history || !id || id === history.currentId || isBusy) return;
+    try {
+      await showHistory(moveTo(history, id));
+    } catch (err) {
+      console.error("Could not restore the edit:", err);
+      setError("Could not restore that version of the image.");
+    }
+  };
+
+  const handleUndo = () => handleGoToEdit(undoId);
+  const handleRedo = () => handleGoToEdit(redoId);
+
+  const handleRemoveEditBranch = (id: string) => {
+    setHistory(prev => prev && removeBranch(prev, id));
   };
 
   const handleGlyphCreated = (glyph: VectorGlyph) => {
-    setGlyphs(prev => [...prev, glyph]);
+    const spaced = spacing.autoSpaceNew ? autoSpace(glyph, spacing) : glyph;
+    setGlyphs(prev => [...prev, pdf ? { ...spaced, sourcePage: pageNumber } : spaced]);
   };
 
   const handleDeleteGlyph = (id: string) => {
-    setGlyphs(prev => prev.filter(g => g.id !== id));
+    setGlyphs(prev => releaseSamples(prev.filter(g => g.id !== id), id));
+    setKerning(prev => removeGlyphFromKerning(prev, id));
+    setKerningPick(pick => ({ left: pick.left === id ? null : pick.left, right: pick.right === id ? null : pick.right }));
   };
   
+  const handleUpdateGlyph = (updatedGlyph: VectorGlyph) => {
+    setGlyphs(prev => prev.map(g => g.id === updatedGlyph.id ? updatedGlyph : g));
+  };
+
+  const handleAllocatePua = () => {
+    try {
+      setGlyphs(prev => allocatePuaCodepoints(prev, prev.filter(g => !g.sampleOf).map(g => g.id)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not allocate Private Use Area codepoints.");
+    }
+  };
+
+  const handleIdentifyGlyphs = async (targets: VectorGlyph[]) => {
+    if (targets.length === 0 || identifyAbort.current) return;
+    const controller = new AbortController();
+    identifyAbort.current = controller;
+    setError(null);
+    setIdentifyingIds(new Set(targets.map(g => g.id)));
+
+    const done = (id: string) => setIdentifyingIds(prev => { const next = new Set(prev); next.delete(id); return next; });
+    try {
+      const identifier = createCharacterIdentifier(imageProvider, glyphs);
+      await identifyGlyphs(identifier, targets, metrics, {
+        signal: controller.signal,
+        onResult: (id, result) => {
+          setGuesses(prev => new Map(prev).set(id, result));
+          done(id);
+        }
+      });
+    } catch (err) {
+      const identifyErr = toImageEditError(err);
+      if (identifyErr.kind !== 'cancelled') setError(`Identification stopped: ${IMAGE_EDIT_ERROR_MESSAGES[identifyErr.kind]}`);
+    } finally {
+      if (identifyAbort.current === controller) identifyAbort.current = null;
+      setIdentifyingIds(new Set());
+    }
+  };
+
+  const handleAcceptGuess = (glyph: VectorGlyph, guess: CharacterGuess) => {
+    handleUpdateGlyph(acceptGuess(glyph, guess));
+    handleDismissGuesses(glyph.id);
+  };
+
+  const handleDismissGuesses = (id: string) => {
+    setGuesses(prev => { const next = new Map(prev); next.delete(id); return next; });
+  };
+
+  const handleExportCoverage = (format: 'csv' | 'json') => {
+    const repertoire = findRepertoire(coverage, coverage.targetId);
+    if (!repertoire) return;
+    const rows = buildCoverageReport(repertoire, glyphs);
+    const content = format === 'csv' ? coverageReportToCsv(rows) : coverageReportToJson(repertoire, rows);
+    const type = format === 'csv' ? 'text/csv' : 'application/json';
+    downloadBlob(new Blob([content], { type }), `coverage-${repertoire.name.replace(/[^\w-]+/g, '_')}.${format}`);
+  };
+
+  const handlePickMissing = (codepoint: number) => {
+    setEditingGlyph(null);
+    setPanel(null);
+    setPendingCodepoint(codepoint);
+  };
+
+  const handleExportAllocation = (format: 'csv' | 'json') => {
+    const rows = buildPuaAllocationTable(glyphs);
+    const content = format === 'csv' ? allocationTableToCsv(rows) : JSON.stringify(rows, null, 2);
+    const type = format === 'csv' ? 'text/csv' : 'application/json';
+    downloadBlob(new Blob([content], { type }), `pua-allocation.${format}`);
+  };
+
+  // A new em size scales everything with it, so glyphs keep their size relative to the em
+  const handleMetricsChange = (next: FontMetrics) => {
+    if (next.unitsPerEm !== metrics.unitsPerEm) {
+      const factor = next.unitsPerEm / metrics.unitsPerEm;
+      setMetrics(scaleMetrics(metrics, next.unitsPerEm));
+      setGlyphs(prev => prev.map(g => scaleGlyph(g, factor)));
+      setKerning(prev => scaleKerning(prev, factor));
+      setSpacing(s => ({
+        ...s,
+        leftSidebearing: Math.round(s.leftSidebearing * factor),
+        rightSidebearing: Math.round(s.rightSidebearing * factor)
+      }));
+      setEditingGlyph(null);
+    } else {
+      setMetrics(next);
+    }
+  };
+
   const handleStartEditGlyph = (glyph: VectorGlyph) => {
+    setPanel(null);
     setEditingGlyph(glyph);
   };
 
+  // Picks fill the left side of the pair first; after that they replace the right glyph
+  const handleKernGlyph = (glyph: VectorGlyph) => {
+    setEditingGlyph(null);
+    setPanel('kerning');
+    setKerningPick(pick => (pick.left ? { ...pick, right: glyph.id } : { ...pick, left: glyph.id }));
+  };
+
+  // Glyphs sharing a spacing group with the saved one take over its sidebearings
   const handleSaveGlyph = (updatedGlyph: VectorGlyph) => {
-    setGlyphs(prev => prev.map(g => g.id === updatedGlyph.id ? updatedGlyph : g));
+    setGlyphs(prev => applySpacingGroups(prev.map(g => g.id === updatedGlyph.id ? updatedGlyph : g), updatedGlyph));
+    setEditingGlyph(null);
+  };
+
+  const handleUseRepresentative = (memberIds: string[], representativeId: string) => {
+    setGlyphs(prev => markSamples(prev, memberIds, representativeId));
+  };
+
+  const handleAddConsensus = (memberIds: string[], consensus: VectorGlyph) => {
+    setGlyphs(prev => markSamples([...prev, consensus], memberIds, consensus.id));
+  };
+
+  const handleAutoSpaceAll = () => {
+    setGlyphs(prev => prev.map(g => autoSpace(g, spacing)));
+  };
+
+  const handleExportFont = async () => {
+    setIsExporting(true);
+    try {
+      const exported = await exportFont(glyphs, fontFormat, { ...metrics, familyName: familyName.trim() || DEFAULT_FAMILY_NAME }, kerning);
+      downloadBlob(exported.blob, exported.fileName);
+      const isWebFont = FONT_FORMATS.find(f => f.id === fontFormat)?.isWebFont;
+      setFontFaceCss(isWebFont ? exported.fontFaceCss : null);
+      setNotice(exported.warnings.length ? { title: 'Exported with omissions', messages: exported.warnings } : null);
+    } catch (err) {
+      console.error("Font export failed:", err);
+      setError("Failed to build the font file.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const buildProject = (): Project | null => {
+    if (!projectMeta) return null;
+    return {
+      format: PROJECT_FORMAT,
+      version: PROJECT_VERSION,
+      ...projectMeta,
+      updatedAt: Date.now(),
+      familyName,
+      metrics,
+      spacing,
+      kerning,
+      coverage,
+      history,
+      glyphs,
+      pdf: pdf && {
+        fileName: pdf.fileName,
+        data: pdf.dataUrl,
+        pageNumber,
+        dpi: pdfDpi,
+        preferEmbedded,
+        pages: [...pageStates.current]
+          .filter(([page]) => page !== pageNumber)
+          .map(([page, pageHistory]) => ({ pageNumber: page, history: pageHistory }))
+      }
+    };
+  };
+
+  const refreshRecentProjects = () => {
+    listRecentProjects()
+      .then(setRecentProjects)
+      .catch(err => console.error("Could not list saved projects:", err));
+  };
+
+  useEffect(refreshRecentProjects, []);
+
+  // Autosave shortly after the last change
+  useEffect(() => {
+    const project = buildProject();
+    if (!project || (!project.history && project.glyphs.length === 0)) return;
+    const timer = setTimeout(() => {
+      saveProjectToStore(project)
+        .then(() => setLastSavedAt(project.updatedAt))
+        .catch(err => console.error("Autosave failed:", err));
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [projectMeta, history, glyphs, familyName, metrics, spacing, kerning, coverage, pdf, pageNumber, pdfDpi, preferEmbedded]);
+
+  const openProject = async ({ project, warnings }: OpenedProject) => {
+    // Everything that can fail is loaded first, so a project that cannot be opened leaves the open one untouched
+    const openedHistory = project.history && (await fillThumbnails(project.history));
+    const image = openedHistory && (await blobToDataUrl(currentNode(openedHistory).image));
+    // Last, so nothing after it can fail and leave the document open
+    const doc = project.pdf && (await openPdf(await dataUrlToFile(project.pdf.data, project.pdf.fileName)));
+
+    editAbort.current?.abort();
+    identifyAbort.current?.abort();
+    closePdf();
     setEditingGlyph(null);
+    setPanel(null);
+    setKerningPick({ left: null, right: null });
+    setFontFaceCss(null);
+    setNotice(warnings.length ? { title: 'Opened with omissions', messages: warnings } : null);
+    if (project.pdf && doc) {
+      const { fileName, data, pageNumber: page, dpi, pages } = project.pdf;
+      pages.forEach(p => pageStates.current.set(p.pageNumber, p.history));
+      setPdf({ doc, fileName, dataUrl: data });
+      setPageNumber(page);
+      setPdfDpi(dpi);
+      setPreferEmbedded(project.pdf.preferEmbedded);
+    } else {
+      setPageNumber(1);
+    }
+    setProjectMeta({ id: project.id, name: project.name, createdAt: project.createdAt });
+    setLastSavedAt(project.updatedAt);
+    setFamilyName(project.familyName);
+    setMetrics(project.metrics);
+    setSpacing(project.spacing);
+    setKerning(project.kerning);
+    setCoverage(project.coverage);
+    setGuesses(new Map());
+    setPendingCodepoint(null);
+    setHistory(openedHistory);
+    setCurrentImage(image);
+    setGlyphs(project.glyphs);
+    setStatus(ProcessingStatus.IDLE);
+    setError(null);
+  };
+
+  const handleOpenRecentProject = async (id: string) => {
+    try {
+      const opened = await loadProjectFromStore(id);
+      if (!opened) {
+        setError("That project is no longer stored in this browser.");
+        refreshRecentProjects();
+        return;
+      }
+      await openProject(opened);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not open the project.");
+    }
+  };
+
+  const handleOpenProjectFile = async (file: File) => {
+    try {
+      await openProject(parseProject(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not open the project file.");
+    }
   };
 
-  const handleReset = () => {
+  const handleDeleteRecentProject = async (id: string) => {
+    try {
+      await deleteProjectFromStore(id);
+    } finally {
+      refreshRecentProjects();
+    }
+  };
+
+  const handleSaveProjectFile = async () => {
+    const project = buildProject();
+    if (!project) return;
+    downloadBlob(new Blob([await serializeProject(project)], { type: 'application/json' }), projectFileName(project));
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm("Close this project? It stays in Recent Projects in this browser.")) return;
+    // Save now rather than waiting for the autosave timer
+    const project = buildProject();
+    if (project && (project.history || project.glyphs.length > 0)) {
+      await saveProjectToStore(project).catch(err => console.error("Saving before close failed:", err));
+    }
+    editAbort.current?.abort();
+    identifyAbort.current?.abort();
+    closePdf();
+    setProjectMeta(null);
+    setLastSavedAt(null);
+    resetFontSettings();
     setCurrentImage(null);
-    setHistory([]);
+    setHistory(null);
     setGlyphs([]);
+    setKerning(EMPTY_KERNING);
+    setCoverage(DEFAULT_COVERAGE);
+    setGuesses(new Map());
+    setPendingCodepoint(null);
     setEditingGlyph(null);
+    setPanel(null);
+    setFontFaceCss(null);
+    setNotice(null);
     setStatus(ProcessingStatus.IDLE);
+    refreshRecentProjects();
   };
 
   return (
@@ -85,11 +666,25 @@ export default function App() {
           <h1 className="text-lg font-semibold tracking-tight">ArchaicType <span className="text-stone-400 font-normal">Vectorizer</span></h1>
         </div>
         <div className="flex items-center gap-4">
+           {projectMeta && (
+             <>
+               <span className="text-xs text-stone-400" title={projectMeta.name}>
+                 {lastSavedAt ? `Saved ${new Date(lastSavedAt).toLocaleTimeString(undefined, { timeStyle: 'short' })}` : 'Not saved yet'}
+               </span>
+               <button
+                 onClick={handleSaveProjectFile}
+                 className="text-sm font-medium text-stone-500 hover:text-stone-900 transition-colors"
+                 title="Download the project as a file"
+               >
+                 Save Project
+               </button>
+             </>
+           )}
            <button 
              onClick={handleReset}
              className={`text-sm font-medium text-stone-500 hover:text-red-600 transition-colors ${!currentImage && !editingGlyph ? 'opacity-0 pointer-events-none' : ''}`}
            >
-             Reset Project
+             Close Project
            </button>
         </div>
       </header>
@@ -101,34 +696,108 @@ export default function App() {
         <div className="flex-1 bg-stone-100/50 relative flex flex-col">
           
           {editingGlyph ? (
-             <GlyphEditor 
-               glyph={editingGlyph} 
-               onSave={handleSaveGlyph} 
-               onClose={() => setEditingGlyph(null)}
+             <div className="flex-1 flex flex-col min-h-0">
+               <div className="flex-1 min-h-0">
+                 <GlyphEditor 
+                   glyph={editingGlyph} 
+                   metrics={metrics}
+                   spacing={spacing}
+                   groupNames={{ left: spacingGroupNames(glyphs, 'left'), right: spacingGroupNames(glyphs, 'right') }}
+                   availableCodepoints={new Set(glyphs.flatMap(g => g.codepoints))}
+                   onSave={handleSaveGlyph} 
+                   onClose={() => setEditingGlyph(null)}
+                   onDraftChange={setDraftGlyph}
+                 />
+               </div>
+               <TextPreviewStrip
+                 glyphs={previewGlyphs}
+                 metrics={metrics}
+                 kerning={kerning}
+                 text={previewText}
+                 onTextChange={setPreviewText}
+               />
+             </div>
+          ) : panel === 'kerning' ? (
+             <KerningPanel
+               glyphs={glyphs}
+               metrics={metrics}
+               kerning={kerning}
+               pick={kerningPick}
+               onPickChange={setKerningPick}
+               onChange={setKerning}
+               onClose={() => setPanel(null)}
+             />
+          ) : panel === 'samples' ? (
+             <SamplesPanel
+               glyphs={glyphs}
+               metrics={metrics}
+               onUseRepresentative={handleUseRepresentative}
+               onAddConsensus={handleAddConsensus}
+               onRelease={(id) => setGlyphs(prev => releaseSamples(prev, id))}
+               onClose={() => setPanel(null)}
+             />
+          ) : panel === 'preview' ? (
+             <TextPreview
+               glyphs={glyphs}
+               metrics={metrics}
+               kerning={kerning}
+               text={previewText}
+               onTextChange={setPreviewText}
+               onClose={() => setPanel(null)}
              />
           ) : (
             <div className="flex-1 overflow-y-auto p-8 flex flex-col items-center">
               <div className="w-full max-w-3xl flex-1 flex flex-col">
                 {!currentImage ? (
                   <div className="flex-1 flex items-center justify-center min-h-[400px]">
-                    <div className="w-full max-w-md">
-                      <ImageUploader onImageSelected={handleImageSelected} />
+                    <div className="w-full max-w-md space-y-8">
+                      <ImageUploader onImageSelected={handleImageSelected} onPdfSelected={handlePdfSelected} />
+                      <RecentProjects
+                        projects={recentProjects}
+                        onOpen={handleOpenRecentProject}
+                        onDelete={handleDeleteRecentProject}
+                        onOpenFile={handleOpenProjectFile}
+                      />
                     </div>
                   </div>
                 ) : (
                   <div className="space-y-6 animate-fade-in">
+                     {pdf && (
+                       <PageNavigator
+                         fileName={pdf.fileName}
+                         pageNumber={pageNumber}
+                         pageCount={pdf.doc.numPages}
+                         dpi={pdfDpi}
+                         preferEmbedded={preferEmbedded}
+                         isLoading={isLoadingPage}
+                         onPageChange={handlePageChange}
+                         onDpiChange={(dpi) => handlePdfSourceChange(dpi, preferEmbedded)}
+                         onPreferEmbeddedChange={(embedded) => handlePdfSourceChange(pdfDpi, embedded)}
+                       />
+                     )}
+
                      {/* Toolbar above image */}
                      <div className="flex items-center justify-between bg-white p-3 rounded-lg shadow-sm border border-stone-200">
                        <span className="text-xs font-semibold text-stone-500 uppercase tracking-wide px-2">Original Source</span>
-                       <div className="text-xs text-stone-400">
-                         {history.length > 0 ? 'Edited Image' : 'Original Image'}
+                       <div className="flex items-center gap-3">
+                         {history && <CompareControls history={history} settings={compare} onChange={setCompare} />}
+                         <div className="text-xs text-stone-400">
+                           {undoId ? 'Edited Image' : 'Original Image'}
+                         </div>
                        </div>
                      </div>
 
-                     {/* The actual tool */}
+                     {/* The actual tool; a new page or image starts it afresh, an edit of the same one does not */}
                      <CharacterExtractor 
+                        key={`${pageNumber}:${history?.nodes[0].id}`}
                         imageUrl={currentImage} 
+                        metrics={metrics}
                         onGlyphCreated={handleGlyphCreated}
+                        pendingCodepoint={pendingCodepoint}
+                        onClearPendingCodepoint={() => setPendingCodepoint(null)}
+                        onSelectionChange={setSelectionBox}
+                        compare={compare && compareUrl ? { ...compare, imageUrl: compareUrl } : null}
+                        onCompareSplitChange={(split) => setCompare(c => (c ? { ...c, split } : c))}
                      />
                   </div>
                 )}
@@ -139,23 +808,59 @@ export default function App() {
 
         {/* Right Column: Tools & Results */}
         <div className="w-96 bg-white border-l border-stone-200 flex flex-col shadow-xl z-10">
-          <div className="p-6 border-b border-stone-100 flex-none">
+          <div className="p-6 border-b border-stone-100 flex-none max-h-[60vh] overflow-y-auto">
             <h2 className="text-sm font-bold text-stone-900 uppercase tracking-wider mb-4">Tools</h2>
             
             {/* Image Editor (Gemini) */}
-            <div className={`${(!currentImage || editingGlyph) ? 'opacity-50 pointer-events-none grayscale' : ''} transition-all`}>
+            <div className={`${(!currentImage || editingGlyph) ? 'opacity-50 pointer-events-none grayscale' : ''} transition-all space-y-4`}>
                <GeminiEditor 
                  status={status} 
                  onEdit={handleEditImage} 
+                 onCancel={handleCancelEdit}
+                 error={editError}
+                 retryStatus={editRetry}
+                 selection={selectionBox}
+                 settings={imageProvider}
+                 onSettingsChange={handleImageProviderChange}
+                 onUndo={handleUndo}
+                 canUndo={!!undoId}
+               />
+               {/* Offline, deterministic cleanup */}
+               <ImageCleanupPanel
+                 status={status}
+                 onApply={handleCleanupImage}
                  onUndo={handleUndo}
-                 canUndo={history.length > 0}
+                 canUndo={!!undoId}
                />
+               {history && (
+                 <EditHistoryPanel
+                   history={history}
+                   busy={isBusy}
+                   onGoTo={handleGoToEdit}
+                   onUndo={handleUndo}
+                   onRedo={handleRedo}
+                   canUndo={!!undoId}
+                   canRedo={!!redoId}
+                   onRemoveBranch={handleRemoveEditBranch}
+                 />
+               )}
                {error && (
-                 <div className="mt-2 p-2 bg-red-50 text-red-600 text-xs rounded border border-red-100">
+                 <div className="p-2 bg-red-50 text-red-600 text-xs rounded border border-red-100">
                    {error}
                  </div>
                )}
             </div>
+            {notice && (
+              <div className="mt-4 p-2 bg-amber-50 text-amber-800 text-xs rounded border border-amber-200 space-y-1">
+                <div className="flex items-center justify-between font-semibold">
+                  {notice.title}
+                  <button onClick={() => setNotice(null)} className="text-amber-500 hover:text-amber-900" title="Dismiss">×</button>
+                </div>
+                <ul className="list-disc pl-4 space-y-0.5 max-h-32 overflow-y-auto">
+                  {notice.messages.map((m, i) => <li key={i}>{m}</li>)}
+                </ul>
+              </div>
+            )}
           </div>
 
           <div className="flex-1 overflow-y-auto p-6">
@@ -163,27 +868,136 @@ export default function App() {
               Extracted Glyphs
               <span className="bg-stone-100 text-stone-600 px-2 py-0.5 rounded-full text-xs">{glyphs.length}</span>
             </h2>
+            {glyphs.length > 0 && (
+              <div className="mb-4 space-y-2">
+                <div className="flex items-center gap-2 text-xs">
+                  <button
+                    onClick={handleAllocatePua}
+                    disabled={unassignedCount === 0}
+                    className="px-2 py-1 rounded-md bg-stone-100 text-stone-700 hover:bg-stone-200 disabled:opacity-50"
+                    title="Give unassigned glyphs Private Use Area codepoints (U+E000...)"
+                  >
+                    Allocate PUA ({unassignedCount})
+                  </button>
+                  {identifyingIds.size > 0 ? (
+                    <button
+                      onClick={() => identifyAbort.current?.abort()}
+                      className="px-2 py-1 rounded-md bg-amber-50 text-amber-700 hover:bg-amber-100"
+                      title="Stop identifying"
+                    >
+                      Identifying… {identifyingIds.size} left · Cancel
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleIdentifyGlyphs(glyphs.filter(isUnlabeled))}
+                      disabled={unassignedCount === 0}
+                      className="px-2 py-1 rounded-md bg-stone-100 text-stone-700 hover:bg-stone-200 disabled:opacity-50"
+                      title="Ask the image model which character each unassigned glyph is"
+                    >
+                      Identify ({unassignedCount})
+                    </button>
+                  )}
+                  <button
+                    onClick={() => { setEditingGlyph(null); setPanel('kerning'); }}
+                    className="px-2 py-1 rounded-md bg-stone-100 text-stone-700 hover:bg-stone-200"
+                    title="Adjust the space between pairs of glyphs"
+                  >
+                    Kerning ({kerning.pairs.length})
+                  </button>
+                  <button
+                    onClick={() => { setEditingGlyph(null); setPanel('preview'); }}
+                    className="px-2 py-1 rounded-md bg-stone-100 text-stone-700 hover:bg-stone-200"
+                    title="Set text with the glyphs"
+                  >
+                    Preview
+                  </button>
+                  <button
+                    onClick={() => { setEditingGlyph(null); setPanel('samples'); }}
+                    className="px-2 py-1 rounded-md bg-stone-100 text-stone-700 hover:bg-stone-200"
+                    title="Group repeated samples of a letter and choose what stands for them in the font"
+                  >
+                    Samples
+                  </button>
+                  <span className="text-stone-400 ml-auto">Allocation table:</span>
+                  <button onClick={() => handleExportAllocation('csv')} className="text-stone-600 hover:text-stone-900 underline">CSV</button>
+                  <button onClick={() => handleExportAllocation('json')} className="text-stone-600 hover:text-stone-900 underline">JSON</button>
+                </div>
+                {conflicts.size > 0 && (
+                  <div className="p-2 bg-red-50 text-red-600 text-xs rounded border border-red-100">
+                    Codepoints claimed by several glyphs: {[...conflicts.keys()].map(formatCodepoint).join(', ')}.
+                    Only the first glyph will be mapped in the exported font.
+                  </div>
+                )}
+              </div>
+            )}
+            <CoveragePanel
+              glyphs={glyphs}
+              settings={coverage}
+              onChange={setCoverage}
+              onPickMissing={handlePickMissing}
+              onEditGlyph={handleStartEditGlyph}
+              onExportReport={handleExportCoverage}
+            />
             <GlyphGrid 
               glyphs={glyphs} 
+              metrics={metrics}
+              conflictingIds={conflictingIds}
               onDelete={handleDeleteGlyph} 
               onEdit={handleStartEditGlyph}
+              onUpdate={handleUpdateGlyph}
+              kerningPick={kerningPick}
+              onKern={handleKernGlyph}
+              guesses={guesses}
+              identifyingIds={identifyingIds}
+              onIdentify={(glyph: VectorGlyph) => handleIdentifyGlyphs([glyph])}
+              onAcceptGuess={handleAcceptGuess}
+              onDismissGuesses={handleDismissGuesses}
             />
           </div>
 
           {/* Download/Export Footer */}
-          <div className="p-4 border-t border-stone-100 bg-stone-50">
+          <div className="p-4 border-t border-stone-100 bg-stone-50 space-y-3">
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-stone-500 whitespace-nowrap">Family name</label>
+              <input
+                type="text"
+                value={familyName}
+                onChange={(e) => setFamilyName(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1 text-sm rounded-md bg-white border border-stone-200 focus:border-stone-500 outline-none"
+              />
+            </div>
+            <MetricsPanel metrics={metrics} onChange={handleMetricsChange} />
+            <SpacingPanel
+              settings={spacing}
+              glyphCount={glyphs.length}
+              onChange={setSpacing}
+              onAutoSpaceAll={handleAutoSpaceAll}
+            />
+            <div className="flex items-center gap-2">
+              <label className="text-xs text-stone-500 whitespace-nowrap">Format</label>
+              <select
+                value={fontFormat}
+                onChange={(e) => setFontFormat(e.target.value as FontFormat)}
+                className="flex-1 min-w-0 px-2 py-1 text-sm rounded-md bg-white border border-stone-200 focus:border-stone-500 outline-none"
+              >
+                {FONT_FORMATS.map(f => (
+                  <option key={f.id} value={f.id}>{f.label}</option>
+                ))}
+              </select>
+            </div>
             <button 
               className="w-full py-3 bg-stone-900 text-white rounded-lg font-medium hover:bg-stone-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors shadow-sm flex items-center justify-center gap-2"
-              disabled={glyphs.length === 0}
-              onClick={() => {
-                alert("This would download a TTF/SVG font file in a real app!");
-              }}
+              disabled={glyphs.length === 0 || isExporting}
+              onClick={handleExportFont}
             >
               <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-4 h-4">
                 <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" />
               </svg>
-              Export Font
+              {isExporting ? 'Building Font...' : 'Export Font'}
             </button>
+            {fontFaceCss && (
+              <FontFaceSnippet css={fontFaceCss} onClose={() => setFontFaceCss(null)} />
+            )}
           </div>
         </div>
       </main>
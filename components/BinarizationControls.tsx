@@ -0,0 +1,85 @@
+import React from 'react';
+import { BINARIZE_METHODS, BinarizeMethod, BinarizeSettings, DEFAULT_K } from '../services/binarize';
+
+interface BinarizationControlsProps {
+  settings: BinarizeSettings;
+  onChange: (settings: BinarizeSettings) => void;
+  // Cutoff Otsu picked for the current selection, shown when that method is active
+  otsuValue?: number | null;
+}
+
+const sliderClass = "w-20 h-2 bg-stone-200 rounded-lg appearance-none cursor-pointer";
+
+export const BinarizationControls: React.FC<BinarizationControlsProps> = ({ settings, onChange, otsuValue }) => {
+  const update = (patch: Partial<BinarizeSettings>) => onChange({ ...settings, ...patch });
+
+  const handleMethodChange = (method: BinarizeMethod) => {
+    // k means something different for each local method, so switching resets it
+    if (method === 'sauvola' || method === 'niblack') update({ method, k: DEFAULT_K[method] });
+    else update({ method });
+  };
+
+  const isLocal = settings.method === 'sauvola' || settings.method === 'niblack';
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={settings.method}
+        onChange={(e) => handleMethodChange(e.target.value as BinarizeMethod)}
+        className="text-xs bg-white border border-stone-300 rounded px-2 py-1 text-stone-700"
+        title="How ink is separated from the paper"
+      >
+        {BINARIZE_METHODS.map(m => (
+          <option key={m.id} value={m.id}>{m.label}</option>
+        ))}
+      </select>
+
+      {settings.method === 'manual' && (
+        <>
+          <label className="text-xs text-stone-500">Threshold</label>
+          <input
+            type="range"
+            min="0"
+            max="255"
+            value={settings.threshold}
+            onChange={(e) => update({ threshold: Number(e.target.value) })}
+            className={sliderClass}
+          />
+        </>
+      )}
+
+      {settings.method === 'otsu' && (
+        <span className="text-xs text-stone-500 tabular-nums">
+          {otsuValue != null ? `Cutoff ${otsuValue}` : 'Select an area'}
+        </span>
+      )}
+
+      {isLocal && (
+        <>
+          <label className="text-xs text-stone-500">Window</label>
+          <input
+            type="range"
+            min="7"
+            max="101"
+            step="2"
+            value={settings.windowSize}
+            onChange={(e) => update({ windowSize: Number(e.target.value) })}
+            className={sliderClass}
+          />
+          <span className="text-xs text-stone-500 w-10 tabular-nums">{settings.windowSize}px</span>
+          <label className="text-xs text-stone-500">k</label>
+          <input
+            type="range"
+            min={settings.method === 'sauvola' ? 0.05 : -1}
+            max={settings.method === 'sauvola' ? 0.8 : 0.5}
+            step="0.01"
+            value={settings.k}
+            onChange={(e) => update({ k: Number(e.target.value) })}
+            className={sliderClass}
+          />
+          <span className="text-xs text-stone-500 w-8 tabular-nums">{settings.k.toFixed(2)}</span>
+        </>
+      )}
+    </div>
+  );
+};
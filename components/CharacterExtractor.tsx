@@ -1,32 +1,103 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { ScissorsIcon, ZoomInIcon, ZoomOutIcon, MaximizeIcon } from './Icons';
-import { BoundingBox, VectorGlyph } from '../types';
+import { BoundingBox, FontMetrics, VectorGlyph } from '../types';
+import { InkComponent, shapesToSvgPath, traceComponents } from '../services/tracer';
+import { BinarizeSettings, DEFAULT_BINARIZE_SETTINGS, binarize, otsuThreshold, toGrayscale } from '../services/binarize';
+import { ComponentReview } from './ComponentReview';
+import { codepointPreview, formatCodepoint } from '../services/unicode';
+import { BinarizationControls } from './BinarizationControls';
+import { CompareView } from './CompareControls';
+import { differenceMap, loadImageData } from '../services/imageOps';
+import { SegmentationToolbar } from './SegmentationToolbar';
+import {
+  CharacterCandidate,
+  candidateMask,
+  detectCharacters,
+  mergeCandidates,
+  sortReadingOrder,
+  splitCandidate
+} from '../services/segmentation';
+import {
+  PageGuides,
+  PixelFrame,
+  baselineNear,
+  estimateBaselines,
+  estimateUnitsPerPixel,
+  frameFromGuides,
+  guidesFromBox,
+  guideLinePositions,
+  normalizeOutline
+} from '../services/metrics';
 
 interface CharacterExtractorProps {
   imageUrl: string;
+  metrics: FontMetrics;
   onGlyphCreated: (glyph: VectorGlyph) => void;
+  // Codepoint the next glyph extracted by hand is assigned, picked from the coverage grid
+  pendingCodepoint: number | null;
+  onClearPendingCodepoint: () => void;
+  // The settled selection in image pixels, or null, so tools can work on just that part of the page
+  onSelectionChange: (box: BoundingBox | null) => void;
+  // An earlier version of the image drawn against the current one, in the same pan and zoom
+  compare: CompareView | null;
+  onCompareSplitChange: (split: number) => void;
 }
 
-// Helper: Check if a pixel is "on" (black/foreground)
-const isPixelOn = (data: Uint8ClampedArray, width: number, x: number, y: number, threshold: number): boolean => {
-  if (x < 0 || x >= width || y < 0 || y >= data.length / (4 * width)) return false;
-  const idx = (y * width + x) * 4;
-  // Considering standard paper: Light background, Dark text.
-  // We want Dark pixels. Brightness < Threshold.
-  const brightness = 0.34 * data[idx] + 0.5 * data[idx + 1] + 0.16 * data[idx + 2];
-  return brightness < threshold;
-};
-
-export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({ imageUrl, onGlyphCreated }) => {
+export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({
+  imageUrl,
+  metrics,
+  onGlyphCreated,
+  pendingCodepoint,
+  onClearPendingCodepoint,
+  onSelectionChange,
+  compare,
+  onCompareSplitChange
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const imgRef = useRef<HTMLImageElement>(null);
   const [selection, setSelection] = useState<BoundingBox | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [isPanning, setIsPanning] = useState(false);
   const [startPos, setStartPos] = useState({ x: 0, y: 0 });
-  const [threshold, setThreshold] = useState(128);
+  const [binarization, setBinarization] = useState<BinarizeSettings>(DEFAULT_BINARIZE_SETTINGS);
+  // Live binarized view of the selection, so it is clear which pixels will be traced
+  const [showPreview, setShowPreview] = useState(true);
+  const [otsuValue, setOtsuValue] = useState<number | null>(null);
+  const previewCanvasRef = useRef<HTMLCanvasElement>(null);
+  // Maximum deviation, in source pixels, of the fitted curves from the traced outline; 0 keeps the pixel outline
+  const [tolerance, setTolerance] = useState(1);
   const [transform, setTransform] = useState({ x: 0, y: 0, scale: 1 });
   const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
+  // Pixels of the selection awaiting review, before a glyph is made from them, and where they came from
+  const [crop, setCrop] = useState<{ image: ImageData; box: BoundingBox } | null>(null);
+  // Baseline and x-height guides in image pixels, once placed; they set the scale and baseline of new glyphs.
+  // The extractor is remounted for each page, so guides survive edits of the same page
+  const [guides, setGuides] = useState<PageGuides | null>(null);
+  const [showGuides, setShowGuides] = useState(true);
+  const [draggingGuide, setDraggingGuide] = useState<keyof PageGuides | null>(null);
+  const [draggingSplit, setDraggingSplit] = useState(false);
+  const differenceCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [compareError, setCompareError] = useState<string | null>(null);
+
+  // Auto-detect mode: candidate boxes in image pixels, and the component labels they refer to
+  const [page, setPage] = useState<{ labels: Int32Array; width: number } | null>(null);
+  const [candidates, setCandidates] = useState<CharacterCandidate[]>([]);
+  const [acceptedIds, setAcceptedIds] = useState<Set<string>>(new Set());
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isDetecting, setIsDetecting] = useState(false);
+  // Boxes of every letter found on the page, and the binarization they were found with; without guides
+  // they set the common scale and the line baselines of new glyphs
+  const pageLettersRef = useRef<{ settings: BinarizeSettings; boxes: BoundingBox[] } | null>(null);
+
+  // Re-traced live so the binarization can still be tuned while reviewing
+  const components = useMemo(
+    () => {
+      if (!crop) return [];
+      const { data, width, height } = crop.image;
+      return traceComponents(binarize(data, width, height, binarization), width, height);
+    },
+    [crop, binarization]
+  );
 
   // Initialize image size and center on load
   useEffect(() => {
@@ -35,6 +106,9 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({ imageUrl
       setImageSize({ width: img.naturalWidth, height: img.naturalHeight });
       resetView();
     }
+    setCrop(null);
+    closeAutoDetect();
+    pageLettersRef.current = null;
   }, [imageUrl]);
 
   const handleImageLoad = () => {
@@ -102,10 +176,48 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({ imageUrl
     
     setStartPos({ x, y });
     setSelection({ x, y, width: 0, height: 0 });
+    setCrop(null);
     setIsDragging(true);
   };
 
+  // On the selected letter if there is one, else across the middle of the view, to be dragged onto a line of text
+  const placeGuides = () => {
+    setShowGuides(true);
+    const box = selectionInImage();
+    if (box) {
+      setGuides(guidesFromBox(box));
+      return;
+    }
+    const height = containerRef.current?.clientHeight ?? 0;
+    const middle = (height / 2 - transform.y) / transform.scale;
+    const gap = 40 / transform.scale;
+    setGuides(guidesFromBox({ x: 0, y: middle - gap / 2, width: 0, height: gap }));
+  };
+
+  const handleGuideMouseDown = (id: keyof PageGuides, e: React.MouseEvent) => {
+    if (e.button !== 0 || e.shiftKey) return;
+    e.stopPropagation();
+    setDraggingGuide(id);
+  };
+
   const handleMouseMove = (e: React.MouseEvent) => {
+    if (draggingSplit && containerRef.current && imageSize.width) {
+      const rect = containerRef.current.getBoundingClientRect();
+      const x = (e.clientX - rect.left - transform.x) / transform.scale;
+      onCompareSplitChange(Math.min(1, Math.max(0, x / imageSize.width)));
+      return;
+    }
+
+    if (draggingGuide && guides && containerRef.current) {
+      const rect = containerRef.current.getBoundingClientRect();
+      const y = Math.round((e.clientY - rect.top - transform.y) / transform.scale);
+      // Keep the mean line above the baseline
+      setGuides(draggingGuide === 'baseline'
+        ? { ...guides, baseline: Math.max(guides.xHeight + 1, y) }
+        : { ...guides, xHeight: Math.min(guides.baseline - 1, y) });
+      return;
+    }
+
     if (isPanning) {
       setTransform(t => ({
         ...t,
@@ -131,13 +243,29 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({ imageUrl
   const handleMouseUp = () => {
     setIsDragging(false);
     setIsPanning(false);
+    setDraggingGuide(null);
+    setDraggingSplit(false);
   };
 
-  const vectoriseSelection = async () => {
-    if (!selection || !containerRef.current || selection.width < 5 || selection.height < 5) return;
+  // The selection at the image's natural resolution
+  const selectionInImage = (): BoundingBox | null => {
+    const imgElement = imgRef.current;
+    if (!selection || !imgElement || !imgElement.clientWidth || selection.width < 5 || selection.height < 5) return null;
+    const scaleX = imgElement.naturalWidth / imgElement.clientWidth;
+    const scaleY = imgElement.naturalHeight / imgElement.clientHeight;
+    return { x: selection.x * scaleX, y: selection.y * scaleY, width: selection.width * scaleX, height: selection.height * scaleY };
+  };
+
+  useEffect(() => {
+    if (!isDragging) onSelectionChange(selectionInImage());
+  }, [selection, isDragging, imageSize]);
+
+  // Pixels under the selection at the image's natural resolution, and the box they cover
+  const readSelectionPixels = (): { image: ImageData; box: BoundingBox } | null => {
+    if (!selection || !containerRef.current || selection.width < 5 || selection.height < 5) return null;
 
     const imgElement = containerRef.current.querySelector('img');
-    if (!imgElement) return;
+    if (!imgElement) return null;
 
     const scaleX = imgElement.naturalWidth / imgElement.clientWidth;
     const scaleY = imgElement.naturalHeight / imgElement.clientHeight;
@@ -146,7 +274,7 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({ imageUrl
     canvas.width = Math.floor(selection.width * scaleX);
     canvas.height = Math.floor(selection.height * scaleY);
     const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    if (!ctx || canvas.width === 0 || canvas.height === 0) return null;
 
     // Draw just the selected part
     ctx.drawImage(
@@ -155,170 +283,224 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({ imageUrl
       0, 0, canvas.width, canvas.height
     );
 
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    const data = imageData.data;
-    const w = canvas.width;
-    const h = canvas.height;
+    return {
+      image: ctx.getImageData(0, 0, canvas.width, canvas.height),
+      box: { x: selection.x * scaleX, y: selection.y * scaleY, width: canvas.width, height: canvas.height }
+    };
+  };
 
-    // 1. TRACE BOUNDARIES (Simple Moore-Neighbor Tracing)
-    // This is a simplified implementation to get a single path.
-    // Ideally we'd handle holes, but for now we trace the largest external contour.
-    
-    const visited = new Set<string>();
-    const points: {x: number, y: number}[] = [];
-    let foundStart = false;
-
-    // Find starting point
-    for (let y = 0; y < h; y++) {
-      for (let x = 0; x < w; x++) {
-        if (isPixelOn(data, w, x, y, threshold)) {
-          // Found start.
-          // Start Tracing
-          let curr = { x, y };
-          // Backtrack direction (enter from left: -1, 0)
-          let back = { x: x - 1, y: y };
-          
-          // Simple boundary follower
-          const start = { x, y };
-          
-          // Only trace if we haven't visited this pixel (very basic check)
-          // For a robust impl, we'd need full component labeling.
-          // Let's just trace the *first* object found in the box for MVP.
-          foundStart = true;
-          
-          // Moore-Neighbor Tracing
-          // B = backtrack, P = current
-          let p = { ...start };
-          let b = { ...back };
-          
-          const maxSteps = w * h * 2; // Safety break
-          let steps = 0;
+  const vectoriseSelection = async () => {
+    const pixels = readSelectionPixels();
+    if (pixels) setCrop(pixels);
+  };
 
-          do {
-            points.push({ ...p });
-            visited.add(`${p.x},${p.y}`);
-            
-            // Scan 8 neighbors of P in clockwise order, starting with B
-            // Neighbors relative to P:
-            const neighbors = [
-               {x: p.x-1, y: p.y-1}, {x: p.x, y: p.y-1}, {x: p.x+1, y: p.y-1},
-               {x: p.x+1, y: p.y},   {x: p.x+1, y: p.y+1}, {x: p.x, y: p.y+1},
-               {x: p.x-1, y: p.y+1}, {x: p.x-1, y: p.y}
-            ];
-
-            // Find index of B in neighbors to start scan
-            let bIndex = -1;
-            // Locate the neighbor that corresponds to B (or closest to it)
-            // Actually, in Moore alg, B is one of the neighbors.
-            // If B is not a valid neighbor, we snap to closest? 
-            // Let's just use standard offsets.
-            
-            // Optimization: Just simple radial scan.
-            // Order: N, NE, E, SE, S, SW, W, NW
-            const offsets = [
-              {dx: 0, dy: -1}, {dx: 1, dy: -1}, {dx: 1, dy: 0}, {dx: 1, dy: 1},
-              {dx: 0, dy: 1}, {dx: -1, dy: 1}, {dx: -1, dy: 0}, {dx: -1, dy: -1}
-            ];
-            
-            // We need to find which offset B corresponds to relative to P.
-            // Then start scanning clockwise from there.
-            let startIndex = 0;
-            for(let k=0; k<8; k++) {
-               if (p.x + offsets[k].dx === b.x && p.y + offsets[k].dy === b.y) {
-                 startIndex = k;
-                 break;
-               }
-            }
-
-            let nextP = null;
-            let nextB = null;
-
-            for (let i = 0; i < 8; i++) {
-              const idx = (startIndex + 1 + i) % 8; // Start from B's next neighbor clockwise
-              const off = offsets[idx];
-              const targetX = p.x + off.dx;
-              const targetY = p.y + off.dy;
-              
-              if (isPixelOn(data, w, targetX, targetY, threshold)) {
-                nextP = { x: targetX, y: targetY };
-                // The new backtrack is the previous neighbor in the scan (which was empty)
-                const prevIdx = (idx - 1 + 8) % 8;
-                nextB = { x: p.x + offsets[prevIdx].dx, y: p.y + offsets[prevIdx].dy };
-                break;
-              }
-            }
-
-            if (nextP) {
-              p = nextP;
-              b = nextB!;
-            } else {
-              // Isolated pixel?
-              break;
-            }
-            
-            steps++;
-          } while ((p.x !== start.x || p.y !== start.y) && steps < maxSteps);
+  // Finds the characters on the whole page with the current binarization
+  const detectOnPage = (): { candidates: CharacterCandidate[]; labels: Int32Array; width: number } | null => {
+    const img = imgRef.current;
+    if (!img || !img.naturalWidth) return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(img, 0, 0);
+
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const mask = binarize(data, canvas.width, canvas.height, binarization);
+    const result = detectCharacters(mask, canvas.width, canvas.height);
+    pageLettersRef.current = { settings: binarization, boxes: result.candidates.map(c => c.box) };
+    return { ...result, width: canvas.width };
+  };
 
-          break; // Stop after first blob
-        }
-      }
-      if (foundStart) break;
-    }
+  const pageLetters = (): BoundingBox[] => {
+    if (pageLettersRef.current?.settings !== binarization) detectOnPage();
+    return pageLettersRef.current?.boxes ?? [];
+  };
 
-    // Simplify points (remove collinear)
-    const simplified: {x: number, y: number}[] = [];
-    if (points.length > 0) {
-      simplified.push(points[0]);
-      for (let i = 1; i < points.length - 1; i++) {
-        const prev = simplified[simplified.length - 1];
-        const curr = points[i];
-        const next = points[i + 1];
-        // Check if slope matches
-        const dx1 = curr.x - prev.x;
-        const dy1 = curr.y - prev.y;
-        const dx2 = next.x - curr.x;
-        const dy2 = next.y - curr.y;
-        
-        if (dx1 * dy2 !== dy1 * dx2) {
-           simplified.push(curr);
-        }
-      }
-      simplified.push(points[points.length - 1]);
+  // Guides set the scale; without them the letters of the page do, so every glyph cut from it shares one scale.
+  // A glyph sits on `baseline` when given, else on the guides' baseline or that of the nearest line of text
+  const frameFor = (box: BoundingBox, baseline?: number): PixelFrame => {
+    if (guides) {
+      const frame = frameFromGuides(guides, metrics);
+      return baseline === undefined ? frame : { ...frame, baseline };
     }
+    const letters = pageLetters();
+    return {
+      baseline: baseline ?? baselineNear(box, letters),
+      unitsPerPixel: estimateUnitsPerPixel(letters, metrics)
+    };
+  };
 
-    // Generate SVG Path
-    let svgPath = "";
-    if (simplified.length > 2) {
-      svgPath = `M${simplified[0].x} ${simplified[0].y}`;
-      for (let i = 1; i < simplified.length; i++) {
-        svgPath += `L${simplified[i].x} ${simplified[i].y}`;
-      }
-      svgPath += "Z";
-    } else {
-      // Fallback if tracing failed (e.g. empty)
-      svgPath = ""; 
+  // Recompute the difference overlay when either image changes
+  const differenceUrl = compare?.mode === 'difference' ? compare.imageUrl : null;
+  useEffect(() => {
+    setCompareError(null);
+    if (!differenceUrl) return;
+    let cancelled = false;
+    Promise.all([loadImageData(imageUrl), loadImageData(differenceUrl)])
+      .then(([current, earlier]) => {
+        const canvas = differenceCanvasRef.current;
+        if (cancelled || !canvas) return;
+        const overlay = differenceMap(current, earlier);
+        canvas.width = overlay.width;
+        canvas.height = overlay.height;
+        canvas.getContext('2d')?.putImageData(overlay, 0, 0);
+      })
+      .catch(err => {
+        console.error('Could not compare the images:', err);
+        if (!cancelled) setCompareError('Could not compare the images.');
+      });
+    return () => { cancelled = true; };
+  }, [imageUrl, differenceUrl]);
+
+  // Repaint the binarized preview once the selection settles or the settings change
+  useEffect(() => {
+    if (!selection || isDragging) return;
+    const selected = readSelectionPixels();
+    if (!selected) return;
+    const pixels = selected.image;
+
+    setOtsuValue(binarization.method === 'otsu' ? otsuThreshold(toGrayscale(pixels.data, pixels.width, pixels.height)) : null);
+
+    const canvas = previewCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+    const mask = binarize(pixels.data, pixels.width, pixels.height, binarization);
+    const view = ctx.createImageData(pixels.width, pixels.height);
+    for (let i = 0; i < mask.length; i++) {
+      // Ink in near-black, paper in translucent white
+      view.data[i * 4] = mask[i] ? 28 : 255;
+      view.data[i * 4 + 1] = mask[i] ? 25 : 255;
+      view.data[i * 4 + 2] = mask[i] ? 23 : 255;
+      view.data[i * 4 + 3] = mask[i] ? 255 : 210;
     }
+    ctx.putImageData(view, 0, 0);
+  }, [selection, isDragging, binarization, showPreview]);
 
+  const createGlyph = (selected: InkComponent[]) => {
+    if (!crop) return;
+    // Each part contributes its outline and counters, which wind the opposite way
+    const svgPath = shapesToSvgPath(selected.map(c => c.shape), tolerance);
     if (!svgPath) return;
 
     const glyph: VectorGlyph = {
       id: Date.now().toString(),
-      svgPath: svgPath,
-      width: canvas.width,
-      height: canvas.height,
-      name: `Glyph ${Date.now().toString().slice(-4)}`
+      ...normalizeOutline(svgPath, crop.box, frameFor(crop.box)),
+      name: `Glyph ${Date.now().toString().slice(-4)}`,
+      codepoints: pendingCodepoint !== null ? [pendingCodepoint] : []
     };
 
     onGlyphCreated(glyph);
+    if (pendingCodepoint !== null) onClearPendingCodepoint();
+    setCrop(null);
     setSelection(null);
   };
 
+  // --- Auto-detect ---
+
+  const closeAutoDetect = () => {
+    setPage(null);
+    setCandidates([]);
+    setAcceptedIds(new Set());
+    setSelectedIds(new Set());
+  };
+
+  const detectPage = () => {
+    if (!imgRef.current?.naturalWidth) return;
+    setIsDetecting(true);
+    setSelection(null);
+    setCrop(null);
+
+    // Let the button show its busy state before the page is processed
+    setTimeout(() => {
+      try {
+        const result = detectOnPage();
+        if (!result) return;
+        setPage({ labels: result.labels, width: result.width });
+        setCandidates(result.candidates);
+        setAcceptedIds(new Set());
+        setSelectedIds(new Set());
+      } finally {
+        setIsDetecting(false);
+      }
+    }, 0);
+  };
+
+  const toggleCandidate = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const selectedCandidates = candidates.filter(c => selectedIds.has(c.id));
+
+  const handleAcceptSelected = () => {
+    setAcceptedIds(prev => new Set([...prev, ...selectedIds]));
+    setSelectedIds(new Set());
+  };
+
+  const handleRejectSelected = () => {
+    setCandidates(prev => prev.filter(c => !selectedIds.has(c.id)));
+    setSelectedIds(new Set());
+  };
+
+  const handleMergeSelected = () => {
+    if (selectedCandidates.length < 2) return;
+    const merged = mergeCandidates(selectedCandidates);
+    setCandidates(prev => sortReadingOrder([...prev.filter(c => !selectedIds.has(c.id)), merged]));
+    setSelectedIds(new Set([merged.id]));
+  };
+
+  const handleSplitSelected = () => {
+    if (!page || selectedCandidates.length !== 1) return;
+    const halves = splitCandidate(selectedCandidates[0], page.labels, page.width);
+    if (!halves) return;
+    setCandidates(prev => sortReadingOrder([...prev.filter(c => c.id !== selectedCandidates[0].id), ...halves]));
+    setSelectedIds(new Set(halves.map(h => h.id)));
+  };
+
+  const createAcceptedGlyphs = () => {
+    if (!page) return;
+    const stamp = Date.now();
+    // Each line of text has its own baseline; the guides, or the page's letters, only set the scale
+    const baselines = estimateBaselines(candidates.map(c => c.box));
+
+    candidates.forEach((c, i) => {
+      if (!acceptedIds.has(c.id)) return;
+      const mask = candidateMask(c, page.labels, page.width);
+      const parts = traceComponents(mask, c.box.width, c.box.height);
+      const svgPath = shapesToSvgPath(parts.map(p => p.shape), tolerance);
+      if (!svgPath) return;
+      onGlyphCreated({
+        id: `${stamp}-${i}`,
+        ...normalizeOutline(svgPath, c.box, frameFor(c.box, baselines[i])),
+        name: `Glyph ${stamp.toString().slice(-4)}-${i + 1}`,
+        codepoints: []
+      });
+    });
+
+    setCandidates(prev => prev.filter(c => !acceptedIds.has(c.id)));
+    setAcceptedIds(new Set());
+    setSelectedIds(new Set());
+  };
+
   return (
     <div className="space-y-4">
        <div className="flex items-center justify-between">
           <h3 className="font-bold text-stone-800 flex items-center gap-2">
             <ScissorsIcon />
             Extract Character
+            {pendingCodepoint !== null && (
+              <span className="ml-2 flex items-center gap-1 text-xs font-normal bg-emerald-50 text-emerald-700 border border-emerald-200 rounded-full px-2 py-0.5">
+                as {codepointPreview(pendingCodepoint)} {formatCodepoint(pendingCodepoint)}
+                <button onClick={onClearPendingCodepoint} className="text-emerald-500 hover:text-emerald-900" title="Extract without a codepoint">×</button>
+              </span>
+            )}
           </h3>
           <div className="flex items-center gap-4">
              {/* Zoom Controls */}
@@ -346,17 +528,53 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({ imageUrl
                 </button>
              </div>
 
-             {/* Threshold Control */}
+             <button
+               onClick={detectPage}
+               disabled={isDetecting}
+               className="text-xs font-medium bg-stone-200 px-3 py-1.5 rounded-lg hover:bg-stone-300 text-stone-700 transition-colors disabled:opacity-50"
+               title="Find every character on the page using the current binarization"
+             >
+               {isDetecting ? 'Detecting...' : page ? 'Re-detect' : 'Auto-detect characters'}
+             </button>
+
+             {/* Binarization Controls */}
+             <BinarizationControls settings={binarization} onChange={setBinarization} otsuValue={otsuValue} />
+             <label className="flex items-center gap-1 text-xs text-stone-500 cursor-pointer">
+                <input type="checkbox" checked={showPreview} onChange={(e) => setShowPreview(e.target.checked)} />
+                Preview
+             </label>
+             {guides ? (
+               <div className="flex items-center gap-1 text-xs text-stone-500">
+                 <label className="flex items-center gap-1 cursor-pointer" title="Drag the baseline and x-height lines onto a line of text to set the scale of new glyphs">
+                   <input type="checkbox" checked={showGuides} onChange={(e) => setShowGuides(e.target.checked)} />
+                   Guides
+                 </label>
+                 <button onClick={() => setGuides(null)} className="text-stone-400 hover:text-stone-900" title="Remove the guides">×</button>
+               </div>
+             ) : (
+               <button
+                 onClick={placeGuides}
+                 className="text-xs text-stone-500 hover:text-stone-900 underline"
+                 title="Select a letter without ascenders or descenders, such as x, to fit the guides to it. Without guides the scale is estimated from the letters on the page."
+               >
+                 Place guides
+               </button>
+             )}
+
+             {/* Curve Fitting Tolerance */}
              <div className="flex items-center gap-2">
-                <label className="text-xs text-stone-500">Threshold</label>
+                <label className="text-xs text-stone-500">Tolerance</label>
                 <input 
                   type="range" 
                   min="0" 
-                  max="255" 
-                  value={threshold} 
-                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  max="4" 
+                  step="0.25"
+                  value={tolerance} 
+                  onChange={(e) => setTolerance(Number(e.target.value))}
                   className="w-24 h-2 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+                  title="How far fitted curves may stray from the traced pixels"
                 />
+                <span className="text-xs text-stone-500 w-10 tabular-nums">{tolerance > 0 ? `${tolerance}px` : 'Off'}</span>
              </div>
           </div>
        </div>
@@ -365,6 +583,11 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({ imageUrl
          className="relative bg-stone-100 rounded-lg overflow-hidden border border-stone-300 select-none group"
          style={{ height: '500px' }}
        >
+          {compareError && (
+            <div className="absolute top-2 left-2 z-10 p-2 bg-red-50 text-red-600 text-xs rounded border border-red-100">
+              {compareError}
+            </div>
+          )}
           <div 
             ref={containerRef}
             className="relative w-full h-full"
@@ -392,8 +615,135 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({ imageUrl
                 className="block pointer-events-none" 
                 onLoad={handleImageLoad}
               />
+
+              {/* Earlier version, at the current image's size */}
+              {compare && compare.mode !== 'difference' && (
+                <img
+                  src={compare.imageUrl}
+                  alt="Earlier version"
+                  className="absolute top-0 left-0 pointer-events-none"
+                  style={{
+                    width: imageSize.width,
+                    height: imageSize.height,
+                    opacity: compare.mode === 'onion' ? compare.opacity : 1,
+                    clipPath: compare.mode === 'split' ? `inset(0 ${(1 - compare.split) * 100}% 0 0)` : undefined
+                  }}
+                />
+              )}
+              {compare?.mode === 'difference' && (
+                <canvas
+                  ref={differenceCanvasRef}
+                  className="absolute top-0 left-0 pointer-events-none"
+                  style={{ width: imageSize.width, height: imageSize.height }}
+                />
+              )}
+              {compare?.mode === 'split' && (
+                <div
+                  className="absolute top-0 h-full cursor-ew-resize"
+                  style={{ left: compare.split * imageSize.width, width: 12 / transform.scale, marginLeft: -6 / transform.scale }}
+                  onMouseDown={(e) => {
+                    if (e.button !== 0 || e.shiftKey) return;
+                    e.stopPropagation();
+                    setDraggingSplit(true);
+                  }}
+                >
+                  <div className="mx-auto h-full bg-white shadow" style={{ width: 2 / transform.scale }} />
+                </div>
+              )}
+
+              {/* Auto-detected candidates, in image pixels */}
+              {page && (
+                <svg
+                  className="absolute inset-0 w-full h-full"
+                  viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+                  preserveAspectRatio="none"
+                >
+                  {candidates.map(c => {
+                    const selected = selectedIds.has(c.id);
+                    const accepted = acceptedIds.has(c.id);
+                    return (
+                      <rect
+                        key={c.id}
+                        x={c.box.x - 1}
+                        y={c.box.y - 1}
+                        width={c.box.width + 2}
+                        height={c.box.height + 2}
+                        fill={selected ? 'rgba(37, 99, 235, 0.25)' : 'transparent'}
+                        stroke={selected ? '#2563eb' : accepted ? '#16a34a' : '#f59e0b'}
+                        strokeWidth={selected ? 2 : 1.5}
+                        strokeDasharray={accepted || selected ? undefined : '4 2'}
+                        vectorEffect="non-scaling-stroke"
+                        className="cursor-pointer"
+                        onMouseDown={(e) => {
+                          if (e.button !== 0 || e.shiftKey) return;
+                          e.stopPropagation();
+                          toggleCandidate(c.id);
+                        }}
+                      />
+                    );
+                  })}
+                </svg>
+              )}
+
+              {/* Metric guides; the baseline and x-height lines can be dragged */}
+              {showGuides && guides && (
+                <svg
+                  className="absolute inset-0 w-full h-full pointer-events-none overflow-visible"
+                  viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+                  preserveAspectRatio="none"
+                >
+                  {guideLinePositions(guides, metrics).map(line => {
+                    const draggable = line.id === 'baseline' || line.id === 'xHeight';
+                    const colour = draggable ? '#db2777' : '#f472b6';
+                    return (
+                      <g key={line.id}>
+                        <line
+                          x1={0} x2={imageSize.width} y1={line.y} y2={line.y}
+                          stroke={colour}
+                          strokeWidth={draggable ? 1.5 : 1}
+                          strokeDasharray={draggable ? undefined : '6 4'}
+                          vectorEffect="non-scaling-stroke"
+                        />
+                        {draggable && (
+                          <line
+                            x1={0} x2={imageSize.width} y1={line.y} y2={line.y}
+                            stroke="transparent"
+                            strokeWidth={10}
+                            vectorEffect="non-scaling-stroke"
+                            style={{ pointerEvents: 'stroke', cursor: 'ns-resize' }}
+                            onMouseDown={(e) => handleGuideMouseDown(line.id as keyof PageGuides, e)}
+                          />
+                        )}
+                        <text
+                          x={4 / transform.scale}
+                          y={line.y - 3 / transform.scale}
+                          fontSize={10 / transform.scale}
+                          fill={colour}
+                        >
+                          {line.label}
+                        </text>
+                      </g>
+                    );
+                  })}
+                </svg>
+              )}
             </div>
             
+            {/* Binarized Preview of the Selection */}
+            {selection && showPreview && !isDragging && (
+              <canvas
+                ref={previewCanvasRef}
+                className="absolute pointer-events-none"
+                style={{
+                  left: selection.x * transform.scale + transform.x,
+                  top: selection.y * transform.scale + transform.y,
+                  width: selection.width * transform.scale,
+                  height: selection.height * transform.scale,
+                  imageRendering: 'pixelated'
+                }}
+              />
+            )}
+
             {/* Selection Overlay */}
             {selection && (
               <div 
@@ -409,7 +759,7 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({ imageUrl
           </div>
           
           {/* Floating Action Button for Extraction */}
-          {selection && selection.width > 10 && (
+          {selection && selection.width > 10 && !crop && (
             <div 
               className="absolute z-10"
               style={{ 
@@ -429,8 +779,32 @@ export const CharacterExtractor: React.FC<CharacterExtractorProps> = ({ imageUrl
             </div>
           )}
        </div>
+       {page && (
+         <SegmentationToolbar
+           total={candidates.length}
+           accepted={candidates.filter(c => acceptedIds.has(c.id)).length}
+           selected={selectedIds.size}
+           onAccept={handleAcceptSelected}
+           onAcceptAll={() => setAcceptedIds(new Set(candidates.map(c => c.id)))}
+           onReject={handleRejectSelected}
+           onMerge={handleMergeSelected}
+           onSplit={handleSplitSelected}
+           onCreate={createAcceptedGlyphs}
+           onClose={closeAutoDetect}
+         />
+       )}
+       {crop && (
+         <ComponentReview
+           width={crop.image.width}
+           height={crop.image.height}
+           components={components}
+           tolerance={tolerance}
+           onConfirm={createGlyph}
+           onCancel={() => setCrop(null)}
+         />
+       )}
        <p className="text-xs text-stone-500">
-         Drag to select a character. Hold Shift or right-click to pan. Use mouse wheel to zoom. Adjust threshold to control thickness.
+         Drag to select a character. Hold Shift or right-click to pan. Use mouse wheel to zoom. Pick a binarization method and check the preview to control which pixels count as ink, and adjust tolerance to trade detail for smoother curves. Place the baseline and x-height guides on a line of text before extracting to control the scale of new glyphs; without them the median letter on the page is taken as the x-height.
        </p>
     </div>
   );
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { formatCodepointList, parseCodepointInput, parseCodepointSequence } from '../services/unicode';
+
+interface CodepointInputProps {
+  codepoints: number[];
+  onChange: (codepoints: number[]) => void;
+  className?: string;
+  autoFocus?: boolean;
+  onDone?: () => void;
+  // Ordered input where repeats matter, such as the components of a ligature
+  sequence?: boolean;
+}
+
+/**
+ * Text field accepting characters or U+XXXX values, committed on Enter or blur.
+ */
+export const CodepointInput: React.FC<CodepointInputProps> = ({ codepoints, onChange, className = '', autoFocus, onDone, sequence }) => {
+  const [text, setText] = useState(formatCodepointList(codepoints));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setText(formatCodepointList(codepoints));
+    setError(null);
+  }, [codepoints]);
+
+  const commit = () => {
+    try {
+      const parsed = sequence ? parseCodepointSequence(text) : parseCodepointInput(text);
+      setError(null);
+      onChange(parsed);
+      onDone?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      value={text}
+      autoFocus={autoFocus}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') {
+          setText(formatCodepointList(codepoints));
+          setError(null);
+          onDone?.();
+        }
+      }}
+      placeholder={sequence ? 'ffi or U+017F t' : 'A or U+0041'}
+      title={error || (sequence ? 'A sequence of characters or U+XXXX codepoints' : 'Characters or U+XXXX codepoints, separated by spaces')}
+      className={`px-2 py-1 text-xs font-mono rounded-md bg-white border outline-none ${error ? 'border-red-400 text-red-600' : 'border-stone-200 focus:border-stone-500'} ${className}`}
+    />
+  );
+};
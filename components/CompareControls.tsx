@@ -0,0 +1,107 @@
+import React from 'react';
+import { EditHistory, describeOperation, undoTarget } from '../services/editHistory';
+
+export type CompareMode = 'split' | 'onion' | 'difference';
+
+// Comparison of the current page image with an earlier version from its history
+export interface CompareSettings {
+  nodeId: string;
+  mode: CompareMode;
+  // Where the split falls, as a fraction of the image width; the earlier version is left of it
+  split: number;
+  // Opacity of the earlier version laid over the current one
+  opacity: number;
+}
+
+// What the extractor viewport needs to draw a comparison
+export interface CompareView {
+  imageUrl: string;
+  mode: CompareMode;
+  split: number;
+  opacity: number;
+}
+
+interface CompareControlsProps {
+  history: EditHistory;
+  settings: CompareSettings | null;
+  onChange: (settings: CompareSettings | null) => void;
+}
+
+const MODES: { id: CompareMode; label: string; title: string }[] = [
+  { id: 'split', label: 'Split', title: 'Earlier version left of a slider you can drag' },
+  { id: 'onion', label: 'Onion skin', title: 'Earlier version laid over the current one' },
+  { id: 'difference', label: 'Difference', title: 'Where the pixels changed' }
+];
+
+/**
+ * Toolbar controls for comparing the current image with any earlier state
+ * in its edit history.
+ */
+export const CompareControls: React.FC<CompareControlsProps> = ({ history, settings, onChange }) => {
+  const others = history.nodes.filter(n => n.id !== history.currentId);
+  if (others.length === 0) return null;
+
+  if (!settings || !others.some(n => n.id === settings.nodeId)) {
+    return (
+      <button
+        onClick={() => onChange({ nodeId: undoTarget(history) ?? others[0].id, mode: 'split', split: 0.5, opacity: 0.5 })}
+        className="text-xs px-2 py-1 rounded-md bg-stone-100 text-stone-700 hover:bg-stone-200"
+        title="Compare with an earlier version"
+      >
+        Compare
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <select
+        value={settings.nodeId}
+        onChange={(e) => onChange({ ...settings, nodeId: e.target.value })}
+        className="max-w-[12rem] px-1.5 py-0.5 rounded bg-white border border-stone-200 focus:border-stone-500 outline-none"
+        title="Version to compare with"
+      >
+        {others.map(n => <option key={n.id} value={n.id}>{describeOperation(n.operation)}</option>)}
+      </select>
+      <div className="flex bg-stone-100 rounded-md p-0.5">
+        {MODES.map(m => (
+          <button
+            key={m.id}
+            onClick={() => onChange({ ...settings, mode: m.id })}
+            className={`px-2 py-0.5 rounded ${settings.mode === m.id ? 'bg-white shadow-sm text-stone-900' : 'text-stone-500'}`}
+            title={m.title}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+      {settings.mode === 'onion' && (
+        <>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={settings.opacity}
+            onChange={(e) => onChange({ ...settings, opacity: Number(e.target.value) })}
+            className="w-20 accent-stone-600"
+            title="Opacity of the earlier version"
+          />
+          <button
+            onClick={() => onChange({ ...settings, opacity: settings.opacity < 0.5 ? 1 : 0 })}
+            className="px-2 py-0.5 rounded bg-stone-100 text-stone-700 hover:bg-stone-200"
+            title="Show only the earlier or only the current version"
+          >
+            Flip
+          </button>
+        </>
+      )}
+      {settings.mode === 'difference' && (
+        <span className="text-stone-400">
+          <span className="text-red-600">added</span> · <span className="text-blue-600">removed</span>
+        </span>
+      )}
+      <button onClick={() => onChange(null)} className="text-stone-500 hover:text-stone-900 underline">Done</button>
+    </div>
+  );
+};
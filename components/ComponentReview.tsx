@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CheckIcon, CloseIcon } from './Icons';
+import { InkComponent, shapesToSvgPath } from '../services/tracer';
+
+interface ComponentReviewProps {
+  width: number;
+  height: number;
+  components: InkComponent[];
+  tolerance: number;
+  onConfirm: (components: InkComponent[]) => void;
+  onCancel: () => void;
+}
+
+export const ComponentReview: React.FC<ComponentReviewProps> = ({ width, height, components, tolerance, onConfirm, onCancel }) => {
+  const [minArea, setMinArea] = useState(8);
+  // Explicit clicks win over the minimum-area filter
+  const [overrides, setOverrides] = useState<Map<number, boolean>>(new Map());
+
+  // Component ids are reassigned whenever the crop is re-traced
+  useEffect(() => {
+    setOverrides(new Map());
+  }, [components]);
+
+  // Previewed with the same curve fitting the glyph will get
+  const paths = useMemo(
+    () => new Map(components.map(c => [c.id, shapesToSvgPath([c.shape], tolerance)])),
+    [components, tolerance]
+  );
+
+  const isIncluded = (c: InkComponent) => overrides.get(c.id) ?? c.area >= minArea;
+  const included = components.filter(isIncluded);
+
+  const toggle = (c: InkComponent) => {
+    setOverrides(prev => new Map(prev).set(c.id, !isIncluded(c)));
+  };
+
+  // Smaller parts are drawn last so they stay clickable inside larger ones' bounds
+  const drawOrder = [...components].sort((a, b) => b.area - a.area);
+  const pad = Math.max(2, Math.min(width, height) * 0.02);
+
+  return (
+    <div className="bg-white border border-stone-200 rounded-lg p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-stone-500 uppercase tracking-wide">
+          Parts: {included.length} of {components.length} included
+        </span>
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-stone-500">Ignore specks under</label>
+          <input
+            type="range"
+            min="0"
+            max="200"
+            value={minArea}
+            onChange={(e) => setMinArea(Number(e.target.value))}
+            className="w-24 h-2 bg-stone-200 rounded-lg appearance-none cursor-pointer"
+          />
+          <span className="text-xs text-stone-500 w-12 tabular-nums">{minArea} px</span>
+        </div>
+      </div>
+
+      <div className="bg-stone-50 border border-stone-100 rounded flex justify-center p-2">
+        <svg
+          viewBox={`${-pad} ${-pad} ${width + 2 * pad} ${height + 2 * pad}`}
+          className="max-h-48 w-full"
+          preserveAspectRatio="xMidYMid meet"
+        >
+          {drawOrder.map(c => {
+            const on = isIncluded(c);
+            return (
+              <g key={c.id} onClick={() => toggle(c)} className="cursor-pointer">
+                <rect
+                  x={c.bounds.x - pad / 2}
+                  y={c.bounds.y - pad / 2}
+                  width={c.bounds.width + pad}
+                  height={c.bounds.height + pad}
+                  fill="transparent"
+                  stroke={on ? 'transparent' : '#fca5a5'}
+                  strokeDasharray={`${pad} ${pad}`}
+                  strokeWidth={pad / 3}
+                />
+                <path
+                  d={paths.get(c.id)}
+                  fill={on ? '#1c1917' : '#fca5a5'}
+                  fillRule="evenodd"
+                />
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-stone-400">Click a part to include or exclude it.</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onCancel}
+            className="text-xs text-stone-500 hover:text-stone-800 flex items-center gap-1 px-3 py-1.5 rounded hover:bg-stone-100"
+          >
+            <CloseIcon /> Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(included)}
+            disabled={included.length === 0}
+            className="bg-blue-600 text-white px-3 py-1.5 rounded-full text-xs font-medium hover:bg-blue-700 transition-colors flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <CheckIcon /> Create Glyph
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
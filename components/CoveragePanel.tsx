@@ -0,0 +1,172 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { VectorGlyph } from '../types';
+import { TrashIcon } from './Icons';
+import {
+  BUILTIN_REPERTOIRES,
+  CoverageSettings,
+  computeCoverage,
+  createRepertoireId,
+  findRepertoire,
+  parseRepertoire
+} from '../services/coverage';
+import { codepointPreview, formatCodepoint } from '../services/unicode';
+
+interface CoveragePanelProps {
+  glyphs: VectorGlyph[];
+  settings: CoverageSettings;
+  onChange: (settings: CoverageSettings) => void;
+  // A missing character was picked, to be extracted next
+  onPickMissing: (codepoint: number) => void;
+  onEditGlyph: (glyph: VectorGlyph) => void;
+  onExportReport: (format: 'csv' | 'json') => void;
+}
+
+const inputClass =
+  "px-1.5 py-0.5 text-xs rounded bg-white border border-stone-200 focus:border-stone-500 outline-none";
+
+/**
+ * How much of the target repertoire has glyphs, as a grid of characters.
+ */
+export const CoveragePanel: React.FC<CoveragePanelProps> = ({ glyphs, settings, onChange, onPickMissing, onEditGlyph, onExportReport }) => {
+  const [draft, setDraft] = useState<{ name: string; text: string } | null>(null);
+  const [draftError, setDraftError] = useState<string | null>(null);
+  const [missingOnly, setMissingOnly] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const target = findRepertoire(settings, settings.targetId);
+  const coverage = useMemo(() => (target ? computeCoverage(target, glyphs) : null), [target, glyphs]);
+  const covered = coverage ? [...coverage.values()].filter(Boolean).length : 0;
+  const total = target?.codepoints.length ?? 0;
+  const isCustom = !!target && settings.repertoires.some(r => r.id === target.id);
+
+  const handleSaveDraft = () => {
+    if (!draft) return;
+    try {
+      const codepoints = parseRepertoire(draft.text);
+      if (codepoints.length === 0) throw new Error('The list has no characters');
+      const repertoire = { id: createRepertoireId(), name: draft.name.trim() || 'Custom list', codepoints };
+      onChange({ repertoires: [...settings.repertoires, repertoire], targetId: repertoire.id });
+      setDraft(null);
+      setDraftError(null);
+    } catch (err) {
+      setDraftError(err instanceof Error ? err.message : 'The list could not be read');
+    }
+  };
+
+  const handleLoadFile = async (file: File) => {
+    setDraft({ name: file.name.replace(/\.[^.]+$/, ''), text: await file.text() });
+    setDraftError(null);
+  };
+
+  return (
+    <details className="mb-4 group" open={settings.targetId !== null}>
+      <summary className="text-xs text-stone-500 cursor-pointer select-none hover:text-stone-800 flex items-center gap-2">
+        Coverage
+        {target && (
+          <>
+            <span className="text-stone-400">· {target.name}</span>
+            <span className="ml-auto tabular-nums">{covered} / {total}</span>
+          </>
+        )}
+      </summary>
+
+      <div className="mt-2 space-y-2">
+        <div className="flex items-center gap-2">
+          <select
+            value={settings.targetId ?? ''}
+            onChange={(e) => onChange({ ...settings, targetId: e.target.value || null })}
+            className={`flex-1 min-w-0 ${inputClass}`}
+          >
+            <option value="">No target</option>
+            <optgroup label="Unicode">
+              {BUILTIN_REPERTOIRES.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </optgroup>
+            {settings.repertoires.length > 0 && (
+              <optgroup label="This project">
+                {settings.repertoires.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+              </optgroup>
+            )}
+          </select>
+          <button onClick={() => setDraft({ name: '', text: '' })} className="text-xs text-stone-600 hover:text-stone-900 underline">
+            New list
+          </button>
+          {isCustom && (
+            <button
+              onClick={() => onChange({ repertoires: settings.repertoires.filter(r => r.id !== target!.id), targetId: null })}
+              className="text-stone-400 hover:text-red-600"
+              title="Delete this list"
+            >
+              <TrashIcon />
+            </button>
+          )}
+        </div>
+
+        {draft && (
+          <div className="p-2 bg-stone-50 rounded border border-stone-200 space-y-2">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Name, e.g. Grantha for Sanskrit"
+              className={`w-full ${inputClass}`}
+            />
+            <textarea
+              value={draft.text}
+              onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+              rows={3}
+              placeholder="Characters, U+XXXX codepoints or U+XXXX..U+YYYY ranges"
+              className={`w-full font-mono ${inputClass}`}
+            />
+            {draftError && <p className="text-[11px] text-red-600">{draftError}</p>}
+            <div className="flex items-center gap-2 text-xs">
+              <button onClick={handleSaveDraft} className="px-2 py-1 rounded-md bg-stone-900 text-white hover:bg-stone-800">Add list</button>
+              <button onClick={() => fileInputRef.current?.click()} className="px-2 py-1 rounded-md bg-stone-100 text-stone-700 hover:bg-stone-200">
+                Load file…
+              </button>
+              <button onClick={() => { setDraft(null); setDraftError(null); }} className="ml-auto text-stone-500 hover:text-stone-900">Cancel</button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,.csv,text/plain"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleLoadFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </div>
+        )}
+
+        {target && coverage && (
+          <>
+            <div className="h-1.5 rounded-full bg-stone-100 overflow-hidden">
+              <div className="h-full bg-emerald-500" style={{ width: `${total ? (covered / total) * 100 : 0}%` }} />
+            </div>
+            <div className="flex items-center gap-2 text-xs">
+              <label className="flex items-center gap-1 text-stone-500 cursor-pointer">
+                <input type="checkbox" checked={missingOnly} onChange={(e) => setMissingOnly(e.target.checked)} />
+                Missing only
+              </label>
+              <span className="text-stone-400 ml-auto">Report:</span>
+              <button onClick={() => onExportReport('csv')} className="text-stone-600 hover:text-stone-900 underline">CSV</button>
+              <button onClick={() => onExportReport('json')} className="text-stone-600 hover:text-stone-900 underline">JSON</button>
+            </div>
+            <div className="grid grid-cols-10 gap-0.5 max-h-64 overflow-y-auto">
+              {[...coverage].filter(([, glyph]) => !missingOnly || !glyph).map(([cp, glyph]) => (
+                <button
+                  key={cp}
+                  onClick={() => (glyph ? onEditGlyph(glyph) : onPickMissing(cp))}
+                  className={`aspect-square text-sm rounded border flex items-center justify-center ${glyph ? 'bg-emerald-50 border-emerald-200 text-emerald-900 hover:bg-emerald-100' : 'bg-white border-dashed border-stone-300 text-stone-300 hover:text-stone-700 hover:border-stone-500'}`}
+                  title={`${formatCodepoint(cp)} · ${glyph ? `${glyph.name}, click to edit` : 'missing, click to extract it next'}`}
+                >
+                  {codepointPreview(cp) || '·'}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
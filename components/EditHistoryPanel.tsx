@@ -0,0 +1,97 @@
+import React from 'react';
+import { UndoIcon } from './Icons';
+import { EditHistory, HistoryNode, childrenOf, describeOperation, pathTo } from '../services/editHistory';
+
+interface EditHistoryPanelProps {
+  history: EditHistory;
+  busy: boolean;
+  onGoTo: (id: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onRemoveBranch: (id: string) => void;
+}
+
+interface Row {
+  node: HistoryNode;
+  depth: number;
+}
+
+// Depth-first, oldest branch first; a branch is indented only where a node has several
+const flattenTree = (history: EditHistory): Row[] => {
+  const rows: Row[] = [];
+  const walk = (node: HistoryNode, depth: number) => {
+    rows.push({ node, depth });
+    const children = childrenOf(history, node.id);
+    children.forEach(child => walk(child, children.length > 1 ? depth + 1 : depth));
+  };
+  const root = history.nodes.find(n => n.parentId === null);
+  if (root) walk(root, 0);
+  return rows;
+};
+
+/**
+ * Every version of the page image as a tree: click one to go back to it,
+ * edit from there to start a new branch.
+ */
+export const EditHistoryPanel: React.FC<EditHistoryPanelProps> = ({ history, busy, onGoTo, onUndo, onRedo, canUndo, canRedo, onRemoveBranch }) => {
+  const rows = flattenTree(history);
+  const currentPath = new Set(pathTo(history, history.currentId));
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-stone-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-stone-800">History</h3>
+        <div className="flex items-center gap-1 text-xs">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo || busy}
+            className="text-stone-500 hover:text-stone-800 flex items-center gap-1 px-2 py-1 rounded hover:bg-stone-100 disabled:opacity-40"
+          >
+            <UndoIcon /> Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo || busy}
+            className="text-stone-500 hover:text-stone-800 flex items-center gap-1 px-2 py-1 rounded hover:bg-stone-100 disabled:opacity-40"
+          >
+            <span className="-scale-x-100"><UndoIcon /></span> Redo
+          </button>
+        </div>
+      </div>
+
+      <ol className="space-y-0.5 max-h-64 overflow-y-auto">
+        {rows.map(({ node, depth }) => {
+          const isCurrent = node.id === history.currentId;
+          const onPath = currentPath.has(node.id);
+          const label = describeOperation(node.operation);
+          return (
+            <li key={node.id} className="group flex items-center gap-2" style={{ paddingLeft: depth * 12 }}>
+              <button
+                onClick={() => onGoTo(node.id)}
+                disabled={busy}
+                className={`flex-1 min-w-0 flex items-center gap-2 p-1 rounded text-left text-xs ${isCurrent ? 'bg-blue-50 ring-1 ring-blue-300' : 'hover:bg-stone-50'} ${onPath ? 'text-stone-800' : 'text-stone-400'}`}
+                title={node.operation.kind === 'earlier' ? label : `${label} · ${new Date(node.createdAt).toLocaleString()}`}
+              >
+                <span className="w-8 h-8 flex-none rounded bg-stone-100 overflow-hidden flex items-center justify-center">
+                  {node.thumbnail && <img src={node.thumbnail} alt="" className={`max-w-full max-h-full ${onPath ? '' : 'opacity-60'}`} />}
+                </span>
+                <span className="truncate">{label}</span>
+              </button>
+              {!onPath && (
+                <button
+                  onClick={() => onRemoveBranch(node.id)}
+                  className="text-stone-300 hover:text-red-600 text-xs px-1 opacity-0 group-hover:opacity-100"
+                  title="Delete this version and the edits made from it"
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React, { useState } from 'react';
+import { CheckIcon, CloseIcon } from './Icons';
+
+interface FontFaceSnippetProps {
+  css: string;
+  onClose: () => void;
+}
+
+export const FontFaceSnippet: React.FC<FontFaceSnippetProps> = ({ css, onClose }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(css);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err) {
+      console.error("Clipboard write failed:", err);
+    }
+  };
+
+  return (
+    <div className="bg-white border border-stone-200 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-semibold text-stone-500 uppercase tracking-wide">@font-face</span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={handleCopy}
+            className="text-xs text-stone-500 hover:text-stone-800 flex items-center gap-1 px-2 py-1 rounded hover:bg-stone-100"
+          >
+            {copied ? <><CheckIcon /> Copied</> : 'Copy'}
+          </button>
+          <button onClick={onClose} className="text-stone-400 hover:text-stone-700 p-1" title="Dismiss">
+            <CloseIcon />
+          </button>
+        </div>
+      </div>
+      <pre className="text-[11px] leading-snug font-mono bg-stone-50 border border-stone-100 rounded p-2 overflow-x-auto text-stone-700 select-all">
+        {css}
+      </pre>
+    </div>
+  );
+};
@@ -1,21 +1,58 @@
 import React, { useState } from 'react';
 import { MagicIcon, UndoIcon } from './Icons';
-import { ProcessingStatus } from '../types';
+import { BoundingBox, ProcessingStatus } from '../types';
+import { DEFAULT_REGION_FEATHER, IMAGE_PROVIDERS, ImageRegion } from '../services/imageEdit';
+import { IMAGE_EDIT_ERROR_MESSAGES, ImageEditError, ImageProviderId, ImageProviderSettings } from '../services/imageProvider';
 
 interface GeminiEditorProps {
   status: ProcessingStatus;
-  onEdit: (prompt: string) => void;
+  // With a region, only that part of the page is edited
+  onEdit: (prompt: string, region: ImageRegion | null) => void;
+  onCancel: () => void;
+  // Why the last edit failed
+  error: ImageEditError | null;
+  // Shown while waiting to retry a failed attempt
+  retryStatus: string | null;
+  // The extractor's selection in image pixels
+  selection: BoundingBox | null;
+  settings: ImageProviderSettings;
+  onSettingsChange: (settings: ImageProviderSettings) => void;
   onUndo: () => void;
   canUndo: boolean;
 }
 
-export const GeminiEditor: React.FC<GeminiEditorProps> = ({ status, onEdit, onUndo, canUndo }) => {
+const inputClass =
+  "w-full px-1.5 py-0.5 text-xs rounded bg-white border border-stone-200 focus:border-stone-500 outline-none";
+
+export const GeminiEditor: React.FC<GeminiEditorProps> = ({
+  status,
+  onEdit,
+  onCancel,
+  error,
+  retryStatus,
+  selection,
+  settings,
+  onSettingsChange,
+  onUndo,
+  canUndo
+}) => {
   const [prompt, setPrompt] = useState('');
+  const [selectionOnly, setSelectionOnly] = useState(true);
+  const [feather, setFeather] = useState(DEFAULT_REGION_FEATHER);
+  const provider = IMAGE_PROVIDERS.find(p => p.id === settings.provider) ?? IMAGE_PROVIDERS[0];
+
+  const handleProviderChange = (id: ImageProviderId) => {
+    const next = IMAGE_PROVIDERS.find(p => p.id === id)!;
+    onSettingsChange({ ...settings, provider: id, model: settings.model || next.defaultModel });
+  };
+
+  // A cleanup step running on the same image also keeps a new edit from starting
+  const busy = status === ProcessingStatus.GENERATING || status === ProcessingStatus.PROCESSING;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (prompt.trim() && status !== ProcessingStatus.GENERATING) {
-      onEdit(prompt);
+    if (prompt.trim() && !busy) {
+      onEdit(prompt, selection && selectionOnly ? { box: selection, feather } : null);
       setPrompt('');
     }
   };
@@ -44,6 +81,53 @@ export const GeminiEditor: React.FC<GeminiEditorProps> = ({ status, onEdit, onUn
         )}
       </div>
 
+      <details className="text-xs">
+        <summary className="text-stone-500 cursor-pointer select-none hover:text-stone-800">
+          Model: {provider.name}{provider.remote && <span className="text-stone-400"> · {settings.model || provider.defaultModel}</span>}
+        </summary>
+        <div className="mt-2 space-y-2">
+          <select
+            value={settings.provider}
+            onChange={(e) => handleProviderChange(e.target.value as ImageProviderId)}
+            className={inputClass}
+          >
+            {IMAGE_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          {provider.remote ? (
+            <>
+              <input
+                value={settings.model}
+                onChange={(e) => onSettingsChange({ ...settings, model: e.target.value })}
+                placeholder={provider.defaultModel}
+                className={`font-mono ${inputClass}`}
+                title="Model that edits images"
+              />
+              <input
+                value={settings.visionModel}
+                onChange={(e) => onSettingsChange({ ...settings, visionModel: e.target.value })}
+                placeholder={provider.defaultVisionModel}
+                className={`font-mono ${inputClass}`}
+                title="Model that identifies glyphs"
+              />
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => onSettingsChange({ ...settings, apiKey: e.target.value })}
+                placeholder="API key (blank uses the built-in key)"
+                className={`font-mono ${inputClass}`}
+                autoComplete="off"
+              />
+              <p className="text-[11px] text-stone-400">Kept in this browser only, never in project files.</p>
+            </>
+          ) : (
+            <p className="text-[11px] text-stone-400">
+              Runs the cleanup operations named in the prompt (background, noise, contrast, thicken, thin) without a network connection,
+              and identifies glyphs by likeness to those that already have a character.
+            </p>
+          )}
+        </div>
+      </details>
+
       <form onSubmit={handleSubmit} className="relative">
         <input
           type="text"
@@ -51,17 +135,40 @@ export const GeminiEditor: React.FC<GeminiEditorProps> = ({ status, onEdit, onUn
           onChange={(e) => setPrompt(e.target.value)}
           placeholder="E.g., 'Remove paper texture...'"
           className="w-full pl-4 pr-12 py-3 rounded-lg bg-stone-50 border border-stone-200 focus:border-stone-500 focus:ring-2 focus:ring-stone-200 outline-none transition-all text-sm"
-          disabled={status === ProcessingStatus.GENERATING}
+          disabled={busy}
         />
         <button
           type="submit"
-          disabled={status === ProcessingStatus.GENERATING || !prompt.trim()}
+          disabled={busy || !prompt.trim()}
           className="absolute right-2 top-1/2 -translate-y-1/2 p-1.5 bg-stone-800 text-white rounded-md hover:bg-stone-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
         >
           <MagicIcon />
         </button>
       </form>
 
+      {selection && (
+        <div className="flex items-center gap-3 text-xs text-stone-500">
+          <label className="flex items-center gap-1 cursor-pointer" title="Send only the selected part of the page and blend the result back in">
+            <input type="checkbox" checked={selectionOnly} onChange={(e) => setSelectionOnly(e.target.checked)} />
+            Selection only ({Math.round(selection.width)} × {Math.round(selection.height)} px)
+          </label>
+          {selectionOnly && (
+            <label className="flex items-center gap-1 ml-auto" title="Margin around the selection over which the result fades into the page">
+              Feather
+              <input
+                type="number"
+                min={0}
+                max={200}
+                value={feather}
+                onChange={(e) => setFeather(Math.max(0, Number(e.target.value) || 0))}
+                className="w-14 px-1.5 py-0.5 rounded bg-white border border-stone-200 focus:border-stone-500 outline-none"
+              />
+              px
+            </label>
+          )}
+        </div>
+      )}
+
       <div className="space-y-2">
         <p className="text-xs font-medium text-stone-400 uppercase tracking-wider">Suggestions</p>
         <div className="flex flex-wrap gap-2">
@@ -78,9 +185,21 @@ export const GeminiEditor: React.FC<GeminiEditorProps> = ({ status, onEdit, onUn
       </div>
       
       {status === ProcessingStatus.GENERATING && (
-        <div className="flex items-center gap-2 text-xs text-amber-600 animate-pulse">
-          <div className="w-2 h-2 bg-amber-600 rounded-full"></div>
-          Gemini is processing your image...
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-xs text-amber-600">
+            <div className="w-2 h-2 bg-amber-600 rounded-full animate-pulse"></div>
+            <span className="animate-pulse">{provider.name} is processing your image...</span>
+            <button onClick={onCancel} className="ml-auto text-stone-500 hover:text-stone-900 underline">
+              Cancel
+            </button>
+          </div>
+          {retryStatus && <p className="text-[11px] text-stone-500">{retryStatus}</p>}
+        </div>
+      )}
+
+      {error && status !== ProcessingStatus.GENERATING && (
+        <div className="p-2 bg-red-50 text-red-600 text-xs rounded border border-red-100" title={error.message}>
+          {IMAGE_EDIT_ERROR_MESSAGES[error.kind]}
         </div>
       )}
     </div>
@@ -1,87 +1,80 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { VectorGlyph } from '../types';
+import { FontMetrics, GlyphSubstitution, VectorGlyph } from '../types';
 import { CheckIcon, CloseIcon, SmoothIcon, NodeMinusIcon, UndoIcon, ZoomInIcon, ZoomOutIcon, MaximizeIcon } from './Icons';
+import { CodepointInput } from './CodepointInput';
+import { SubstitutionFields } from './SubstitutionFields';
+import {
+  DragTarget,
+  EditablePoint,
+  editablePathToSvg,
+  moveAnchor,
+  moveHandle,
+  parseEditablePath,
+  pointHandles,
+  removePoint,
+  smoothAllPoints,
+  splitSubpaths,
+  togglePointType,
+  translatePoints
+} from '../services/editablePath';
+import { METRIC_LINES, metricValue } from '../services/metrics';
+import { SpacingSettings, SpacingSide, outlineExtent } from '../services/spacing';
+import { contoursBounds, parseSvgPath } from '../services/svgPath';
 
 interface GlyphEditorProps {
   glyph: VectorGlyph;
+  metrics: FontMetrics;
+  spacing: SpacingSettings;
+  // Spacing groups already in use, offered as suggestions
+  groupNames: { left: string[]; right: string[] };
+  // Codepoints carried by the project's glyphs, to check substitution rules against
+  availableCodepoints: Set<number>;
   onSave: (glyph: VectorGlyph) => void;
   onClose: () => void;
+  // Receives the glyph as edited so far, before it is saved
+  onDraftChange?: (glyph: VectorGlyph) => void;
 }
 
-interface Point {
-  x: number;
-  y: number;
-  type: 'corner' | 'smooth';
-  cx1?: number;
-  cy1?: number;
-  cx2?: number;
-  cy2?: number;
-}
-
-const parsePath = (d: string): Point[] => {
-  const points: Point[] = [];
-  const commands = d.match(/[a-zA-Z][^a-zA-Z]*/g);
-  
-  if (!commands) return [];
-
-  for (const cmd of commands) {
-    const type = cmd[0];
-    const coords = cmd.slice(1).trim().split(/[\s,]+/).map(Number);
-    
-    if (type === 'M' || type === 'L') {
-      points.push({ x: coords[0], y: coords[1], type: 'corner' });
-    }
+// Area worth showing: the advance width across the full metric height, grown to include any overhanging outline
+const viewBounds = (glyph: VectorGlyph, metrics: FontMetrics) => {
+  let b: ReturnType<typeof contoursBounds> = null;
+  try {
+    b = contoursBounds(parseSvgPath(glyph.svgPath));
+  } catch {
+    // An unreadable outline is not drawn, so only the metrics need to show
   }
-  return points;
-};
-
-const pointsToPath = (points: Point[]): string => {
-  if (points.length === 0) return '';
-  
-  let d = `M${points[0].x} ${points[0].y}`;
-  
-  for (let i = 0; i < points.length; i++) {
-    const curr = points[i];
-    const next = points[(i + 1) % points.length];
-
-    if (curr.type === 'smooth' || next.type === 'smooth') {
-       d += ` L${next.x} ${next.y}`;
-    } else {
-       d += ` L${next.x} ${next.y}`;
-    }
-  }
-  
-  d += 'Z';
-  return d;
+  return {
+    xMin: Math.min(0, b?.xMin ?? 0),
+    xMax: Math.max(glyph.advanceWidth, b?.xMax ?? 0),
+    yMin: Math.min(metrics.descender, b?.yMin ?? 0),
+    yMax: Math.max(metrics.ascender, b?.yMax ?? 0)
+  };
 };
 
-const smoothPoints = (points: Point[]): Point[] => {
-  const newPoints: Point[] = [];
-  if (points.length < 3) return points;
-
-  for (let i = 0; i < points.length; i++) {
-    const curr = points[i];
-    const next = points[(i + 1) % points.length];
-
-    const qx = 0.75 * curr.x + 0.25 * next.x;
-    const qy = 0.75 * curr.y + 0.25 * next.y;
-    
-    const rx = 0.25 * curr.x + 0.75 * next.x;
-    const ry = 0.25 * curr.y + 0.75 * next.y;
-
-    newPoints.push({ x: qx, y: qy, type: 'corner' });
-    newPoints.push({ x: rx, y: ry, type: 'corner' });
-  }
-  return newPoints;
-};
+interface EditorSnapshot {
+  points: EditablePoint[];
+  advanceWidth: number;
+}
 
-export const GlyphEditor: React.FC<GlyphEditorProps> = ({ glyph, onSave, onClose }) => {
-  const [points, setPoints] = useState<Point[]>([]);
-  const [history, setHistory] = useState<Point[][]>([]);
+const spacingInputClass =
+  "w-16 px-1.5 py-0.5 text-xs rounded bg-white border border-stone-200 focus:border-stone-500 outline-none tabular-nums";
+
+export const GlyphEditor: React.FC<GlyphEditorProps> = ({ glyph, metrics, spacing, groupNames, availableCodepoints, onSave, onClose, onDraftChange }) => {
+  const [points, setPoints] = useState<EditablePoint[]>([]);
+  // Why the glyph's outline could not be read into nodes; it is then saved back unchanged
+  const [pathError, setPathError] = useState<string | null>(null);
+  const [advanceWidth, setAdvanceWidth] = useState(glyph.advanceWidth);
+  const [history, setHistory] = useState<EditorSnapshot[]>([]);
+  const [codepoints, setCodepoints] = useState<number[]>(glyph.codepoints);
+  const [leftGroup, setLeftGroup] = useState(glyph.leftGroup ?? '');
+  const [rightGroup, setRightGroup] = useState(glyph.rightGroup ?? '');
+  const [substitution, setSubstitution] = useState<GlyphSubstitution | undefined>(glyph.substitution);
   
   // Canvas State
   const [transform, setTransform] = useState({ x: 0, y: 0, k: 1 });
-  const [dragIdx, setDragIdx] = useState<number | null>(null);
+  const [dragTarget, setDragTarget] = useState<DragTarget | null>(null);
+  const [draggingSide, setDraggingSide] = useState<SpacingSide | null>(null);
+  const [selectedIdx, setSelectedIdx] = useState<number | null>(null);
   const [isPanning, setIsPanning] = useState(false);
   const [lastMousePos, setLastMousePos] = useState({ x: 0, y: 0 });
 
@@ -90,50 +83,56 @@ export const GlyphEditor: React.FC<GlyphEditorProps> = ({ glyph, onSave, onClose
 
   // Initialize: Center glyph on load
   useEffect(() => {
-    const pts = parsePath(glyph.svgPath);
-    setPoints(pts);
-
-    // Center the view roughly
-    if (svgRef.current) {
-      const containerW = svgRef.current.clientWidth;
-      const containerH = svgRef.current.clientHeight;
-      const scale = Math.min(containerW / (glyph.width + 40), containerH / (glyph.height + 40), 2); 
-      setTransform({
-        x: (containerW - glyph.width * scale) / 2,
-        y: (containerH - glyph.height * scale) / 2,
-        k: scale
-      });
+    try {
+      setPoints(parseEditablePath(glyph.svgPath));
+      setPathError(null);
+    } catch (err) {
+      setPoints([]);
+      setPathError(err instanceof Error ? err.message : String(err));
     }
+    setSelectedIdx(null);
+    setAdvanceWidth(glyph.advanceWidth);
+    setCodepoints(glyph.codepoints);
+    setLeftGroup(glyph.leftGroup ?? '');
+    setRightGroup(glyph.rightGroup ?? '');
+    setSubstitution(glyph.substitution);
+
+    fitToScreen();
   }, [glyph]);
 
   const saveHistory = () => {
-    setHistory(prev => [...prev.slice(-10), JSON.parse(JSON.stringify(points))]);
+    setHistory(prev => [...prev.slice(-10), { points: JSON.parse(JSON.stringify(points)), advanceWidth }]);
   };
 
   const handleUndo = () => {
     if (history.length === 0) return;
     const prev = history[history.length - 1];
-    setPoints(prev);
+    setPoints(prev.points);
+    setAdvanceWidth(prev.advanceWidth);
     setHistory(h => h.slice(0, -1));
+    setSelectedIdx(null);
   };
 
   // --- Zoom & Pan Controls ---
 
   const handleZoom = (factor: number) => {
-    setTransform(t => ({ ...t, k: Math.max(0.1, Math.min(10, t.k * factor)) }));
+    setTransform(t => ({ ...t, k: Math.max(0.01, Math.min(20, t.k * factor)) }));
   };
 
-  const handleFitScreen = () => {
-    if (svgRef.current) {
-      const containerW = svgRef.current.clientWidth;
-      const containerH = svgRef.current.clientHeight;
-      const scale = Math.min(containerW / (glyph.width + 40), containerH / (glyph.height + 40), 2); 
-      setTransform({
-        x: (containerW - glyph.width * scale) / 2,
-        y: (containerH - glyph.height * scale) / 2,
-        k: scale
-      });
-    }
+  // Font units are y-up, so the content is flipped: screen y = transform.y - k * y
+  const fitToScreen = () => {
+    if (!svgRef.current) return;
+    const containerW = svgRef.current.clientWidth;
+    const containerH = svgRef.current.clientHeight;
+    const b = viewBounds(glyph, metrics);
+    const w = Math.max(1, b.xMax - b.xMin);
+    const h = Math.max(1, b.yMax - b.yMin);
+    const scale = Math.min(containerW / (w * 1.2), containerH / (h * 1.2));
+    setTransform({
+      x: (containerW - w * scale) / 2 - b.xMin * scale,
+      y: (containerH - h * scale) / 2 + b.yMax * scale,
+      k: scale
+    });
   };
 
   const handleWheel = (e: React.WheelEvent) => {
@@ -148,7 +147,7 @@ export const GlyphEditor: React.FC<GlyphEditorProps> = ({ glyph, onSave, onClose
       const mouseX = e.clientX - rect.left;
       const mouseY = e.clientY - rect.top;
       
-      const newK = Math.max(0.1, Math.min(10, prev.k * scaleFactor));
+      const newK = Math.max(0.01, Math.min(20, prev.k * scaleFactor));
       
       // Calculate new translation to keep mouse point stable
       const newX = mouseX - (mouseX - prev.x) * (newK / prev.k);
@@ -160,10 +159,17 @@ export const GlyphEditor: React.FC<GlyphEditorProps> = ({ glyph, onSave, onClose
 
   // --- Interaction Handlers ---
 
-  const handleNodeMouseDown = (idx: number, e: React.MouseEvent) => {
+  const handleNodeMouseDown = (target: DragTarget, e: React.MouseEvent) => {
+    e.stopPropagation();
+    saveHistory();
+    setDragTarget(target);
+    setSelectedIdx(target.index);
+  };
+
+  const handleSidebearingMouseDown = (side: SpacingSide, e: React.MouseEvent) => {
     e.stopPropagation();
     saveHistory();
-    setDragIdx(idx);
+    setDraggingSide(side);
   };
 
   const handleCanvasMouseDown = (e: React.MouseEvent) => {
@@ -181,52 +187,135 @@ export const GlyphEditor: React.FC<GlyphEditorProps> = ({ glyph, onSave, onClose
       return;
     }
 
-    // 2. Dragging Node
-    if (dragIdx !== null && contentRef.current) {
-      const pt = svgRef.current!.createSVGPoint();
-      pt.x = e.clientX;
-      pt.y = e.clientY;
-      
-      // Transform screen coordinates to SVG Local coordinates using the Content Group Matrix
-      // This accounts for Zoom and Pan
-      const loc = pt.matrixTransform(contentRef.current.getScreenCTM()?.inverse());
-
-      setPoints(pts => {
-        const newPts = [...pts];
-        newPts[dragIdx] = { ...newPts[dragIdx], x: loc.x, y: loc.y };
-        return newPts;
-      });
+    if ((dragTarget === null && draggingSide === null) || !contentRef.current) return;
+
+    const pt = svgRef.current!.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+
+    // Transform screen coordinates to SVG Local coordinates using the Content Group Matrix
+    // This accounts for Zoom and Pan
+    const loc = pt.matrixTransform(contentRef.current.getScreenCTM()?.inverse());
+
+    // 2. Dragging a sidebearing line
+    if (draggingSide === 'right') {
+      setAdvanceWidth(Math.max(0, Math.round(loc.x)));
+      return;
+    }
+    if (draggingSide === 'left') {
+      // The origin stays at x = 0, so the outline moves the other way and the view follows it
+      const dx = Math.round(loc.x);
+      if (dx === 0) return;
+      setPoints(pts => translatePoints(pts, -dx, 0));
+      setAdvanceWidth(a => Math.max(0, a - dx));
+      setTransform(t => ({ ...t, x: t.x + dx * t.k }));
+      return;
+    }
+
+    // 3. Dragging Node or Handle
+    if (dragTarget !== null) {
+      const to = { x: loc.x, y: loc.y };
+      setPoints(pts =>
+        dragTarget.kind === 'anchor'
+          ? moveAnchor(pts, dragTarget.index, to)
+          : moveHandle(pts, dragTarget.index, dragTarget.kind, to)
+      );
     }
   };
 
   const handleMouseUp = () => {
-    setDragIdx(null);
+    setDragTarget(null);
+    setDraggingSide(null);
     setIsPanning(false);
   };
 
+  const editedGlyph = (): VectorGlyph => ({
+    ...glyph,
+    svgPath: pathError ? glyph.svgPath : editablePathToSvg(points),
+    advanceWidth,
+    codepoints,
+    leftGroup: leftGroup.trim() || undefined,
+    rightGroup: rightGroup.trim() || undefined,
+    substitution
+  });
+
   const handleSave = () => {
-    const newPath = pointsToPath(points);
-    onSave({ ...glyph, svgPath: newPath });
+    onSave(editedGlyph());
+  };
+
+  useEffect(() => {
+    onDraftChange?.(editedGlyph());
+  }, [points, advanceWidth, codepoints, leftGroup, rightGroup, substitution]);
+
+  // Sidebearings are measured on the outline being edited
+  const extent = outlineExtent(editablePathToSvg(points));
+  const leftSidebearing = extent ? Math.round(extent.xMin) : null;
+  const rightSidebearing = extent ? Math.round(advanceWidth - extent.xMax) : null;
+
+  const handleLeftSidebearingChange = (value: number) => {
+    if (!extent || !Number.isFinite(value)) return;
+    const dx = Math.round(value - extent.xMin);
+    if (dx === 0) return;
+    saveHistory();
+    setPoints(pts => translatePoints(pts, dx, 0));
+    setAdvanceWidth(a => Math.max(0, a + dx));
+  };
+
+  const handleRightSidebearingChange = (value: number) => {
+    if (!extent || !Number.isFinite(value)) return;
+    saveHistory();
+    setAdvanceWidth(Math.max(0, Math.round(extent.xMax + value)));
+  };
+
+  const handleAdvanceChange = (value: number) => {
+    if (!Number.isFinite(value)) return;
+    saveHistory();
+    setAdvanceWidth(Math.max(0, Math.round(value)));
+  };
+
+  const handleAutoSpace = () => {
+    if (!extent) return;
+    const dx = Math.round(spacing.leftSidebearing - extent.xMin);
+    saveHistory();
+    setPoints(pts => translatePoints(pts, dx, 0));
+    setAdvanceWidth(Math.max(0, Math.round(extent.xMax + dx + spacing.rightSidebearing)));
   };
 
   const handleDoubleClickNode = (idx: number) => {
+    const next = removePoint(points, idx);
+    if (next === points) return;
     saveHistory();
-    if (points.length > 3) {
-      setPoints(pts => pts.filter((_, i) => i !== idx));
-    }
+    setPoints(next);
+    setSelectedIdx(null);
+  };
+
+  const handleToggleType = () => {
+    if (selectedIdx === null) return;
+    saveHistory();
+    setPoints(pts => togglePointType(pts, selectedIdx));
   };
 
   const handleSmooth = () => {
     saveHistory();
-    setPoints(pts => smoothPoints(pts));
+    setPoints(smoothAllPoints);
   };
 
   const handleSimplify = () => {
     saveHistory();
-    if (points.length > 6) {
-      setPoints(pts => pts.filter((_, i) => i % 2 === 0));
-    }
+    setPoints(pts => {
+      // Drop every other node of rings that can spare them, back to front so indices stay valid
+      let result = pts;
+      for (let i = pts.length - 1; i >= 0; i--) {
+        const ring = splitSubpaths(pts).find(sp => sp.includes(pts[i]))!;
+        if (ring.length > 6 && ring.indexOf(pts[i]) % 2 === 1) result = removePoint(result, i);
+      }
+      return result;
+    });
+    setSelectedIdx(null);
   };
+
+  const selectedPoint = selectedIdx !== null ? points[selectedIdx] : undefined;
+  const selectedHandles = selectedIdx !== null && selectedPoint ? pointHandles(points, selectedIdx) : {};
   
   return (
     <div className="flex flex-col h-full bg-stone-50 animate-fade-in">
@@ -251,6 +340,14 @@ export const GlyphEditor: React.FC<GlyphEditorProps> = ({ glyph, onSave, onClose
           >
             <NodeMinusIcon /> Simplify
           </button>
+          <button 
+            onClick={handleToggleType}
+            disabled={!selectedPoint}
+            className="flex items-center gap-1 text-xs font-medium bg-stone-100 px-3 py-1.5 rounded-md hover:bg-stone-200 text-stone-700 disabled:opacity-50"
+            title="Convert the selected node between corner and smooth"
+          >
+            {selectedPoint?.type === 'smooth' ? 'Make Corner' : 'Make Smooth'}
+          </button>
           <button 
             onClick={handleUndo}
             disabled={history.length === 0}
@@ -271,7 +368,7 @@ export const GlyphEditor: React.FC<GlyphEditorProps> = ({ glyph, onSave, onClose
                <ZoomOutIcon />
              </button>
              <button 
-               onClick={handleFitScreen}
+               onClick={fitToScreen}
                className="p-1 text-stone-600 hover:bg-white rounded shadow-sm hover:text-stone-900 mx-0.5"
                title="Fit to Screen"
              >
@@ -286,6 +383,13 @@ export const GlyphEditor: React.FC<GlyphEditorProps> = ({ glyph, onSave, onClose
              </button>
            </div>
 
+          <div className="h-6 w-px bg-stone-200 mx-2"></div>
+
+          <div className="flex items-center gap-2">
+            <label className="text-xs text-stone-500">Codepoints</label>
+            <CodepointInput codepoints={codepoints} onChange={setCodepoints} className="w-40" />
+          </div>
+
         </div>
 
         <button 
@@ -296,6 +400,94 @@ export const GlyphEditor: React.FC<GlyphEditorProps> = ({ glyph, onSave, onClose
         </button>
       </div>
 
+      {pathError && (
+        <div className="px-4 py-2 bg-red-50 text-red-600 text-xs border-b border-red-100 z-10 relative" title={pathError}>
+          The outline could not be read, so it cannot be edited here; saving keeps it as it is.
+        </div>
+      )}
+
+      {/* Spacing */}
+      <div className="flex items-center gap-4 px-4 py-2 bg-white border-b border-stone-200 z-10 relative">
+        <label className="flex items-center gap-2 text-xs text-stone-500">
+          Left
+          <input
+            type="number"
+            value={leftSidebearing ?? ''}
+            disabled={!extent}
+            onChange={(e) => handleLeftSidebearingChange(Number(e.target.value))}
+            className={spacingInputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-stone-500">
+          Advance
+          <input
+            type="number"
+            min={0}
+            value={advanceWidth}
+            onChange={(e) => handleAdvanceChange(Number(e.target.value))}
+            className={spacingInputClass}
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-stone-500">
+          Right
+          <input
+            type="number"
+            value={rightSidebearing ?? ''}
+            disabled={!extent}
+            onChange={(e) => handleRightSidebearingChange(Number(e.target.value))}
+            className={spacingInputClass}
+          />
+        </label>
+        <button
+          onClick={handleAutoSpace}
+          disabled={!extent}
+          className="text-xs font-medium bg-stone-100 px-3 py-1 rounded-md hover:bg-stone-200 text-stone-700 disabled:opacity-50"
+          title={`Set the sidebearings to ${spacing.leftSidebearing} / ${spacing.rightSidebearing}`}
+        >
+          Auto-space
+        </button>
+
+        <div className="h-5 w-px bg-stone-200"></div>
+
+        <label className="flex items-center gap-2 text-xs text-stone-500" title="Glyphs in the same left group share their left sidebearing">
+          Left group
+          <input
+            list="left-spacing-groups"
+            value={leftGroup}
+            onChange={(e) => setLeftGroup(e.target.value)}
+            placeholder="none"
+            className="w-20 px-1.5 py-0.5 text-xs rounded bg-white border border-stone-200 focus:border-stone-500 outline-none"
+          />
+        </label>
+        <label className="flex items-center gap-2 text-xs text-stone-500" title="Glyphs in the same right group share their right sidebearing">
+          Right group
+          <input
+            list="right-spacing-groups"
+            value={rightGroup}
+            onChange={(e) => setRightGroup(e.target.value)}
+            placeholder="none"
+            className="w-20 px-1.5 py-0.5 text-xs rounded bg-white border border-stone-200 focus:border-stone-500 outline-none"
+          />
+        </label>
+        <datalist id="left-spacing-groups">
+          {groupNames.left.map(name => <option key={name} value={name} />)}
+        </datalist>
+        <datalist id="right-spacing-groups">
+          {groupNames.right.map(name => <option key={name} value={name} />)}
+        </datalist>
+      </div>
+
+      {/* Substitution */}
+      <div className="flex items-center gap-3 px-4 py-2 bg-white border-b border-stone-200 z-10 relative">
+        <span className="text-xs text-stone-500">Substitutes</span>
+        <SubstitutionFields
+          glyph={glyph}
+          substitution={substitution}
+          availableCodepoints={availableCodepoints}
+          onChange={setSubstitution}
+        />
+      </div>
+
       {/* Canvas Area */}
       <div className="flex-1 relative overflow-hidden bg-stone-200 cursor-crosshair"
            onMouseDown={handleCanvasMouseDown}
@@ -317,7 +509,7 @@ export const GlyphEditor: React.FC<GlyphEditorProps> = ({ glyph, onSave, onClose
           {/* Content Group with Transform */}
           <g 
             ref={contentRef} 
-            transform={`translate(${transform.x}, ${transform.y}) scale(${transform.k})`}
+            transform={`translate(${transform.x}, ${transform.y}) scale(${transform.k}, ${-transform.k})`}
           >
             {/* Infinite Grid Simulation: Render a large rect around current view? 
                 Actually, patternUnits="userSpaceOnUse" stays fixed to 0,0. 
@@ -330,45 +522,124 @@ export const GlyphEditor: React.FC<GlyphEditorProps> = ({ glyph, onSave, onClose
               opacity={0.5}
             />
             
-            {/* Document Bounds/Paper */}
+            {/* Advance width across the metric height */}
             <rect 
-              x={0} y={0} width={glyph.width} height={glyph.height}
+              x={0} y={metrics.descender} width={advanceWidth} height={metrics.ascender - metrics.descender}
               fill="white"
               stroke="#e7e5e4"
               strokeWidth={2 / transform.k}
               className="shadow-sm"
             />
 
+            {/* Metric guides */}
+            {METRIC_LINES.map(line => {
+              const y = metricValue(metrics, line.id);
+              return (
+                <g key={line.id}>
+                  <line
+                    x1={-advanceWidth} x2={advanceWidth * 2} y1={y} y2={y}
+                    stroke={line.id === 'baseline' ? '#db2777' : '#f472b6'}
+                    strokeWidth={1 / transform.k}
+                    strokeDasharray={line.id === 'baseline' ? undefined : `${6 / transform.k} ${4 / transform.k}`}
+                  />
+                  {/* Text is flipped back so it reads upright */}
+                  <text
+                    transform={`translate(${-8 / transform.k}, ${y}) scale(1, -1)`}
+                    dy={-3 / transform.k}
+                    fontSize={11 / transform.k}
+                    textAnchor="end"
+                    fill="#db2777"
+                  >
+                    {line.label} {y}
+                  </text>
+                </g>
+              );
+            })}
+
+            {/* Sidebearing lines: the origin and the advance, dragged through a wide invisible hit area */}
+            {([['left', 0, leftSidebearing], ['right', advanceWidth, rightSidebearing]] as const).map(([side, x, value]) => (
+              <g key={side} className="cursor-ew-resize" onMouseDown={(e) => handleSidebearingMouseDown(side, e)}>
+                <line
+                  x1={x} x2={x} y1={metrics.descender} y2={metrics.ascender}
+                  stroke="transparent"
+                  strokeWidth={10 / transform.k}
+                />
+                <line
+                  x1={x} x2={x} y1={metrics.descender} y2={metrics.ascender}
+                  stroke={draggingSide === side ? '#0d9488' : '#14b8a6'}
+                  strokeWidth={(draggingSide === side ? 2 : 1.5) / transform.k}
+                />
+                {value !== null && (
+                  <text
+                    transform={`translate(${x}, ${metrics.descender}) scale(1, -1)`}
+                    dy={14 / transform.k}
+                    fontSize={11 / transform.k}
+                    textAnchor="middle"
+                    fill="#0d9488"
+                  >
+                    {side === 'left' ? 'LSB' : 'RSB'} {value}
+                  </text>
+                )}
+              </g>
+            ))}
+
             {/* The Path */}
             <path 
-              d={pointsToPath(points)} 
+              d={editablePathToSvg(points)} 
               fill="rgba(59, 130, 246, 0.1)" 
+              fillRule="evenodd"
               stroke="#3b82f6" 
               strokeWidth={2 / transform.k}
             />
 
-            {/* Nodes */}
-            {points.map((p, i) => (
-              <circle
-                key={i}
-                cx={p.x}
-                cy={p.y}
-                r={(dragIdx === i ? 6 : 3.5) / transform.k} // Scale node size inversely to zoom so they stay readable
-                fill={dragIdx === i ? "#2563eb" : "#fff"}
-                stroke="#2563eb"
-                strokeWidth={1.5 / transform.k}
-                className="cursor-pointer hover:fill-blue-100"
-                onMouseDown={(e) => handleNodeMouseDown(i, e)}
-                onDoubleClick={() => handleDoubleClickNode(i)}
-              />
-            ))}
+            {/* Handles of the selected node */}
+            {selectedPoint && (['in', 'out'] as const).map(side => {
+              const h = selectedHandles[side];
+              if (!h) return null;
+              return (
+                <g key={side}>
+                  <line
+                    x1={selectedPoint.x} y1={selectedPoint.y} x2={h.x} y2={h.y}
+                    stroke="#a8a29e"
+                    strokeWidth={1 / transform.k}
+                  />
+                  <circle
+                    cx={h.x}
+                    cy={h.y}
+                    r={3 / transform.k}
+                    fill="#f59e0b"
+                    stroke="#fff"
+                    strokeWidth={1 / transform.k}
+                    className="cursor-pointer"
+                    onMouseDown={(e) => handleNodeMouseDown({ kind: side, index: selectedIdx! }, e)}
+                  />
+                </g>
+              );
+            })}
+
+            {/* Nodes: circles are smooth, squares are corners */}
+            {points.map((p, i) => {
+              const active = selectedIdx === i;
+              const r = (active ? 5 : 3.5) / transform.k; // Scale node size inversely to zoom so they stay readable
+              const common = {
+                fill: active ? "#2563eb" : "#fff",
+                stroke: "#2563eb",
+                strokeWidth: 1.5 / transform.k,
+                className: "cursor-pointer hover:fill-blue-100",
+                onMouseDown: (e: React.MouseEvent) => handleNodeMouseDown({ kind: 'anchor', index: i }, e),
+                onDoubleClick: () => handleDoubleClickNode(i)
+              };
+              return p.type === 'smooth'
+                ? <circle key={i} cx={p.x} cy={p.y} r={r} {...common} />
+                : <rect key={i} x={p.x - r} y={p.y - r} width={2 * r} height={2 * r} {...common} />;
+            })}
           </g>
         </svg>
         
         <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur px-3 py-2 rounded-lg shadow text-xs text-stone-600 pointer-events-none border border-stone-200 flex flex-col gap-1">
-           <span>{points.length} nodes</span>
+           <span>{points.length} nodes · advance {advanceWidth} of {metrics.unitsPerEm} units/em</span>
            <span>Zoom: {Math.round(transform.k * 100)}%</span>
-           <span className="text-stone-400 italic">Scroll to zoom • Drag to pan</span>
+           <span className="text-stone-400 italic">Scroll to zoom • Drag to pan • Double-click a node to delete it • Drag the teal lines to space</span>
         </div>
       </div>
     </div>
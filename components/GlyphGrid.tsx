@@ -1,14 +1,49 @@
-import React from 'react';
-import { VectorGlyph } from '../types';
-import { EditIcon } from './Icons';
+import React, { useState } from 'react';
+import { FontMetrics, VectorGlyph } from '../types';
+import { EditIcon, KerningIcon, MagicIcon } from './Icons';
+import { CodepointInput } from './CodepointInput';
+import { codepointPreview, formatCodepoint } from '../services/unicode';
+import { describeSubstitution } from '../services/substitutions';
+import { isUnlabeled } from '../services/characterId';
+import { CharacterGuess } from '../services/imageProvider';
 
 interface GlyphGridProps {
   glyphs: VectorGlyph[];
+  metrics: FontMetrics;
+  conflictingIds: Set<string>;
   onDelete: (id: string) => void;
   onEdit: (glyph: VectorGlyph) => void;
+  onUpdate: (glyph: VectorGlyph) => void;
+  // Glyphs picked as the left and right side of the kerning pair
+  kerningPick: { left: string | null; right: string | null };
+  onKern: (glyph: VectorGlyph) => void;
+  // Candidate characters from the image model, by glyph id
+  guesses: Map<string, CharacterGuess[]>;
+  identifyingIds: Set<string>;
+  onIdentify: (glyph: VectorGlyph) => void;
+  onAcceptGuess: (glyph: VectorGlyph, guess: CharacterGuess) => void;
+  onDismissGuesses: (glyphId: string) => void;
 }
 
-export const GlyphGrid: React.FC<GlyphGridProps> = ({ glyphs, onDelete, onEdit }) => {
+const MAX_SHOWN_GUESSES = 3;
+
+export const GlyphGrid: React.FC<GlyphGridProps> = ({
+  glyphs,
+  metrics,
+  conflictingIds,
+  onDelete,
+  onEdit,
+  onUpdate,
+  kerningPick,
+  onKern,
+  guesses,
+  identifyingIds,
+  onIdentify,
+  onAcceptGuess,
+  onDismissGuesses
+}) => {
+  const [editingCodepointsId, setEditingCodepointsId] = useState<string | null>(null);
+
   if (glyphs.length === 0) {
     return (
       <div className="text-center py-8 border-2 border-dashed border-stone-200 rounded-xl">
@@ -19,36 +54,131 @@ export const GlyphGrid: React.FC<GlyphGridProps> = ({ glyphs, onDelete, onEdit }
 
   return (
     <div className="grid grid-cols-3 gap-4">
-      {glyphs.map((glyph) => (
-        <div key={glyph.id} className="relative group bg-white border border-stone-200 rounded-lg p-2 shadow-sm hover:shadow-md transition-all aspect-square flex items-center justify-center">
-          <svg 
-            viewBox={`0 0 ${glyph.width} ${glyph.height}`} 
-            className="w-full h-full max-w-[80px] max-h-[80px]"
+      {glyphs.map((glyph) => {
+        const kernSide = kerningPick.left === glyph.id ? 'L' : kerningPick.right === glyph.id ? 'R' : null;
+        const glyphGuesses = isUnlabeled(glyph) ? guesses.get(glyph.id) : undefined;
+        return (
+          <div
+            key={glyph.id}
+            className={`relative group bg-white border rounded-lg p-2 shadow-sm hover:shadow-md transition-all flex flex-col items-center gap-1 ${conflictingIds.has(glyph.id) ? 'border-red-300' : 'border-stone-200'} ${kernSide ? 'ring-2 ring-blue-400' : ''}`}
           >
-            <path d={glyph.svgPath} fill="currentColor" className="text-stone-900" />
-          </svg>
-          
-          {/* Actions Overlay */}
-          <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-            <button 
-              onClick={() => onEdit(glyph)}
-              className="bg-blue-50 text-blue-600 p-1.5 rounded-full hover:bg-blue-100 transition-colors"
-              title="Edit Path"
-            >
-              <EditIcon />
-            </button>
-            <button 
-              onClick={() => onDelete(glyph.id)}
-              className="bg-red-50 text-red-600 p-1.5 rounded-full hover:bg-red-100 transition-colors"
-              title="Delete Glyph"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
-                <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+            <div className="w-full aspect-square flex items-center justify-center">
+              <svg 
+                viewBox={`0 ${-metrics.ascender} ${Math.max(1, glyph.advanceWidth)} ${metrics.ascender - metrics.descender}`} 
+                className="w-full h-full max-w-[80px] max-h-[80px] overflow-visible"
+              >
+                {/* Outlines are in font units, y up */}
+                <line x1={0} x2={glyph.advanceWidth} y1={0} y2={0} stroke="#f9a8d4" strokeWidth={metrics.unitsPerEm / 200} />
+                <path d={glyph.svgPath} transform="scale(1, -1)" fill="currentColor" fillRule="evenodd" className={glyph.sampleOf ? 'text-stone-300' : 'text-stone-900'} />
               </svg>
-            </button>
+            </div>
+
+            {glyph.sourcePage !== undefined && (
+              <span className="absolute top-1 left-1 text-[9px] text-stone-400 tabular-nums" title="Source page">
+                p.{glyph.sourcePage}
+              </span>
+            )}
+
+            {glyph.sampleOf && (
+              <span className="absolute top-4 left-1 text-[9px] text-stone-400" title="A sample of another glyph, left out of the font">
+                sample
+              </span>
+            )}
+
+            {glyph.substitution && (
+              <span className="absolute bottom-7 left-1 text-[9px] text-violet-600 truncate max-w-[70%]" title="Substitution rule">
+                {describeSubstitution(glyph.substitution)}
+              </span>
+            )}
+
+            {kernSide && (
+              <span className="absolute bottom-7 right-1 text-[9px] font-bold text-blue-600" title="Side of the kerning pair">
+                {kernSide}
+              </span>
+            )}
+
+            {/* Codepoint label / inline editor */}
+            {editingCodepointsId === glyph.id ? (
+              <CodepointInput
+                codepoints={glyph.codepoints}
+                onChange={(codepoints) => onUpdate({ ...glyph, codepoints })}
+                onDone={() => setEditingCodepointsId(null)}
+                className="w-full"
+                autoFocus
+              />
+            ) : (
+              <button
+                onClick={() => setEditingCodepointsId(glyph.id)}
+                className={`w-full text-[10px] font-mono truncate rounded px-1 py-0.5 hover:bg-stone-100 ${glyph.codepoints.length ? (conflictingIds.has(glyph.id) ? 'text-red-600' : 'text-stone-600') : 'text-stone-400 italic'}`}
+                title={conflictingIds.has(glyph.id) ? 'Another glyph uses the same codepoint' : 'Assign codepoints'}
+              >
+                {glyph.codepoints.length
+                  ? `${formatCodepoint(glyph.codepoints[0])} ${codepointPreview(glyph.codepoints[0])}${glyph.codepoints.length > 1 ? ` +${glyph.codepoints.length - 1}` : ''}`
+                  : 'Unassigned'}
+              </button>
+            )}
+          
+            {/* Candidate characters, accepted with a click */}
+            {identifyingIds.has(glyph.id) ? (
+              <span className="text-[10px] text-amber-600 animate-pulse">Identifying…</span>
+            ) : glyphGuesses && (
+              <div className="w-full flex items-center gap-0.5">
+                {glyphGuesses.length === 0 && <span className="flex-1 text-[10px] text-stone-400 italic">No guess</span>}
+                {glyphGuesses.slice(0, MAX_SHOWN_GUESSES).map(guess => (
+                  <button
+                    key={guess.codepoint}
+                    onClick={() => onAcceptGuess(glyph, guess)}
+                    className="flex-1 min-w-0 text-[10px] rounded px-0.5 bg-violet-50 text-violet-700 hover:bg-violet-100 truncate"
+                    title={`${formatCodepoint(guess.codepoint)} ${guess.name} · ${Math.round(guess.confidence * 100)}% · click to assign`}
+                  >
+                    {codepointPreview(guess.codepoint) || formatCodepoint(guess.codepoint)} <span className="text-violet-400">{Math.round(guess.confidence * 100)}</span>
+                  </button>
+                ))}
+                <button onClick={() => onDismissGuesses(glyph.id)} className="text-[10px] text-stone-400 hover:text-stone-700 px-0.5" title="Dismiss">
+                  ×
+                </button>
+              </div>
+            )}
+
+            {/* Actions Overlay */}
+            <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              {isUnlabeled(glyph) && (
+                <button
+                  onClick={() => onIdentify(glyph)}
+                  disabled={identifyingIds.size > 0}
+                  className="bg-violet-50 text-violet-600 p-1.5 rounded-full hover:bg-violet-100 transition-colors disabled:opacity-50"
+                  title="Identify the character"
+                >
+                  <MagicIcon />
+                </button>
+              )}
+              <button 
+                onClick={() => onKern(glyph)}
+                className="bg-stone-50 text-stone-600 p-1.5 rounded-full hover:bg-stone-100 transition-colors"
+                title="Kern with another glyph"
+              >
+                <KerningIcon />
+              </button>
+              <button 
+                onClick={() => onEdit(glyph)}
+                className="bg-blue-50 text-blue-600 p-1.5 rounded-full hover:bg-blue-100 transition-colors"
+                title="Edit Path"
+              >
+                <EditIcon />
+              </button>
+              <button 
+                onClick={() => onDelete(glyph.id)}
+                className="bg-red-50 text-red-600 p-1.5 rounded-full hover:bg-red-100 transition-colors"
+                title="Delete Glyph"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3">
+                  <path d="M6.28 5.22a.75.75 0 00-1.06 1.06L8.94 10l-3.72 3.72a.75.75 0 101.06 1.06L10 11.06l3.72 3.72a.75.75 0 101.06-1.06L11.06 10l3.72-3.72a.75.75 0 00-1.06-1.06L10 8.94 6.28 5.22z" />
+                </svg>
+              </button>
+            </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { AdjustmentsIcon, UndoIcon } from './Icons';
+import { ProcessingStatus } from '../types';
+import {
+  ImageOperation,
+  autoLevels,
+  close,
+  cropToContent,
+  despeckle,
+  dilate,
+  erode,
+  estimateSkew,
+  flattenBackground,
+  levels,
+  medianFilter,
+  open,
+  rotate
+} from '../services/imageOps';
+
+interface ImageCleanupPanelProps {
+  status: ProcessingStatus;
+  // The name and parameters are recorded in the edit history
+  onApply: (operation: ImageOperation, name: string, params: Record<string, number>) => void;
+  onUndo: () => void;
+  canUndo: boolean;
+}
+
+const buttonClass =
+  "text-xs font-medium bg-stone-100 px-2.5 py-1.5 rounded-md hover:bg-stone-200 text-stone-700 disabled:opacity-50 disabled:cursor-not-allowed";
+const numberClass =
+  "w-14 text-xs bg-stone-50 border border-stone-200 rounded px-1.5 py-1 text-stone-700 tabular-nums";
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex items-center gap-2">
+    <span className="text-xs text-stone-500 w-20 shrink-0">{label}</span>
+    <div className="flex flex-wrap items-center gap-1.5">{children}</div>
+  </div>
+);
+
+export const ImageCleanupPanel: React.FC<ImageCleanupPanelProps> = ({ status, onApply, onUndo, canUndo }) => {
+  const [angle, setAngle] = useState(1);
+  const [margin, setMargin] = useState(20);
+  const [medianRadius, setMedianRadius] = useState(1);
+  const [speckArea, setSpeckArea] = useState(6);
+  const [morphRadius, setMorphRadius] = useState(1);
+  const [black, setBlack] = useState(30);
+  const [white, setWhite] = useState(220);
+  const [gamma, setGamma] = useState(1);
+  const [flattenRadius, setFlattenRadius] = useState(20);
+  const [lastSkew, setLastSkew] = useState<number | null>(null);
+
+  const busy = status === ProcessingStatus.GENERATING || status === ProcessingStatus.PROCESSING;
+
+  const handleDeskew = () =>
+    onApply(image => {
+      const skew = estimateSkew(image);
+      setLastSkew(skew);
+      return skew === 0 ? image : rotate(image, -skew);
+    }, 'Deskew', {});
+
+  const numberInput = (value: number, onChange: (v: number) => void, min: number, max: number, step = 1) => (
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(Math.min(max, Math.max(min, Number(e.target.value))))}
+      className={numberClass}
+    />
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-stone-200 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-stone-800 flex items-center gap-2">
+          <AdjustmentsIcon />
+          Local Cleanup
+        </h3>
+        {canUndo && (
+          <button
+            onClick={onUndo}
+            disabled={busy}
+            className="text-xs text-stone-500 hover:text-stone-800 flex items-center gap-1 px-2 py-1 rounded hover:bg-stone-100"
+          >
+            <UndoIcon /> Undo
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-stone-400">Runs offline. The same steps always give the same result.</p>
+
+      <fieldset disabled={busy} className="space-y-2">
+        <Row label="Geometry">
+          <button onClick={handleDeskew} className={buttonClass} title="Straighten tilted text lines">Deskew</button>
+          <button onClick={() => onApply(image => rotate(image, -90), 'Rotate', { degrees: -90 })} className={buttonClass} title="Rotate 90° left">⟲ 90°</button>
+          <button onClick={() => onApply(image => rotate(image, 90), 'Rotate', { degrees: 90 })} className={buttonClass} title="Rotate 90° right">⟳ 90°</button>
+        </Row>
+        {lastSkew !== null && (
+          <p className="text-xs text-stone-400 pl-[5.5rem]">
+            {lastSkew === 0 ? 'No skew found' : `Corrected ${lastSkew.toFixed(2)}°`}
+          </p>
+        )}
+        <Row label="Rotate">
+          {numberInput(angle, setAngle, -180, 180, 0.1)}
+          <span className="text-xs text-stone-400">°</span>
+          <button onClick={() => onApply(image => rotate(image, angle), 'Rotate', { degrees: angle })} className={buttonClass}>Apply</button>
+        </Row>
+        <Row label="Crop to ink">
+          {numberInput(margin, setMargin, 0, 500)}
+          <span className="text-xs text-stone-400">px</span>
+          <button onClick={() => onApply(image => cropToContent(image, margin), 'Crop to ink', { margin })} className={buttonClass}>Crop</button>
+        </Row>
+
+        <Row label="Median">
+          {numberInput(medianRadius, setMedianRadius, 1, 10)}
+          <span className="text-xs text-stone-400">px</span>
+          <button onClick={() => onApply(image => medianFilter(image, medianRadius), 'Median', { radius: medianRadius })} className={buttonClass}>Apply</button>
+        </Row>
+        <Row label="Despeckle">
+          {numberInput(speckArea, setSpeckArea, 1, 500)}
+          <span className="text-xs text-stone-400">px²</span>
+          <button onClick={() => onApply(image => despeckle(image, speckArea), 'Despeckle', { area: speckArea })} className={buttonClass} title="Remove ink blobs up to this size">Apply</button>
+        </Row>
+        <Row label="Morphology">
+          {numberInput(morphRadius, setMorphRadius, 1, 10)}
+          <button onClick={() => onApply(image => dilate(image, morphRadius), 'Dilate', { radius: morphRadius })} className={buttonClass} title="Thicken strokes">Dilate</button>
+          <button onClick={() => onApply(image => erode(image, morphRadius), 'Erode', { radius: morphRadius })} className={buttonClass} title="Thin strokes">Erode</button>
+          <button onClick={() => onApply(image => open(image, morphRadius), 'Open', { radius: morphRadius })} className={buttonClass} title="Remove hairlines and specks thinner than the radius">Open</button>
+          <button onClick={() => onApply(image => close(image, morphRadius), 'Close', { radius: morphRadius })} className={buttonClass} title="Fill gaps and pinholes in strokes">Close</button>
+        </Row>
+
+        <Row label="Levels">
+          {numberInput(black, setBlack, 0, 254)}
+          {numberInput(white, setWhite, 1, 255)}
+          {numberInput(gamma, setGamma, 0.1, 5, 0.1)}
+          <button onClick={() => onApply(image => levels(image, black, white, gamma), 'Levels', { black, white, gamma })} className={buttonClass} title="Black point, white point and gamma">Apply</button>
+          <button onClick={() => onApply(image => autoLevels(image), 'Auto levels', {})} className={buttonClass}>Auto</button>
+        </Row>
+        <Row label="Flatten">
+          {numberInput(flattenRadius, setFlattenRadius, 2, 100)}
+          <span className="text-xs text-stone-400">px</span>
+          <button onClick={() => onApply(image => flattenBackground(image, flattenRadius), 'Flatten', { radius: flattenRadius })} className={buttonClass} title="Even out lighting and stains; use a radius wider than the strokes">Apply</button>
+        </Row>
+      </fieldset>
+
+      {status === ProcessingStatus.PROCESSING && (
+        <div className="flex items-center gap-2 text-xs text-amber-600 animate-pulse">
+          <div className="w-2 h-2 bg-amber-600 rounded-full"></div>
+          Processing image...
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,30 +1,37 @@
 import React, { useCallback } from 'react';
 import { UploadIcon } from './Icons';
+import { isPdfFile } from '../services/pdfImport';
 
 interface ImageUploaderProps {
-  onImageSelected: (base64: string) => void;
+  onImageSelected: (base64: string, fileName: string) => void;
+  onPdfSelected: (file: File) => void;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected, onPdfSelected }) => {
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    if (isPdfFile(file)) {
+      onPdfSelected(file);
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       const result = e.target?.result;
       if (typeof result === 'string') {
-        onImageSelected(result);
+        onImageSelected(result, file.name);
       }
     };
     reader.readAsDataURL(file);
-  }, [onImageSelected]);
+  }, [onImageSelected, onPdfSelected]);
 
   return (
     <div className="flex flex-col items-center justify-center w-full h-full p-12 bg-stone-50 border-2 border-dashed border-stone-300 rounded-xl hover:bg-stone-100 transition-colors cursor-pointer relative group">
       <input 
         type="file" 
-        accept="image/*" 
+        accept="image/*,application/pdf" 
         onChange={handleFileChange} 
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
       />
@@ -33,7 +40,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageSelected })
       </div>
       <h3 className="text-lg font-semibold text-stone-800 mb-2">Upload Manuscript</h3>
       <p className="text-sm text-stone-500 text-center max-w-xs">
-        Drag and drop your archaic text image here, or click to browse.
+        Drag and drop your archaic text image or PDF here, or click to browse.
       </p>
     </div>
   );
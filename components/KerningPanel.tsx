@@ -0,0 +1,316 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FontMetrics, VectorGlyph } from '../types';
+import { CloseIcon, TrashIcon } from './Icons';
+import {
+  Kerning,
+  KerningPair,
+  KerningRef,
+  KerningSide,
+  assignToClass,
+  classOf,
+  createClass,
+  deleteClass,
+  findPair,
+  removePair,
+  renameClass,
+  resolvePair,
+  setPairValue
+} from '../services/kerning';
+import { codepointPreview } from '../services/unicode';
+
+export interface KerningPick {
+  left: string | null;
+  right: string | null;
+}
+
+interface KerningPanelProps {
+  glyphs: VectorGlyph[];
+  metrics: FontMetrics;
+  kerning: Kerning;
+  pick: KerningPick;
+  onPickChange: (pick: KerningPick) => void;
+  onChange: (kerning: Kerning) => void;
+  onClose: () => void;
+}
+
+type Scope = { left: KerningRef['type']; right: KerningRef['type'] };
+
+// Lower wins: glyph/glyph, glyph/class, class/glyph, class/class
+const precedence = (left: KerningRef, right: KerningRef): number =>
+  (left.type === 'class' ? 2 : 0) + (right.type === 'class' ? 1 : 0);
+
+export const glyphLabel = (glyph: VectorGlyph): string =>
+  (glyph.codepoints.length ? codepointPreview(glyph.codepoints[0]) : '') || glyph.name;
+
+const selectClass =
+  "px-1.5 py-0.5 text-xs rounded bg-white border border-stone-200 focus:border-stone-500 outline-none";
+
+export const KerningPanel: React.FC<KerningPanelProps> = ({ glyphs, metrics, kerning, pick, onPickChange, onChange, onClose }) => {
+  const [scope, setScope] = useState<Scope>({ left: 'glyph', right: 'glyph' });
+  const [drag, setDrag] = useState<{ startX: number; startValue: number } | null>(null);
+  const contentRef = useRef<SVGGElement>(null);
+
+  const left = glyphs.find(g => g.id === pick.left);
+  const right = glyphs.find(g => g.id === pick.right);
+  const leftClass = left ? classOf(kerning, left.id, 'left') : undefined;
+  const rightClass = right ? classOf(kerning, right.id, 'right') : undefined;
+
+  // A new pair opens on the rule that currently applies to it, so editing changes what is seen
+  useEffect(() => {
+    if (!pick.left || !pick.right) return;
+    const applied = resolvePair(kerning, pick.left, pick.right);
+    setScope(applied ? { left: applied.left.type, right: applied.right.type } : { left: 'glyph', right: 'glyph' });
+  }, [pick.left, pick.right]);
+
+  const refs = (): { left: KerningRef; right: KerningRef } | null => {
+    if (!left || !right) return null;
+    const l = scope.left === 'class' && leftClass ? { type: 'class' as const, id: leftClass.id } : { type: 'glyph' as const, id: left.id };
+    const r = scope.right === 'class' && rightClass ? { type: 'class' as const, id: rightClass.id } : { type: 'glyph' as const, id: right.id };
+    return { left: l, right: r };
+  };
+
+  const target = refs();
+  const editedPair = target ? findPair(kerning, target.left, target.right) : undefined;
+  const appliedPair = left && right ? resolvePair(kerning, left.id, right.id) : undefined;
+  const value = editedPair?.value ?? appliedPair?.value ?? 0;
+  const shownValue = appliedPair?.value ?? 0;
+
+  const handleValueChange = (next: number) => {
+    if (!target || !Number.isFinite(next)) return;
+    onChange(setPairValue(kerning, target.left, target.right, next));
+  };
+
+  const refLabel = (ref: KerningRef): string => {
+    if (ref.type === 'class') return `@${kerning.classes.find(c => c.id === ref.id)?.name ?? '?'}`;
+    const glyph = glyphs.find(g => g.id === ref.id);
+    return glyph ? glyphLabel(glyph) : '?';
+  };
+
+  const handleSelectPair = (pair: KerningPair) => {
+    const firstGlyph = (ref: KerningRef) =>
+      ref.type === 'glyph' ? ref.id : kerning.classes.find(c => c.id === ref.id)?.glyphIds[0] ?? null;
+    onPickChange({ left: firstGlyph(pair.left), right: firstGlyph(pair.right) });
+  };
+
+  const handleClassChange = (side: KerningSide, glyph: VectorGlyph, value: string) => {
+    if (value === 'new') {
+      onChange(createClass(kerning, side, glyphLabel(glyph), glyph.id));
+    } else {
+      onChange(assignToClass(kerning, glyph.id, side, value || null));
+    }
+    setScope(s => ({ ...s, [side]: value ? 'class' : 'glyph' }));
+  };
+
+  // --- Dragging the right glyph ---
+
+  const pointerX = (e: React.MouseEvent): number => {
+    const svg = contentRef.current?.ownerSVGElement;
+    if (!svg || !contentRef.current) return 0;
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    return pt.matrixTransform(contentRef.current.getScreenCTM()?.inverse()).x;
+  };
+
+  const handlePreviewMouseDown = (e: React.MouseEvent) => {
+    if (!target) return;
+    setDrag({ startX: pointerX(e), startValue: value });
+  };
+
+  const handlePreviewMouseMove = (e: React.MouseEvent) => {
+    if (!drag) return;
+    handleValueChange(Math.round(drag.startValue + pointerX(e) - drag.startX));
+  };
+
+  const em = metrics.unitsPerEm;
+  // The view does not follow the kerning value, so the glyph stays under the pointer while dragging
+  const previewWidth = (left?.advanceWidth ?? em / 2) + (right?.advanceWidth ?? em / 2);
+  const pad = em / 4;
+
+  const sides: { side: KerningSide; glyph?: VectorGlyph; cls?: typeof leftClass }[] = [
+    { side: 'left', glyph: left, cls: leftClass },
+    { side: 'right', glyph: right, cls: rightClass }
+  ];
+
+  return (
+    <div className="flex flex-col h-full bg-stone-50 animate-fade-in">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between p-4 bg-white border-b border-stone-200 shadow-sm z-20 relative">
+        <div className="flex items-center gap-4">
+          <button onClick={onClose} className="text-stone-500 hover:text-stone-800">
+            <CloseIcon />
+          </button>
+          <h3 className="font-bold text-stone-800">Kerning</h3>
+          <div className="h-6 w-px bg-stone-200 mx-2"></div>
+          {sides.map(({ side }) => (
+            <label key={side} className="flex items-center gap-2 text-xs text-stone-500">
+              {side === 'left' ? 'Left' : 'Right'}
+              <select
+                value={pick[side] ?? ''}
+                onChange={(e) => onPickChange({ ...pick, [side]: e.target.value || null })}
+                className={selectClass}
+              >
+                <option value="">Pick a glyph</option>
+                {glyphs.map(g => <option key={g.id} value={g.id}>{glyphLabel(g)}</option>)}
+              </select>
+            </label>
+          ))}
+          <button
+            onClick={() => onPickChange({ left: pick.right, right: pick.left })}
+            className="text-xs font-medium bg-stone-100 px-3 py-1.5 rounded-md hover:bg-stone-200 text-stone-700"
+          >
+            Swap
+          </button>
+        </div>
+        <span className="text-xs text-stone-400">{kerning.pairs.length} pairs · {kerning.classes.length} classes</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-8 space-y-6">
+        {/* Pair preview */}
+        <div className="bg-white rounded-lg border border-stone-200 shadow-sm">
+          {left && right ? (
+            <svg
+              viewBox={`${-pad} ${-metrics.ascender - pad / 2} ${previewWidth + pad * 2} ${metrics.ascender - metrics.descender + pad}`}
+              className={`w-full h-72 select-none ${drag ? 'cursor-grabbing' : 'cursor-ew-resize'}`}
+              onMouseDown={handlePreviewMouseDown}
+              onMouseMove={handlePreviewMouseMove}
+              onMouseUp={() => setDrag(null)}
+              onMouseLeave={() => setDrag(null)}
+            >
+              {/* Outlines are in font units, y up */}
+              <g ref={contentRef} transform="scale(1, -1)">
+                <line x1={-pad} x2={previewWidth + pad} y1={0} y2={0} stroke="#f9a8d4" strokeWidth={em / 300} />
+                <line x1={left.advanceWidth} x2={left.advanceWidth} y1={metrics.descender} y2={metrics.ascender} stroke="#d6d3d1" strokeWidth={em / 400} />
+                <path d={left.svgPath} fill="#1c1917" fillRule="evenodd" />
+                <g transform={`translate(${left.advanceWidth + shownValue}, 0)`}>
+                  <path d={right.svgPath} fill="#2563eb" fillRule="evenodd" />
+                </g>
+              </g>
+            </svg>
+          ) : (
+            <div className="h-72 flex items-center justify-center text-sm text-stone-400 text-center px-8">
+              Pick two glyphs with the kerning button in the glyph list, or choose them above.
+            </div>
+          )}
+        </div>
+
+        {left && right && target && (
+          <div className="bg-white rounded-lg border border-stone-200 shadow-sm p-4 space-y-3">
+            <div className="flex items-center gap-3 text-xs text-stone-500">
+              <span>Kern</span>
+              {sides.map(({ side, glyph, cls }) => (
+                <select
+                  key={side}
+                  value={scope[side] === 'class' && cls ? 'class' : 'glyph'}
+                  onChange={(e) => setScope(s => ({ ...s, [side]: e.target.value as KerningRef['type'] }))}
+                  className={selectClass}
+                >
+                  <option value="glyph">{glyphLabel(glyph!)} only</option>
+                  {cls && <option value="class">class @{cls.name}</option>}
+                </select>
+              ))}
+              <input
+                type="range"
+                min={-Math.round(em / 2)}
+                max={Math.round(em / 4)}
+                value={value}
+                onChange={(e) => handleValueChange(Number(e.target.value))}
+                className="flex-1 accent-blue-600"
+              />
+              <input
+                type="number"
+                value={value}
+                onChange={(e) => handleValueChange(Math.round(Number(e.target.value)))}
+                className="w-20 px-1.5 py-0.5 text-xs rounded bg-white border border-stone-200 focus:border-stone-500 outline-none tabular-nums"
+              />
+              <button
+                onClick={() => onChange(removePair(kerning, target.left, target.right))}
+                disabled={!editedPair}
+                className="px-2 py-1 rounded-md bg-stone-100 text-stone-700 hover:bg-stone-200 disabled:opacity-50"
+              >
+                Remove pair
+              </button>
+            </div>
+            {appliedPair && precedence(appliedPair.left, appliedPair.right) < precedence(target.left, target.right) && (
+              <p className="text-[11px] text-amber-600">
+                Shown with {refLabel(appliedPair.left)} × {refLabel(appliedPair.right)} ({appliedPair.value}), which takes precedence.
+              </p>
+            )}
+            <div className="flex items-center gap-6 text-xs text-stone-500">
+              {sides.map(({ side, glyph, cls }) => (
+                <label key={side} className="flex items-center gap-2">
+                  {side === 'left' ? 'Left' : 'Right'} class of {glyphLabel(glyph!)}
+                  <select value={cls?.id ?? ''} onChange={(e) => handleClassChange(side, glyph!, e.target.value)} className={selectClass}>
+                    <option value="">none</option>
+                    {kerning.classes.filter(c => c.side === side).map(c => <option key={c.id} value={c.id}>@{c.name}</option>)}
+                    <option value="new">New class…</option>
+                  </select>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Classes */}
+        <div className="grid grid-cols-2 gap-4">
+          {(['left', 'right'] as const).map(side => (
+            <div key={side} className="bg-white rounded-lg border border-stone-200 shadow-sm p-4 space-y-2">
+              <h4 className="text-xs font-semibold text-stone-500 uppercase tracking-wide">{side} classes</h4>
+              {kerning.classes.filter(c => c.side === side).length === 0 && (
+                <p className="text-xs text-stone-400">Glyphs with the same {side} side shape can share a class.</p>
+              )}
+              {kerning.classes.filter(c => c.side === side).map(c => (
+                <div key={c.id} className="flex items-center gap-2 text-xs">
+                  <span className="text-stone-400">@</span>
+                  <input
+                    value={c.name}
+                    onChange={(e) => onChange(renameClass(kerning, c.id, e.target.value))}
+                    className="w-20 px-1.5 py-0.5 rounded bg-white border border-stone-200 focus:border-stone-500 outline-none"
+                  />
+                  <div className="flex-1 flex flex-wrap gap-1">
+                    {c.glyphIds.map(id => {
+                      const g = glyphs.find(x => x.id === id);
+                      return g && (
+                        <button
+                          key={id}
+                          onClick={() => onChange(assignToClass(kerning, id, side, null))}
+                          className="px-1.5 rounded bg-stone-100 hover:bg-red-50 hover:text-red-600"
+                          title="Remove from class"
+                        >
+                          {glyphLabel(g)}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <button onClick={() => onChange(deleteClass(kerning, c.id))} className="text-stone-400 hover:text-red-600" title="Delete class and its pairs">
+                    <TrashIcon />
+                  </button>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        {/* Pairs */}
+        {kerning.pairs.length > 0 && (
+          <div className="bg-white rounded-lg border border-stone-200 shadow-sm p-4">
+            <h4 className="text-xs font-semibold text-stone-500 uppercase tracking-wide mb-2">Pairs</h4>
+            <div className="grid grid-cols-3 gap-x-4 gap-y-1">
+              {kerning.pairs.map(p => (
+                <div key={`${p.left.type}:${p.left.id}|${p.right.type}:${p.right.id}`} className="flex items-center gap-2 text-xs">
+                  <button onClick={() => handleSelectPair(p)} className="flex-1 text-left text-stone-700 hover:text-blue-600 truncate">
+                    {refLabel(p.left)} × {refLabel(p.right)}
+                  </button>
+                  <span className="tabular-nums text-stone-500">{p.value}</span>
+                  <button onClick={() => onChange(removePair(kerning, p.left, p.right))} className="text-stone-300 hover:text-red-600" title="Remove pair">
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { FontMetrics } from '../types';
+
+interface MetricsPanelProps {
+  metrics: FontMetrics;
+  onChange: (metrics: FontMetrics) => void;
+}
+
+// Rescaling outlines on every keystroke would round them away, so the em size is picked from a list
+const UNITS_PER_EM_OPTIONS = [1000, 1024, 2048, 4096];
+
+const FIELDS: { key: Exclude<keyof FontMetrics, 'unitsPerEm'>; label: string; min: number; max: number }[] = [
+  { key: 'ascender', label: 'Ascender', min: 0, max: 16384 },
+  { key: 'capHeight', label: 'Cap height', min: 0, max: 16384 },
+  { key: 'xHeight', label: 'x-height', min: 1, max: 16384 },
+  { key: 'descender', label: 'Descender', min: -16384, max: 0 }
+];
+
+export const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics, onChange }) => (
+  <details className="group">
+    <summary className="text-xs text-stone-500 cursor-pointer select-none hover:text-stone-800">
+      Metrics · {metrics.unitsPerEm} units/em
+    </summary>
+    <div className="grid grid-cols-2 gap-x-3 gap-y-2 mt-2">
+      <label className="flex items-center justify-between gap-2 text-xs text-stone-500">
+        Units per em
+        <select
+          value={metrics.unitsPerEm}
+          onChange={(e) => onChange({ ...metrics, unitsPerEm: Number(e.target.value) })}
+          className="w-20 px-1 py-0.5 text-xs rounded bg-white border border-stone-200 focus:border-stone-500 outline-none tabular-nums"
+        >
+          {[...new Set([...UNITS_PER_EM_OPTIONS, metrics.unitsPerEm])].sort((a, b) => a - b).map(u => (
+            <option key={u} value={u}>{u}</option>
+          ))}
+        </select>
+      </label>
+      {FIELDS.map(f => (
+        <label key={f.key} className="flex items-center justify-between gap-2 text-xs text-stone-500">
+          {f.label}
+          <input
+            type="number"
+            min={f.min}
+            max={f.max}
+            value={metrics[f.key]}
+            onChange={(e) => {
+              const value = Math.round(Number(e.target.value));
+              if (Number.isFinite(value)) onChange({ ...metrics, [f.key]: Math.min(f.max, Math.max(f.min, value)) });
+            }}
+            className="w-20 px-1.5 py-0.5 text-xs rounded bg-white border border-stone-200 focus:border-stone-500 outline-none tabular-nums"
+          />
+        </label>
+      ))}
+    </div>
+    <p className="text-[11px] text-stone-400 mt-2">
+      Changing units per em rescales every glyph. The x-height sets the scale of newly extracted glyphs.
+    </p>
+  </details>
+);
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { PDF_DPI_OPTIONS } from '../services/pdfImport';
+
+interface PageNavigatorProps {
+  fileName: string;
+  pageNumber: number;
+  pageCount: number;
+  dpi: number;
+  preferEmbedded: boolean;
+  isLoading: boolean;
+  onPageChange: (pageNumber: number) => void;
+  onDpiChange: (dpi: number) => void;
+  onPreferEmbeddedChange: (preferEmbedded: boolean) => void;
+}
+
+const navButtonClass =
+  "text-xs font-medium bg-stone-100 px-2.5 py-1 rounded-md hover:bg-stone-200 text-stone-700 disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const PageNavigator: React.FC<PageNavigatorProps> = ({
+  fileName, pageNumber, pageCount, dpi, preferEmbedded, isLoading, onPageChange, onDpiChange, onPreferEmbeddedChange
+}) => {
+  // Typed page number, committed on Enter or blur
+  const [draft, setDraft] = useState(String(pageNumber));
+  useEffect(() => setDraft(String(pageNumber)), [pageNumber]);
+
+  const commitDraft = () => {
+    const n = Math.round(Number(draft));
+    if (Number.isFinite(n) && n >= 1 && n <= pageCount && n !== pageNumber) onPageChange(n);
+    else setDraft(String(pageNumber));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-white p-3 rounded-lg shadow-sm border border-stone-200">
+      <span className="text-xs font-semibold text-stone-500 truncate max-w-[12rem] px-2" title={fileName}>{fileName}</span>
+
+      <div className="flex items-center gap-1">
+        <button onClick={() => onPageChange(1)} disabled={isLoading || pageNumber <= 1} className={navButtonClass} title="First page">«</button>
+        <button onClick={() => onPageChange(pageNumber - 1)} disabled={isLoading || pageNumber <= 1} className={navButtonClass} title="Previous page">‹</button>
+        <input
+          type="text"
+          inputMode="numeric"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commitDraft}
+          onKeyDown={(e) => e.key === 'Enter' && commitDraft()}
+          disabled={isLoading}
+          className="w-10 text-xs text-center bg-stone-50 border border-stone-200 rounded px-1 py-1 tabular-nums"
+        />
+        <span className="text-xs text-stone-400 tabular-nums">/ {pageCount}</span>
+        <button onClick={() => onPageChange(pageNumber + 1)} disabled={isLoading || pageNumber >= pageCount} className={navButtonClass} title="Next page">›</button>
+        <button onClick={() => onPageChange(pageCount)} disabled={isLoading || pageNumber >= pageCount} className={navButtonClass} title="Last page">»</button>
+      </div>
+
+      <div className="flex-1" />
+
+      <label className="flex items-center gap-1 text-xs text-stone-500" title="Take the scanned image out of the page at its own resolution when the page is a single image">
+        <input
+          type="checkbox"
+          checked={preferEmbedded}
+          onChange={(e) => onPreferEmbeddedChange(e.target.checked)}
+          disabled={isLoading}
+        />
+        Embedded scan
+      </label>
+      <select
+        value={dpi}
+        onChange={(e) => onDpiChange(Number(e.target.value))}
+        disabled={isLoading}
+        className="text-xs bg-white border border-stone-300 rounded px-2 py-1 text-stone-700"
+        title="Resolution pages are rasterized at"
+      >
+        {PDF_DPI_OPTIONS.map(d => (
+          <option key={d} value={d}>{d} DPI</option>
+        ))}
+      </select>
+
+      {isLoading && <span className="text-xs text-amber-600 animate-pulse">Loading page…</span>}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { ProjectSummary, PROJECT_FILE_EXTENSION } from '../services/project';
+
+interface RecentProjectsProps {
+  projects: ProjectSummary[];
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onOpenFile: (file: File) => void;
+}
+
+const formatDate = (time: number) =>
+  new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const RecentProjects: React.FC<RecentProjectsProps> = ({ projects, onOpen, onDelete, onOpenFile }) => {
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) onOpenFile(file);
+    event.target.value = '';
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold text-stone-500 uppercase tracking-wide">Recent Projects</h3>
+        <label className="text-xs font-medium text-stone-600 hover:text-stone-900 cursor-pointer">
+          Open Project File…
+          <input type="file" accept={`${PROJECT_FILE_EXTENSION},application/json`} onChange={handleFileChange} className="hidden" />
+        </label>
+      </div>
+
+      {projects.length === 0 ? (
+        <p className="text-xs text-stone-400">Projects are saved in this browser as you work.</p>
+      ) : (
+        <ul className="bg-white border border-stone-200 rounded-lg divide-y divide-stone-100">
+          {projects.map(p => (
+            <li key={p.id} className="group flex items-center gap-3 px-3 py-2 hover:bg-stone-50">
+              <button onClick={() => onOpen(p.id)} className="flex-1 min-w-0 text-left">
+                <div className="text-sm font-medium text-stone-800 truncate">{p.name}</div>
+                <div className="text-[11px] text-stone-400">
+                  {formatDate(p.updatedAt)} · {p.glyphCount} glyph{p.glyphCount === 1 ? '' : 's'}
+                </div>
+              </button>
+              <button
+                onClick={() => onDelete(p.id)}
+                className="text-xs text-stone-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Remove from this browser"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
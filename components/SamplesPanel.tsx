@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FontMetrics, VectorGlyph } from '../types';
+import { CloseIcon } from './Icons';
+import { glyphLabel } from './KerningPanel';
+import {
+  DEFAULT_CLUSTER_DISTANCE,
+  GlyphCluster,
+  buildConsensusGlyph,
+  buildShapeDendrogram,
+  conflictingMembers,
+  cutDendrogram,
+  groupByCharacter,
+  majorityCodepoints,
+  representedCodepoints
+} from '../services/clustering';
+import { codepointPreview, formatCodepoint } from '../services/unicode';
+
+interface SamplesPanelProps {
+  glyphs: VectorGlyph[];
+  metrics: FontMetrics;
+  onUseRepresentative: (memberIds: string[], representativeId: string) => void;
+  onAddConsensus: (memberIds: string[], consensus: VectorGlyph) => void;
+  onRelease: (representativeId: string) => void;
+  onClose: () => void;
+}
+
+type Grouping = 'shape' | 'character';
+
+const Thumb: React.FC<{ glyph: VectorGlyph; metrics: FontMetrics }> = ({ glyph, metrics }) => (
+  <svg
+    viewBox={`0 ${-metrics.ascender} ${Math.max(1, glyph.advanceWidth)} ${metrics.ascender - metrics.descender}`}
+    className="w-full h-full overflow-visible"
+  >
+    {/* Outlines are in font units, y up */}
+    <path d={glyph.svgPath} transform="scale(1, -1)" fill="currentColor" fillRule="evenodd" />
+  </svg>
+);
+
+interface ClusterCardProps {
+  cluster: GlyphCluster;
+  glyphs: VectorGlyph[];
+  metrics: FontMetrics;
+  onUseRepresentative: (memberIds: string[], representativeId: string) => void;
+  onAddConsensus: (memberIds: string[], consensus: VectorGlyph) => void;
+  onRelease: (representativeId: string) => void;
+}
+
+const ClusterCard: React.FC<ClusterCardProps> = ({ cluster, glyphs, metrics, onUseRepresentative, onAddConsensus, onRelease }) => {
+  const members = cluster.glyphIds.map(id => glyphs.find(g => g.id === id)!).filter(Boolean);
+  // The member the others are already samples of, if there is one
+  const current = members.find(m => !m.sampleOf && members.some(o => o.sampleOf === m.id));
+  const [selectedId, setSelectedId] = useState(current?.id ?? cluster.typicalId);
+  const [showConsensus, setShowConsensus] = useState(false);
+
+  useEffect(() => {
+    setSelectedId(current?.id ?? cluster.typicalId);
+  }, [cluster.typicalId, current?.id]);
+
+  // A consensus already in the group is not averaged into the next one
+  const consensus = useMemo(() => {
+    if (!showConsensus) return null;
+    const sources = members.filter(m => !m.consensus);
+    try {
+      return buildConsensusGlyph(sources.length >= 2 ? sources : members);
+    } catch (err) {
+      console.warn('Could not build a consensus outline:', err);
+      return null;
+    }
+  }, [showConsensus, members.map(m => `${m.id}:${m.svgPath}`).join('|')]);
+
+  const codepoints = majorityCodepoints(members);
+  const samplesOfSelected = glyphs.filter(g => g.sampleOf === selectedId).length;
+  // Members of another character, which "Use selected" keeps in the font rather than dropping their character
+  const selected = members.find(m => m.id === selectedId);
+  const conflicts = selected ? conflictingMembers(members, representedCodepoints(selected, members)) : [];
+
+  return (
+    <div className="bg-white rounded-lg border border-stone-200 shadow-sm p-4 space-y-3">
+      <div className="flex items-center gap-3">
+        <span className="text-2xl font-serif text-stone-800 w-8 text-center">{codepoints.length ? codepointPreview(codepoints[0]) || '·' : '?'}</span>
+        <span className="text-xs text-stone-500">
+          {codepoints.length ? formatCodepoint(codepoints[0]) : 'Unassigned'} · {members.length} samples
+        </span>
+        {current && <span className="text-xs text-emerald-600">{glyphLabel(current)} stands for the group</span>}
+      </div>
+
+      <div className="grid grid-cols-8 gap-2">
+        {members.map(m => (
+          <button
+            key={m.id}
+            onClick={() => setSelectedId(m.id)}
+            className={`relative aspect-square p-1 rounded border ${m.id === selectedId ? 'border-blue-500 ring-2 ring-blue-200' : 'border-stone-200 hover:border-stone-400'} ${m.sampleOf ? 'text-stone-400' : 'text-stone-900'}`}
+            title={`${m.name}${m.id === cluster.typicalId ? ' (most typical)' : ''}${m.sampleOf ? ' (sample)' : ''}`}
+          >
+            <Thumb glyph={m} metrics={metrics} />
+            {m.id === cluster.typicalId && <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-blue-500" />}
+          </button>
+        ))}
+      </div>
+
+      {consensus && (
+        <div className="flex items-center gap-3">
+          <div className="w-16 h-16 p-1 rounded border border-violet-300 text-violet-700">
+            <Thumb glyph={consensus} metrics={metrics} />
+          </div>
+          <button
+            onClick={() => { onAddConsensus(cluster.glyphIds, consensus); setShowConsensus(false); }}
+            className="text-xs font-medium bg-violet-600 text-white px-3 py-1.5 rounded-md hover:bg-violet-700"
+          >
+            Use consensus
+          </button>
+          <span className="text-[11px] text-stone-400">Averaged from the samples; every sample stays in the project.</span>
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <p className="text-[11px] text-amber-700">
+          {conflicts.map(glyphLabel).join(', ')} {conflicts.length === 1 ? 'carries' : 'carry'} another character and will stay in the font.
+        </p>
+      )}
+
+      <div className="flex items-center gap-2 text-xs">
+        <button
+          onClick={() => onUseRepresentative(cluster.glyphIds, selectedId)}
+          disabled={members.length < 2}
+          className="px-2 py-1 rounded-md bg-stone-100 text-stone-700 hover:bg-stone-200 disabled:opacity-50"
+          title="Export the selected sample and keep the others as its samples"
+        >
+          Use selected
+        </button>
+        <button
+          onClick={() => setShowConsensus(s => !s)}
+          disabled={members.length < 2}
+          className="px-2 py-1 rounded-md bg-stone-100 text-stone-700 hover:bg-stone-200 disabled:opacity-50"
+        >
+          {showConsensus ? 'Hide consensus' : 'Consensus outline'}
+        </button>
+        {samplesOfSelected > 0 && (
+          <button onClick={() => onRelease(selectedId)} className="ml-auto text-stone-500 hover:text-stone-900 underline">
+            Release {samplesOfSelected} samples
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Repeated samples of a letter, grouped by shape or by assigned character.
+ * A group is stood for in the font by one chosen sample or by a consensus
+ * outline; the rest are kept as its samples and left out of the font.
+ */
+export const SamplesPanel: React.FC<SamplesPanelProps> = ({ glyphs, metrics, onUseRepresentative, onAddConsensus, onRelease, onClose }) => {
+  const [grouping, setGrouping] = useState<Grouping>('shape');
+  const [maxDistance, setMaxDistance] = useState(DEFAULT_CLUSTER_DISTANCE);
+
+  // Built once per set of outlines, so moving the slider only cuts it at another distance
+  const dendrogram = useMemo(
+    () => (grouping === 'shape' ? buildShapeDendrogram(glyphs) : null),
+    [grouping, glyphs.map(g => `${g.id}:${g.svgPath}`).join('|')]
+  );
+  const clusters = useMemo(
+    () => (dendrogram ? cutDendrogram(dendrogram, maxDistance) : groupByCharacter(glyphs)),
+    [dendrogram, glyphs, maxDistance]
+  );
+  const groups = clusters.filter(c => c.glyphIds.length > 1);
+  const singles = clusters.length - groups.length;
+
+  return (
+    <div className="flex flex-col h-full bg-stone-50 animate-fade-in">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between p-4 bg-white border-b border-stone-200 shadow-sm z-20 relative">
+        <div className="flex items-center gap-4">
+          <button onClick={onClose} className="text-stone-500 hover:text-stone-800">
+            <CloseIcon />
+          </button>
+          <h3 className="font-bold text-stone-800">Samples</h3>
+          <div className="h-6 w-px bg-stone-200 mx-2"></div>
+          <div className="flex bg-stone-100 rounded-md p-0.5 text-xs">
+            {(['shape', 'character'] as const).map(g => (
+              <button
+                key={g}
+                onClick={() => setGrouping(g)}
+                className={`px-2 py-1 rounded ${grouping === g ? 'bg-white shadow-sm text-stone-900' : 'text-stone-500'}`}
+              >
+                By {g}
+              </button>
+            ))}
+          </div>
+          {grouping === 'shape' && (
+            <label className="flex items-center gap-2 text-xs text-stone-500" title="How different two samples may be and still share a group">
+              Strict
+              <input
+                type="range"
+                min={0.1}
+                max={0.7}
+                step={0.01}
+                value={maxDistance}
+                onChange={(e) => setMaxDistance(Number(e.target.value))}
+                className="w-32 accent-stone-600"
+              />
+              Loose
+            </label>
+          )}
+        </div>
+        <span className="text-xs text-stone-400">{groups.length} groups · {singles} single</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-8 space-y-4">
+        {groups.length === 0 && (
+          <div className="text-sm text-stone-400 text-center py-16">
+            {grouping === 'shape'
+              ? 'No samples are alike enough to group. Extract more instances of a letter, or loosen the grouping.'
+              : 'No character has more than one glyph assigned to it.'}
+          </div>
+        )}
+        {groups.map(cluster => (
+          <ClusterCard
+            key={cluster.glyphIds.join('|')}
+            cluster={cluster}
+            glyphs={glyphs}
+            metrics={metrics}
+            onUseRepresentative={onUseRepresentative}
+            onAddConsensus={onAddConsensus}
+            onRelease={onRelease}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
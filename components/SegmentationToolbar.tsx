@@ -0,0 +1,54 @@
+import React from 'react';
+import { CheckIcon, CloseIcon, TrashIcon } from './Icons';
+
+interface SegmentationToolbarProps {
+  total: number;
+  accepted: number;
+  selected: number;
+  onAccept: () => void;
+  onAcceptAll: () => void;
+  onReject: () => void;
+  onMerge: () => void;
+  onSplit: () => void;
+  onCreate: () => void;
+  onClose: () => void;
+}
+
+const buttonClass =
+  "text-xs font-medium bg-stone-100 px-3 py-1.5 rounded-md hover:bg-stone-200 text-stone-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1";
+
+export const SegmentationToolbar: React.FC<SegmentationToolbarProps> = ({
+  total, accepted, selected, onAccept, onAcceptAll, onReject, onMerge, onSplit, onCreate, onClose
+}) => (
+  <div className="bg-white border border-stone-200 rounded-lg p-3 flex flex-wrap items-center gap-2">
+    <span className="text-xs font-semibold text-stone-500 uppercase tracking-wide mr-2">
+      {total} candidates · {accepted} accepted{selected > 0 ? ` · ${selected} selected` : ''}
+    </span>
+    <button onClick={onAccept} disabled={selected === 0} className={buttonClass}>
+      <CheckIcon /> Accept
+    </button>
+    <button onClick={onReject} disabled={selected === 0} className={buttonClass}>
+      <TrashIcon /> Reject
+    </button>
+    <button onClick={onMerge} disabled={selected < 2} className={buttonClass} title="Combine the selected boxes into one character">
+      Merge
+    </button>
+    <button onClick={onSplit} disabled={selected !== 1} className={buttonClass} title="Cut the selected box where it has the least ink">
+      Split
+    </button>
+    <button onClick={onAcceptAll} disabled={total === 0} className={buttonClass}>
+      Accept All
+    </button>
+    <div className="flex-1" />
+    <button
+      onClick={onCreate}
+      disabled={accepted === 0}
+      className="bg-blue-600 text-white px-4 py-1.5 rounded-full text-xs font-medium hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+    >
+      Create {accepted} Glyph{accepted === 1 ? '' : 's'}
+    </button>
+    <button onClick={onClose} className="text-stone-400 hover:text-stone-700 p-1" title="Leave auto-detect">
+      <CloseIcon />
+    </button>
+  </div>
+);
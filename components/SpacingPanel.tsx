@@ -0,0 +1,58 @@
+import React from 'react';
+import { SpacingSettings } from '../services/spacing';
+
+interface SpacingPanelProps {
+  settings: SpacingSettings;
+  glyphCount: number;
+  onChange: (settings: SpacingSettings) => void;
+  onAutoSpaceAll: () => void;
+}
+
+const inputClass =
+  "w-20 px-1.5 py-0.5 text-xs rounded bg-white border border-stone-200 focus:border-stone-500 outline-none tabular-nums";
+
+export const SpacingPanel: React.FC<SpacingPanelProps> = ({ settings, glyphCount, onChange, onAutoSpaceAll }) => (
+  <details className="group">
+    <summary className="text-xs text-stone-500 cursor-pointer select-none hover:text-stone-800">
+      Spacing · {settings.leftSidebearing} / {settings.rightSidebearing}
+    </summary>
+    <div className="grid grid-cols-2 gap-x-3 gap-y-2 mt-2">
+      <label className="flex items-center justify-between gap-2 text-xs text-stone-500">
+        Left
+        <input
+          type="number"
+          value={settings.leftSidebearing}
+          onChange={(e) => onChange({ ...settings, leftSidebearing: Math.round(Number(e.target.value)) || 0 })}
+          className={inputClass}
+        />
+      </label>
+      <label className="flex items-center justify-between gap-2 text-xs text-stone-500">
+        Right
+        <input
+          type="number"
+          value={settings.rightSidebearing}
+          onChange={(e) => onChange({ ...settings, rightSidebearing: Math.round(Number(e.target.value)) || 0 })}
+          className={inputClass}
+        />
+      </label>
+    </div>
+    <div className="flex items-center justify-between mt-2">
+      <label className="flex items-center gap-1 text-xs text-stone-500 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.autoSpaceNew}
+          onChange={(e) => onChange({ ...settings, autoSpaceNew: e.target.checked })}
+        />
+        Auto-space new glyphs
+      </label>
+      <button
+        onClick={onAutoSpaceAll}
+        disabled={glyphCount === 0}
+        className="text-xs px-2 py-1 rounded-md bg-stone-100 text-stone-700 hover:bg-stone-200 disabled:opacity-50"
+        title="Give every glyph the default sidebearings, measured from its outline"
+      >
+        Auto-space all
+      </button>
+    </div>
+  </details>
+);
@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { GlyphSubstitution, LigatureFeature, PositionalForm, VectorGlyph } from '../types';
+import { CodepointInput } from './CodepointInput';
+import {
+  ALTERNATE_FEATURES,
+  LIGATURE_FEATURES,
+  POSITIONAL_FORMS,
+  SubstitutionKind,
+  defaultSubstitution,
+  substitutionCodepoints
+} from '../services/substitutions';
+import { formatCodepoint } from '../services/unicode';
+
+interface SubstitutionFieldsProps {
+  glyph: VectorGlyph;
+  substitution: GlyphSubstitution | undefined;
+  // Codepoints some glyph of the project carries
+  availableCodepoints: Set<number>;
+  onChange: (substitution: GlyphSubstitution | undefined) => void;
+}
+
+const KINDS: { id: SubstitutionKind | ''; label: string }[] = [
+  { id: '', label: 'Standalone glyph' },
+  { id: 'ligature', label: 'Ligature' },
+  { id: 'positional', label: 'Positional form' },
+  { id: 'contextual', label: 'Contextual alternate' },
+  { id: 'alternate', label: 'Stylistic alternate' }
+];
+
+const selectClass =
+  "px-1.5 py-0.5 text-xs rounded bg-white border border-stone-200 focus:border-stone-500 outline-none";
+
+/**
+ * The GSUB rule of a glyph: which characters it replaces, and when.
+ */
+export const SubstitutionFields: React.FC<SubstitutionFieldsProps> = ({ glyph, substitution, availableCodepoints, onChange }) => {
+  const missing = substitution ? substitutionCodepoints(substitution).filter(cp => !availableCodepoints.has(cp)) : [];
+
+  // Kept stable between renders so the field does not reset while typing
+  const baseCodepoints = useMemo(() => (substitution && 'base' in substitution ? [substitution.base] : []), [substitution]);
+
+  // A single base character; extra characters typed into the field are ignored
+  const baseInput = (sub: Extract<GlyphSubstitution, { base: number }>) => (
+    <CodepointInput
+      codepoints={baseCodepoints}
+      onChange={(cps) => cps.length > 0 && onChange({ ...sub, base: cps[0] })}
+      className="w-24"
+    />
+  );
+
+  return (
+    <div className="flex items-center gap-3 text-xs text-stone-500">
+      <select
+        value={substitution?.kind ?? ''}
+        onChange={(e) => onChange(e.target.value ? defaultSubstitution(e.target.value as SubstitutionKind, glyph) : undefined)}
+        className={selectClass}
+      >
+        {KINDS.map(k => <option key={k.id} value={k.id}>{k.label}</option>)}
+      </select>
+
+      {substitution?.kind === 'ligature' && (
+        <>
+          <label className="flex items-center gap-2">
+            of
+            <CodepointInput
+              codepoints={substitution.components}
+              onChange={(components) => onChange({ ...substitution, components })}
+              className="w-36"
+              sequence
+            />
+          </label>
+          <select
+            value={substitution.feature}
+            onChange={(e) => onChange({ ...substitution, feature: e.target.value as LigatureFeature })}
+            className={selectClass}
+          >
+            {LIGATURE_FEATURES.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+          </select>
+          {substitution.components.length < 2 && <span className="text-amber-600">A ligature needs two or more characters</span>}
+        </>
+      )}
+
+      {substitution?.kind === 'positional' && (
+        <>
+          <select
+            value={substitution.form}
+            onChange={(e) => onChange({ ...substitution, form: e.target.value as PositionalForm })}
+            className={selectClass}
+          >
+            {POSITIONAL_FORMS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+          </select>
+          <label className="flex items-center gap-2">form of {baseInput(substitution)}</label>
+        </>
+      )}
+
+      {substitution?.kind === 'contextual' && (
+        <>
+          <label className="flex items-center gap-2">Replaces {baseInput(substitution)}</label>
+          <label className="flex items-center gap-2" title="Any of these characters; empty means anything">
+            after
+            <CodepointInput
+              codepoints={substitution.before}
+              onChange={(before) => onChange({ ...substitution, before })}
+              className="w-24"
+            />
+          </label>
+          <label className="flex items-center gap-2" title="Any of these characters; empty means anything">
+            before
+            <CodepointInput
+              codepoints={substitution.after}
+              onChange={(after) => onChange({ ...substitution, after })}
+              className="w-24"
+            />
+          </label>
+        </>
+      )}
+
+      {substitution?.kind === 'alternate' && (
+        <>
+          <label className="flex items-center gap-2">Replaces {baseInput(substitution)}</label>
+          <select
+            value={substitution.feature}
+            onChange={(e) => onChange({ ...substitution, feature: e.target.value })}
+            className={selectClass}
+          >
+            {ALTERNATE_FEATURES.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+          </select>
+        </>
+      )}
+
+      {missing.length > 0 && (
+        <span className="text-amber-600" title="The rule is left out of the font until these characters have glyphs">
+          No glyph for {missing.map(formatCodepoint).join(', ')} yet
+        </span>
+      )}
+    </div>
+  );
+};
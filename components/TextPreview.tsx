@@ -0,0 +1,200 @@
+import React, { useMemo, useState } from 'react';
+import { FontMetrics, VectorGlyph } from '../types';
+import { CloseIcon } from './Icons';
+import { Kerning } from '../services/kerning';
+import { DEFAULT_FEATURES, TextLine, createTextShaper, projectFeatures, wrapText } from '../services/textLayout';
+
+interface TextPreviewProps {
+  glyphs: VectorGlyph[];
+  metrics: FontMetrics;
+  kerning: Kerning;
+  text: string;
+  onTextChange: (text: string) => void;
+  onClose: () => void;
+}
+
+interface TextPreviewStripProps {
+  glyphs: VectorGlyph[];
+  metrics: FontMetrics;
+  kerning: Kerning;
+  text: string;
+  onTextChange: (text: string) => void;
+}
+
+const WATERFALL_SIZES = [12, 16, 20, 24, 32, 48, 64, 96];
+
+const inputClass =
+  "px-1.5 py-0.5 text-xs rounded bg-white border border-stone-200 focus:border-stone-500 outline-none";
+
+// One line of set text at `size` pixels per em
+const LineView: React.FC<{ line: TextLine; metrics: FontMetrics; size: number; lineHeight?: number }> = ({ line, metrics, size, lineHeight = 1 }) => {
+  const em = metrics.unitsPerEm;
+  const scale = size / em;
+  const height = (metrics.ascender - metrics.descender) * lineHeight;
+  const top = metrics.ascender + (height - (metrics.ascender - metrics.descender)) / 2;
+  const width = Math.max(1, line.width);
+  const stroke = em * 0.05;
+  return (
+    <svg width={width * scale} height={height * scale} viewBox={`0 ${-top} ${width} ${height}`} className="block overflow-visible">
+      {/* Outlines are in font units, y up */}
+      {line.glyphs.map((g, i) => (
+        <g key={i} transform={`translate(${g.x}, 0) scale(1, -1)`}>
+          {g.glyph && <path d={g.glyph.svgPath} fill="currentColor" fillRule="evenodd" />}
+          {g.missing && (
+            <rect
+              x={stroke + stroke / 2}
+              y={stroke / 2}
+              width={Math.max(0, g.advance - stroke * 3)}
+              height={metrics.ascender - stroke}
+              fill="none"
+              stroke="#f87171"
+              strokeWidth={stroke}
+            />
+          )}
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const useShaper = (glyphs: VectorGlyph[], kerning: Kerning, metrics: FontMetrics, features: string[]) =>
+  useMemo(() => {
+    const shape = createTextShaper(glyphs, kerning, metrics.unitsPerEm);
+    const on = new Set(features);
+    return (text: string) => shape(text, on);
+  }, [glyphs, kerning, metrics.unitsPerEm, features]);
+
+/**
+ * The project's glyphs set as text, with the kerning and substitutions the
+ * exported font would apply: a size waterfall and a paragraph.
+ */
+export const TextPreview: React.FC<TextPreviewProps> = ({ glyphs, metrics, kerning, text, onTextChange, onClose }) => {
+  const [features, setFeatures] = useState<string[]>(DEFAULT_FEATURES);
+  const [paragraphSize, setParagraphSize] = useState(24);
+  const [lineHeight, setLineHeight] = useState(1.2);
+  const [measure, setMeasure] = useState(600); // Pixels
+
+  const shape = useShaper(glyphs, kerning, metrics, features);
+  const available = projectFeatures(glyphs, kerning);
+  const firstLine = text.split('\n')[0];
+  const waterfall = useMemo(() => shape(firstLine), [shape, firstLine]);
+  const paragraph = useMemo(
+    () => wrapText(shape, text, (measure / paragraphSize) * metrics.unitsPerEm),
+    [shape, text, measure, paragraphSize, metrics.unitsPerEm]
+  );
+  const missingCount = paragraph.reduce((n, line) => n + line.glyphs.filter(g => g.missing).length, 0);
+
+  const toggleFeature = (tag: string) =>
+    setFeatures(f => (f.includes(tag) ? f.filter(t => t !== tag) : [...f, tag]));
+
+  // Every character the glyphs carry, in codepoint order
+  const handleShowAll = () => {
+    const codepoints = [...new Set<number>(glyphs.flatMap(g => g.codepoints))].sort((a, b) => a - b);
+    onTextChange(String.fromCodePoint(...codepoints));
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-stone-50 animate-fade-in">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between p-4 bg-white border-b border-stone-200 shadow-sm z-20 relative">
+        <div className="flex items-center gap-4">
+          <button onClick={onClose} className="text-stone-500 hover:text-stone-800">
+            <CloseIcon />
+          </button>
+          <h3 className="font-bold text-stone-800">Text Preview</h3>
+          <div className="h-6 w-px bg-stone-200 mx-2"></div>
+          {available.length === 0 && <span className="text-xs text-stone-400">No kerning or substitutions yet</span>}
+          {available.map(tag => (
+            <label key={tag} className="flex items-center gap-1 text-xs text-stone-500 cursor-pointer">
+              <input type="checkbox" checked={features.includes(tag)} onChange={() => toggleFeature(tag)} />
+              {tag}
+            </label>
+          ))}
+        </div>
+        {missingCount > 0 && (
+          <span className="text-xs text-red-500" title="Characters without a glyph show as boxes">
+            {missingCount} missing
+          </span>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-8 space-y-6">
+        <div className="bg-white rounded-lg border border-stone-200 shadow-sm p-4 space-y-2">
+          <textarea
+            value={text}
+            onChange={(e) => onTextChange(e.target.value)}
+            rows={3}
+            className="w-full px-2 py-1 text-sm rounded-md bg-white border border-stone-200 focus:border-stone-500 outline-none resize-y"
+            placeholder="Type some text"
+          />
+          <button onClick={handleShowAll} disabled={glyphs.length === 0} className="text-xs text-stone-600 hover:text-stone-900 underline disabled:opacity-50">
+            Show every character
+          </button>
+        </div>
+
+        {/* Waterfall of the first line */}
+        <div className="bg-white rounded-lg border border-stone-200 shadow-sm p-4 space-y-2 overflow-x-auto">
+          <h4 className="text-xs font-semibold text-stone-500 uppercase tracking-wide">Waterfall</h4>
+          {WATERFALL_SIZES.map(size => (
+            <div key={size} className="flex items-center gap-4">
+              <span className="w-10 flex-none text-right text-[10px] text-stone-400 tabular-nums">{size}px</span>
+              <div className="text-stone-900">
+                <LineView line={waterfall} metrics={metrics} size={size} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Paragraph */}
+        <div className="bg-white rounded-lg border border-stone-200 shadow-sm p-4 space-y-3">
+          <div className="flex items-center gap-4 text-xs text-stone-500">
+            <h4 className="font-semibold uppercase tracking-wide">Paragraph</h4>
+            <label className="flex items-center gap-2">
+              Size
+              <input type="number" min={6} max={200} value={paragraphSize} onChange={(e) => setParagraphSize(Math.max(6, Number(e.target.value) || 6))} className={`w-16 ${inputClass}`} />
+            </label>
+            <label className="flex items-center gap-2">
+              Line height
+              <input type="number" min={0.8} max={3} step={0.1} value={lineHeight} onChange={(e) => setLineHeight(Math.max(0.8, Number(e.target.value) || 1))} className={`w-16 ${inputClass}`} />
+            </label>
+            <label className="flex items-center gap-2 flex-1">
+              Width
+              <input type="range" min={150} max={900} value={measure} onChange={(e) => setMeasure(Number(e.target.value))} className="flex-1 accent-stone-600" />
+              <span className="tabular-nums w-12">{measure}px</span>
+            </label>
+          </div>
+          <div className="text-stone-900 border-l border-r border-dashed border-stone-200 overflow-x-auto" style={{ width: measure }}>
+            {paragraph.map((line, i) => (
+              <LineView key={i} line={line} metrics={metrics} size={paragraphSize} lineHeight={lineHeight} />
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * A single line of preview text under the glyph editor, set with the
+ * default features so edits can be judged in context.
+ */
+export const TextPreviewStrip: React.FC<TextPreviewStripProps> = ({ glyphs, metrics, kerning, text, onTextChange }) => {
+  const shape = useShaper(glyphs, kerning, metrics, DEFAULT_FEATURES);
+  const firstLine = text.split('\n')[0];
+  const line = useMemo(() => shape(firstLine), [shape, firstLine]);
+
+  return (
+    <div className="flex-none bg-white border-t border-stone-200 px-4 py-3 flex items-center gap-4">
+      <input
+        value={firstLine}
+        onChange={(e) => onTextChange([e.target.value, ...text.split('\n').slice(1)].join('\n'))}
+        className={`w-48 flex-none ${inputClass}`}
+        placeholder="Preview text"
+        title="Preview text"
+      />
+      <div className="flex-1 overflow-x-auto text-stone-900">
+        <LineView line={line} metrics={metrics} size={40} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import { createMask } from './tracer';
+
+/**
+ * Separating ink from paper.
+ *
+ * A single global cutoff only works on evenly lit, clean pages. Otsu picks
+ * the global cutoff from the histogram; Sauvola and Niblack compute a cutoff
+ * per pixel from the mean and spread of its neighbourhood, which copes with
+ * uneven lighting, foxing and bleed-through.
+ */
+
+export type BinarizeMethod = 'manual' | 'otsu' | 'sauvola' | 'niblack';
+
+export interface BinarizeSettings {
+  method: BinarizeMethod;
+  // Brightness cutoff for the manual method
+  threshold: number;
+  // Side of the square neighbourhood used by the local methods, in pixels (odd)
+  windowSize: number;
+  // Sensitivity of the local methods; Sauvola expects roughly 0.2-0.5, Niblack roughly -0.5-0
+  k: number;
+}
+
+export const BINARIZE_METHODS: { id: BinarizeMethod; label: string }[] = [
+  { id: 'manual', label: 'Manual' },
+  { id: 'otsu', label: 'Otsu (auto)' },
+  { id: 'sauvola', label: 'Sauvola (local)' },
+  { id: 'niblack', label: 'Niblack (local)' }
+];
+
+// The usual starting value of k for each local method
+export const DEFAULT_K: Record<'sauvola' | 'niblack', number> = { sauvola: 0.34, niblack: -0.2 };
+
+export const DEFAULT_BINARIZE_SETTINGS: BinarizeSettings = {
+  method: 'manual',
+  threshold: 128,
+  windowSize: 31,
+  k: DEFAULT_K.sauvola
+};
+
+// Dynamic range of the standard deviation in Sauvola's formula, for 8-bit images
+const SAUVOLA_R = 128;
+
+// Same weighting as the manual threshold uses
+export const toGrayscale = (data: Uint8ClampedArray, width: number, height: number): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.34 * data[i * 4] + 0.5 * data[i * 4 + 1] + 0.16 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+/**
+ * Otsu's threshold: the cutoff that maximises the between-class variance of the histogram.
+ */
+export const otsuThreshold = (gray: Float32Array): number => {
+  const histogram = new Array<number>(256).fill(0);
+  for (const v of gray) histogram[Math.min(255, Math.round(v))]++;
+
+  const total = gray.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+  let sumDark = 0;
+  let weightDark = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    weightDark += histogram[t];
+    if (weightDark === 0) continue;
+    const weightLight = total - weightDark;
+    if (weightLight === 0) break;
+    sumDark += t * histogram[t];
+    const meanDark = sumDark / weightDark;
+    const meanLight = (sumAll - sumDark) / weightLight;
+    const between = weightDark * weightLight * (meanDark - meanLight) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t + 1;
+    }
+  }
+  return threshold;
+};
+
+// Mask from a per-pixel threshold derived from the local mean and standard deviation
+const localThreshold = (
+  gray: Float32Array,
+  width: number,
+  height: number,
+  windowSize: number,
+  cutoff: (mean: number, std: number) => number
+): Uint8Array => {
+  // Integral images of values and squared values, one row and column larger than the image
+  const stride = width + 1;
+  const sum = new Float64Array(stride * (height + 1));
+  const sumSq = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSumSq = 0;
+    for (let x = 0; x < width; x++) {
+      const v = gray[y * width + x];
+      rowSum += v;
+      rowSumSq += v * v;
+      sum[(y + 1) * stride + x + 1] = sum[y * stride + x + 1] + rowSum;
+      sumSq[(y + 1) * stride + x + 1] = sumSq[y * stride + x + 1] + rowSumSq;
+    }
+  }
+
+  const half = Math.floor(windowSize / 2);
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const n = (x1 - x0) * (y1 - y0);
+      const s = sum[y1 * stride + x1] - sum[y0 * stride + x1] - sum[y1 * stride + x0] + sum[y0 * stride + x0];
+      const sq = sumSq[y1 * stride + x1] - sumSq[y0 * stride + x1] - sumSq[y1 * stride + x0] + sumSq[y0 * stride + x0];
+      const mean = s / n;
+      const std = Math.sqrt(Math.max(0, sq / n - mean * mean));
+      if (gray[y * width + x] < cutoff(mean, std)) mask[y * width + x] = 1;
+    }
+  }
+  return mask;
+};
+
+/**
+ * Thresholds RGBA pixels into a 1-byte-per-pixel mask (1 = ink) with the chosen method.
+ */
+export const binarize = (
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: BinarizeSettings
+): Uint8Array => {
+  switch (settings.method) {
+    case 'manual':
+      return createMask(data, width, height, settings.threshold);
+    case 'otsu':
+      return createMask(data, width, height, otsuThreshold(toGrayscale(data, width, height)));
+    case 'sauvola':
+      return localThreshold(toGrayscale(data, width, height), width, height, settings.windowSize,
+        (mean, std) => mean * (1 + settings.k * (std / SAUVOLA_R - 1)));
+    case 'niblack':
+      return localThreshold(toGrayscale(data, width, height), width, height, settings.windowSize,
+        (mean, std) => mean + settings.k * std);
+  }
+};
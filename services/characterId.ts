@@ -0,0 +1,80 @@
+import { FontMetrics, VectorGlyph } from '../types';
+import { CharacterGuess, CharacterIdentifier, ImageEditErrorKind, toImageEditError } from './imageProvider';
+import { ImageEditOptions, withRetries } from './imageEdit';
+import { glyphNameForCodepoint } from './unicode';
+
+/**
+ * Identifying which character an extracted glyph is, for one glyph or for
+ * every glyph still without a codepoint, through a CharacterIdentifier.
+ */
+
+// Glyphs still waiting for a character; samples take theirs from the glyph standing for them
+export const isUnlabeled = (glyph: VectorGlyph): boolean => glyph.codepoints.length === 0 && !glyph.sampleOf;
+
+/**
+ * The outline black on white in a square of `size` pixels. The em box from
+ * descender to ascender is drawn at the same scale for every glyph, so
+ * where a mark sits (a comma or an apostrophe) stays visible.
+ */
+export const renderGlyphImage = (glyph: VectorGlyph, metrics: FontMetrics, size = 256): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, size, size);
+
+  const height = metrics.ascender - metrics.descender;
+  const scale = (size * 0.8) / Math.max(height, glyph.advanceWidth);
+  // Outlines are in font units, y up
+  ctx.translate((size - glyph.advanceWidth * scale) / 2, (size - height * scale) / 2 + metrics.ascender * scale);
+  ctx.scale(scale, -scale);
+  ctx.fillStyle = '#000';
+  ctx.fill(new Path2D(glyph.svgPath), 'evenodd');
+  return canvas.toDataURL('image/png');
+};
+
+// Names given at extraction, replaced by the character's glyph name when a guess is accepted
+const PLACEHOLDER_NAME = /^Glyph \d/;
+
+export const acceptGuess = (glyph: VectorGlyph, guess: CharacterGuess): VectorGlyph => ({
+  ...glyph,
+  codepoints: [guess.codepoint],
+  name: PLACEHOLDER_NAME.test(glyph.name) ? glyphNameForCodepoint(guess.codepoint) : glyph.name
+});
+
+export const identifyGlyph = (
+  identifier: CharacterIdentifier,
+  glyph: VectorGlyph,
+  metrics: FontMetrics,
+  options: ImageEditOptions
+): Promise<CharacterGuess[]> => {
+  const image = renderGlyphImage(glyph, metrics);
+  return withRetries(signal => identifier.identifyCharacter(glyph, image, signal), options);
+};
+
+// Failures that would recur for every later glyph, so a batch stops at them
+const BATCH_STOPPING_ERRORS = new Set<ImageEditErrorKind>(['cancelled', 'quota', 'auth']);
+
+/**
+ * Identifies `glyphs` one after another, reporting each result as it comes.
+ * A glyph that could not be identified gets no guesses and the batch goes
+ * on; cancelling, a spent quota or a rejected key end it with that error.
+ */
+export const identifyGlyphs = async (
+  identifier: CharacterIdentifier,
+  glyphs: VectorGlyph[],
+  metrics: FontMetrics,
+  options: ImageEditOptions & { onResult: (glyphId: string, guesses: CharacterGuess[]) => void }
+): Promise<void> => {
+  for (const glyph of glyphs) {
+    try {
+      options.onResult(glyph.id, await identifyGlyph(identifier, glyph, metrics, options));
+    } catch (err) {
+      const error = toImageEditError(err);
+      if (BATCH_STOPPING_ERRORS.has(error.kind)) throw error;
+      console.warn(`Could not identify "${glyph.name}":`, error);
+      options.onResult(glyph.id, []);
+    }
+  }
+};
@@ -0,0 +1,362 @@
+import { VectorGlyph } from '../types';
+import { Vec, contoursBounds, contoursToSvgPath, flattenContour, parseSvgPath, transformContours } from './svgPath';
+import { nestContours, shapesToSvgPath, traceContours } from './tracer';
+
+/**
+ * Grouping of repeated samples of a letter.
+ *
+ * A manuscript yields many extractions of each character. Samples are
+ * compared by their outlines rasterized into a small grid at a common size,
+ * grouped by shape, and a group can be stood for in the font either by one
+ * of its samples or by a consensus outline averaged from all of them. The
+ * other samples stay in the project, marked with `sampleOf`, and are left
+ * out of the font.
+ */
+
+interface Box {
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+}
+
+const outlineBox = (glyph: VectorGlyph): Box | null => {
+  try {
+    return contoursBounds(parseSvgPath(glyph.svgPath));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Even-odd fill of an outline into a `width` x `height` grid of pixel
+ * centres. `box` (font units) is stretched onto the grid inside `margin`
+ * pixels; row 0 is the top.
+ */
+const rasterize = (svgPath: string, box: Box, width: number, height: number, margin: number): Uint8Array => {
+  const raster = new Uint8Array(width * height);
+  let polygons: Vec[][];
+  try {
+    polygons = parseSvgPath(svgPath).map(c => flattenContour(c));
+  } catch {
+    return raster;
+  }
+  const sx = (width - 2 * margin) / Math.max(1e-6, box.xMax - box.xMin);
+  const sy = (height - 2 * margin) / Math.max(1e-6, box.yMax - box.yMin);
+  const edges = polygons.flatMap(poly =>
+    poly.map((p, i) => {
+      const q = poly[(i + 1) % poly.length];
+      return [
+        { x: margin + (p.x - box.xMin) * sx, y: margin + (box.yMax - p.y) * sy },
+        { x: margin + (q.x - box.xMin) * sx, y: margin + (box.yMax - q.y) * sy }
+      ];
+    })
+  );
+
+  for (let row = 0; row < height; row++) {
+    const y = row + 0.5;
+    const crossings: number[] = [];
+    for (const [a, b] of edges) {
+      if ((a.y > y) !== (b.y > y)) crossings.push(a.x + ((y - a.y) * (b.x - a.x)) / (b.y - a.y));
+    }
+    crossings.sort((a, b) => a - b);
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      const from = Math.max(0, Math.ceil(crossings[i] - 0.5));
+      const to = Math.min(width - 1, Math.floor(crossings[i + 1] - 0.5));
+      for (let col = from; col <= to; col++) raster[row * width + col] = 1;
+    }
+  }
+  return raster;
+};
+
+const GRID = 24;
+
+export interface ShapeDescriptor {
+  // Blurred coverage of the outline fitted into a GRID x GRID square, aspect ratio kept
+  cells: Float32Array;
+  aspect: number;
+}
+
+export const describeShape = (glyph: VectorGlyph): ShapeDescriptor | null => {
+  const box = outlineBox(glyph);
+  if (!box) return null;
+  const w = box.xMax - box.xMin;
+  const h = box.yMax - box.yMin;
+  const side = Math.max(w, h, 1e-6);
+  // A square around the outline's centre, so narrow letters are not stretched
+  const square = {
+    xMin: box.xMin - (side - w) / 2,
+    xMax: box.xMax + (side - w) / 2,
+    yMin: box.yMin - (side - h) / 2,
+    yMax: box.yMax + (side - h) / 2
+  };
+  const raster = rasterize(glyph.svgPath, square, GRID, GRID, 1);
+
+  // A 3x3 box blur, so strokes a pixel apart still overlap
+  const cells = new Float32Array(GRID * GRID);
+  for (let y = 0; y < GRID; y++) {
+    for (let x = 0; x < GRID; x++) {
+      let sum = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < GRID && ny < GRID) sum += raster[ny * GRID + nx];
+        }
+      }
+      cells[y * GRID + x] = sum / 9;
+    }
+  }
+  return { cells, aspect: Math.max(w, 1e-6) / Math.max(h, 1e-6) };
+};
+
+/**
+ * Dissimilarity of two shapes, 0 for identical ones: one minus the overlap
+ * of their coverage, plus a penalty for differing proportions.
+ */
+export const shapeDistance = (a: ShapeDescriptor, b: ShapeDescriptor): number => {
+  let min = 0;
+  let max = 0;
+  for (let i = 0; i < a.cells.length; i++) {
+    min += Math.min(a.cells[i], b.cells[i]);
+    max += Math.max(a.cells[i], b.cells[i]);
+  }
+  const overlap = max > 0 ? min / max : 1;
+  return 1 - overlap + 0.25 * Math.abs(Math.log(a.aspect / b.aspect));
+};
+
+export interface GlyphCluster {
+  glyphIds: string[];
+  // The sample closest to all the others
+  typicalId: string;
+}
+
+export const DEFAULT_CLUSTER_DISTANCE = 0.35;
+
+/**
+ * Every merge of average-linkage clustering of glyphs by shape, from single
+ * glyphs up to one group, so that groups for any distance can be read off
+ * without clustering again. Glyphs with an empty outline take no part.
+ */
+export interface ShapeDendrogram {
+  ids: string[];
+  blankIds: string[];
+  // Pairwise shape distances, `ids.length` squared
+  distances: Float32Array;
+  // Each merge joins the groups holding glyphs `a` and `b`, at the average distance between them
+  merges: { a: number; b: number; distance: number }[];
+}
+
+/**
+ * Builds the dendrogram with the nearest-neighbour chain algorithm: follow
+ * nearest neighbours until two groups are each other's nearest, and merge
+ * them. Average linkage never brings a merged group closer to a third than
+ * its parts were, so this finds the same merges as always merging the
+ * closest pair, in O(n²) rather than O(n³).
+ */
+export const buildShapeDendrogram = (glyphs: VectorGlyph[]): ShapeDendrogram => {
+  const described = glyphs.map(g => ({ id: g.id, shape: describeShape(g) }));
+  const items = described.filter(d => d.shape !== null) as { id: string; shape: ShapeDescriptor }[];
+  const n = items.length;
+
+  const distances = new Float32Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const d = shapeDistance(items[i].shape, items[j].shape);
+      distances[i * n + j] = d;
+      distances[j * n + i] = d;
+    }
+  }
+
+  // Distances between groups, kept in the row and column of one member of each
+  const dist = Float64Array.from(distances);
+  const size = new Array<number>(n).fill(1);
+  const active = new Array<boolean>(n).fill(true);
+  const merges: ShapeDendrogram['merges'] = [];
+  const chain: number[] = [];
+
+  for (let remaining = n; remaining > 1; remaining--) {
+    if (chain.length === 0) chain.push(active.indexOf(true));
+    let a: number;
+    let b: number;
+    let best: number;
+    for (;;) {
+      a = chain[chain.length - 1];
+      // Ties go to the previous link, so the chain cannot cycle
+      b = chain.length > 1 ? chain[chain.length - 2] : -1;
+      best = b >= 0 ? dist[a * n + b] : Infinity;
+      for (let k = 0; k < n; k++) {
+        if (active[k] && k !== a && dist[a * n + k] < best) {
+          best = dist[a * n + k];
+          b = k;
+        }
+      }
+      if (chain.length > 1 && b === chain[chain.length - 2]) break;
+      chain.push(b);
+    }
+    chain.length -= 2;
+
+    // Average linkage: the merged group's distance is the size-weighted mean
+    const keep = Math.min(a, b);
+    const drop = Math.max(a, b);
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === keep || k === drop) continue;
+      const d = (dist[keep * n + k] * size[keep] + dist[drop * n + k] * size[drop]) / (size[keep] + size[drop]);
+      dist[keep * n + k] = d;
+      dist[k * n + keep] = d;
+    }
+    size[keep] += size[drop];
+    active[drop] = false;
+    merges.push({ a: keep, b: drop, distance: best });
+  }
+
+  return {
+    ids: items.map(i => i.id),
+    blankIds: described.filter(d => d.shape === null).map(d => d.id),
+    distances,
+    merges
+  };
+};
+
+/**
+ * Groups of similar shape: the merges of the dendrogram no further apart
+ * than `maxDistance`. Glyphs with an empty outline form groups of their own.
+ * Groups come largest first.
+ */
+export const cutDendrogram = (dendrogram: ShapeDendrogram, maxDistance = DEFAULT_CLUSTER_DISTANCE): GlyphCluster[] => {
+  const { ids, distances } = dendrogram;
+  const n = ids.length;
+  const parent = ids.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  dendrogram.merges.forEach(m => {
+    if (m.distance <= maxDistance) parent[find(m.b)] = find(m.a);
+  });
+
+  const groups = new Map<number, number[]>();
+  ids.forEach((_, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(i);
+  });
+  const clusters = [...groups.values()].map(members => {
+    const totals = members.map(m => members.reduce((sum, k) => sum + distances[m * n + k], 0));
+    const typical = members[totals.indexOf(Math.min(...totals))];
+    return { glyphIds: members.map(i => ids[i]), typicalId: ids[typical] };
+  });
+  const blanks = dendrogram.blankIds.map(id => ({ glyphIds: [id], typicalId: id }));
+  return [...clusters, ...blanks].sort((a, b) => b.glyphIds.length - a.glyphIds.length);
+};
+
+// The member closest to all the others
+const typicalOf = (glyphs: VectorGlyph[]): string => {
+  const shapes = glyphs.map(describeShape);
+  const totals = shapes.map((a, i) => shapes.reduce((sum, b, k) => sum + (k === i ? 0 : a && b ? shapeDistance(a, b) : 2), 0));
+  return glyphs[totals.indexOf(Math.min(...totals))].id;
+};
+
+/**
+ * Groups glyphs by the character they are assigned, whatever their shape.
+ * Unassigned glyphs are left out.
+ */
+export const groupByCharacter = (glyphs: VectorGlyph[]): GlyphCluster[] => {
+  const byCharacter = new Map<number, VectorGlyph[]>();
+  glyphs.filter(g => g.codepoints.length > 0).forEach(g => {
+    byCharacter.set(g.codepoints[0], [...(byCharacter.get(g.codepoints[0]) ?? []), g]);
+  });
+  return [...byCharacter.values()]
+    .map(members => ({ glyphIds: members.map(g => g.id), typicalId: typicalOf(members) }))
+    .sort((a, b) => b.glyphIds.length - a.glyphIds.length);
+};
+
+// The codepoints most of the samples carry, so a group can be named after its character
+export const majorityCodepoints = (glyphs: VectorGlyph[]): number[] => {
+  const counts = new Map<string, { codepoints: number[]; count: number }>();
+  glyphs.filter(g => g.codepoints.length > 0).forEach(g => {
+    const key = g.codepoints.join(',');
+    counts.set(key, { codepoints: g.codepoints, count: (counts.get(key)?.count ?? 0) + 1 });
+  });
+  return [...counts.values()].sort((a, b) => b.count - a.count)[0]?.codepoints ?? [];
+};
+
+const CONSENSUS_RESOLUTION = 128;
+
+/**
+ * An outline averaged from several samples. Each sample is stretched onto
+ * the mean bounding box and rasterized; pixels covered by at least half of
+ * the samples are traced and fitted with curves. The advance width is the
+ * mean of the samples', so the sidebearings are averaged too.
+ */
+export const buildConsensusGlyph = (samples: VectorGlyph[]): VectorGlyph => {
+  const boxed = samples.map(g => ({ glyph: g, box: outlineBox(g) })).filter(s => s.box !== null) as { glyph: VectorGlyph; box: Box }[];
+  if (boxed.length === 0) throw new Error('The samples have no outlines to average.');
+
+  const mean = (pick: (b: Box) => number) => boxed.reduce((sum, s) => sum + pick(s.box), 0) / boxed.length;
+  const box: Box = { xMin: mean(b => b.xMin), yMin: mean(b => b.yMin), xMax: mean(b => b.xMax), yMax: mean(b => b.yMax) };
+  const w = Math.max(1e-6, box.xMax - box.xMin);
+  const h = Math.max(1e-6, box.yMax - box.yMin);
+  const scale = CONSENSUS_RESOLUTION / Math.max(w, h);
+  const margin = 2;
+  const width = Math.max(1, Math.round(w * scale)) + 2 * margin;
+  const height = Math.max(1, Math.round(h * scale)) + 2 * margin;
+
+  const votes = new Uint16Array(width * height);
+  boxed.forEach(s => rasterize(s.glyph.svgPath, s.box, width, height, margin).forEach((v, i) => { votes[i] += v; }));
+  const mask = new Uint8Array(width * height);
+  votes.forEach((v, i) => { mask[i] = v * 2 >= boxed.length ? 1 : 0; });
+
+  const pixelPath = shapesToSvgPath(nestContours(traceContours(mask, width, height)), 1);
+  const sx = w / (width - 2 * margin);
+  const sy = h / (height - 2 * margin);
+  const contours = transformContours(parseSvgPath(pixelPath), p => ({
+    x: Math.round((box.xMin + (p.x - margin) * sx) * 10) / 10,
+    y: Math.round((box.yMax - (p.y - margin) * sy) * 10) / 10
+  }));
+
+  const stamp = Date.now();
+  return {
+    id: `${stamp}-consensus`,
+    svgPath: contoursToSvgPath(contours),
+    advanceWidth: Math.round(samples.reduce((sum, g) => sum + g.advanceWidth, 0) / samples.length),
+    name: `Consensus ${stamp.toString().slice(-4)}`,
+    codepoints: majorityCodepoints(samples),
+    consensus: true
+  };
+};
+
+// The characters a representative stands for: its own, or if it has none those most of the group carries
+export const representedCodepoints = (representative: VectorGlyph, members: VectorGlyph[]): number[] =>
+  representative.codepoints.length ? representative.codepoints : majorityCodepoints(members);
+
+/**
+ * Members carrying a character the representative does not, such as an I
+ * grouped by shape with l. Making them samples would drop that character
+ * from the font, so markSamples leaves them out.
+ */
+export const conflictingMembers = (members: VectorGlyph[], codepoints: number[]): VectorGlyph[] =>
+  members.filter(g => g.codepoints.some(cp => !codepoints.includes(cp)));
+
+/**
+ * Lets `representativeId` stand for the group in the font: the other
+ * members, and any samples they stood for, become its samples. A
+ * representative without codepoints takes those most of the group carries.
+ * Members carrying other characters stay in the font.
+ */
+export const markSamples = (glyphs: VectorGlyph[], memberIds: string[], representativeId: string): VectorGlyph[] => {
+  const representative = glyphs.find(g => g.id === representativeId);
+  if (!representative) return glyphs;
+  const group = glyphs.filter(g => memberIds.includes(g.id));
+  const codepoints = representedCodepoints(representative, group);
+  const conflicting = new Set(conflictingMembers(group, codepoints).map(g => g.id));
+  const members = new Set(memberIds.filter(id => id !== representativeId && !conflicting.has(id)));
+  return glyphs.map(g => {
+    if (g.id === representativeId) {
+      return { ...g, sampleOf: undefined, codepoints };
+    }
+    if (members.has(g.id) || (g.sampleOf && members.has(g.sampleOf))) return { ...g, sampleOf: representativeId };
+    return g;
+  });
+};
+
+// Puts the samples of a glyph back into the font as glyphs of their own
+export const releaseSamples = (glyphs: VectorGlyph[], representativeId: string): VectorGlyph[] =>
+  glyphs.map(g => (g.sampleOf === representativeId ? { ...g, sampleOf: undefined } : g));
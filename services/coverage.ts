@@ -0,0 +1,126 @@
+import { VectorGlyph } from '../types';
+import { codepointPreview, formatCodepoint, glyphNameForCodepoint, parseCodepointInput, parseCodepointSequence } from './unicode';
+
+/**
+ * Coverage of a target character repertoire: which of the characters the
+ * font is meant to have already have a glyph.
+ *
+ * Built-in repertoires are Unicode blocks and script sets; projects can add
+ * their own lists, typed in or loaded from a text file.
+ */
+
+export interface Repertoire {
+  id: string;
+  name: string;
+  codepoints: number[];
+}
+
+export interface CoverageSettings {
+  // Repertoires defined in the project
+  repertoires: Repertoire[];
+  targetId: string | null;
+}
+
+export const DEFAULT_COVERAGE: CoverageSettings = { repertoires: [], targetId: null };
+
+// Characters worth drawing: unassigned, control, surrogate and private use codepoints are left out
+const isDrawable = (cp: number): boolean => !/[\p{Cn}\p{Cc}\p{Cs}\p{Co}]/u.test(String.fromCodePoint(cp));
+
+const ranges = (...spans: [number, number][]): number[] =>
+  spans.flatMap(([from, to]) => Array.from({ length: to - from + 1 }, (_, i) => from + i)).filter(isDrawable);
+
+export const BUILTIN_REPERTOIRES: Repertoire[] = [
+  { id: 'basic-latin', name: 'Basic Latin', codepoints: ranges([0x20, 0x7e]) },
+  { id: 'latin-1', name: 'Latin-1 Supplement', codepoints: ranges([0xa0, 0xff]) },
+  { id: 'latin-extended-a', name: 'Latin Extended-A', codepoints: ranges([0x100, 0x17f]) },
+  { id: 'greek', name: 'Greek and Coptic', codepoints: ranges([0x370, 0x3ff]) },
+  { id: 'cyrillic', name: 'Cyrillic', codepoints: ranges([0x400, 0x4ff]) },
+  {
+    id: 'old-cyrillic',
+    name: 'Old Cyrillic',
+    // The modern alphabet, the historic letters and titlo, and the Extended-A and -B blocks
+    codepoints: ranges([0x410, 0x44f], [0x460, 0x489], [0x2de0, 0x2dff], [0xa640, 0xa69f])
+  },
+  { id: 'devanagari', name: 'Devanagari', codepoints: ranges([0x900, 0x97f]) },
+  { id: 'grantha', name: 'Grantha', codepoints: ranges([0x11300, 0x1137f]) },
+  { id: 'runic', name: 'Runic', codepoints: ranges([0x16a0, 0x16ff]) },
+  { id: 'gothic', name: 'Gothic', codepoints: ranges([0x10330, 0x1034f]) }
+];
+
+export const findRepertoire = (settings: CoverageSettings, id: string | null): Repertoire | undefined =>
+  [...BUILTIN_REPERTOIRES, ...settings.repertoires].find(r => r.id === id);
+
+/**
+ * Parses a repertoire list: characters (words are spelled out), U+XXXX
+ * codepoints and U+XXXX..U+YYYY ranges, separated by spaces, commas or line
+ * breaks. A # starting a word comments out the rest of the line, so the
+ * number sign itself is written U+0023. Repeats are dropped.
+ */
+export const parseRepertoire = (text: string): number[] => {
+  const result = new Set<number>();
+  for (const line of text.split('\n')) {
+    const content = line.replace(/(^|\s)#.*$/, '');
+    for (const token of content.split(/[\s,;]+/).filter(Boolean)) {
+      const range = token.match(/^((?:U\+|0x)?[0-9a-f]{1,6})(?:\.\.|-)((?:U\+|0x)?[0-9a-f]{1,6})$/i);
+      if (range && /^(U\+|0x)/i.test(range[1])) {
+        const [from] = parseCodepointInput(range[1]);
+        const [to] = parseCodepointInput(/^(U\+|0x)/i.test(range[2]) ? range[2] : `U+${range[2]}`);
+        if (to < from) throw new Error(`"${token}" is a range that runs backwards`);
+        if (to - from > 0xffff) throw new Error(`"${token}" is too large a range`);
+        for (let cp = from; cp <= to; cp++) result.add(cp);
+      } else {
+        parseCodepointSequence(token).forEach(cp => result.add(cp));
+      }
+    }
+  }
+  return [...result];
+};
+
+export const createRepertoireId = (): string => `repertoire-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * The font glyph covering each codepoint of the repertoire, or null. As in
+ * the exported font, samples do not count and the first of several glyphs
+ * claiming a codepoint is the one used.
+ */
+export const computeCoverage = (repertoire: Repertoire, glyphs: VectorGlyph[]): Map<number, VectorGlyph | null> => {
+  const cmap = new Map<number, VectorGlyph>();
+  glyphs.filter(g => !g.sampleOf).forEach(g => g.codepoints.forEach(cp => { if (!cmap.has(cp)) cmap.set(cp, g); }));
+  return new Map(repertoire.codepoints.map(cp => [cp, cmap.get(cp) ?? null]));
+};
+
+export interface CoverageRow {
+  codepoint: string;
+  character: string;
+  glyphName: string;
+  status: 'covered' | 'missing';
+  glyphLabel: string;
+}
+
+export const buildCoverageReport = (repertoire: Repertoire, glyphs: VectorGlyph[]): CoverageRow[] =>
+  [...computeCoverage(repertoire, glyphs)].map(([cp, glyph]) => ({
+    codepoint: formatCodepoint(cp),
+    character: codepointPreview(cp),
+    glyphName: glyphNameForCodepoint(cp),
+    status: glyph ? 'covered' : 'missing',
+    glyphLabel: glyph?.name ?? ''
+  }));
+
+export const coverageReportToCsv = (rows: CoverageRow[]): string => {
+  const escape = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  const header = ['codepoint', 'character', 'glyphName', 'status', 'glyphLabel'];
+  return [header.join(','), ...rows.map(r => header.map(k => escape(r[k as keyof CoverageRow])).join(','))].join('\n') + '\n';
+};
+
+export const coverageReportToJson = (repertoire: Repertoire, rows: CoverageRow[]): string =>
+  JSON.stringify(
+    {
+      repertoire: repertoire.name,
+      total: rows.length,
+      covered: rows.filter(r => r.status === 'covered').length,
+      missing: rows.filter(r => r.status === 'missing').map(r => r.codepoint),
+      rows
+    },
+    null,
+    2
+  );
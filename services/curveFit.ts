@@ -0,0 +1,253 @@
+import { PathContour, PathSegment, Vec } from './svgPath';
+
+/**
+ * Turns the pixel-staircase polygons produced by the tracer into outlines
+ * made of lines and cubic Béziers.
+ *
+ * The outline is resampled at unit spacing, split at corners, smoothed, and
+ * each run between corners is fitted with cubics by least squares (Schneider,
+ * "An Algorithm for Automatically Fitting Digitized Curves", Graphics Gems),
+ * subdividing wherever the fit strays further than the tolerance.
+ */
+
+// Neighbourhood, in samples, used to measure the turning angle at each point
+const CORNER_SPAN = 4;
+// Points that turn sharper than this (interior angle, in degrees) are kept as corners
+const CORNER_ANGLE = 135;
+const MAX_REPARAMETERIZE = 4;
+
+const add = (a: Vec, b: Vec): Vec => ({ x: a.x + b.x, y: a.y + b.y });
+const sub = (a: Vec, b: Vec): Vec => ({ x: a.x - b.x, y: a.y - b.y });
+const scale = (a: Vec, s: number): Vec => ({ x: a.x * s, y: a.y * s });
+const dot = (a: Vec, b: Vec): number => a.x * b.x + a.y * b.y;
+const dist = (a: Vec, b: Vec): number => Math.hypot(a.x - b.x, a.y - b.y);
+const normalize = (a: Vec): Vec => {
+  const len = Math.hypot(a.x, a.y);
+  return len === 0 ? a : { x: a.x / len, y: a.y / len };
+};
+
+type Bezier = [Vec, Vec, Vec, Vec];
+
+const bezierPoint = (b: Bezier, t: number): Vec => {
+  const mt = 1 - t;
+  const w0 = mt * mt * mt, w1 = 3 * mt * mt * t, w2 = 3 * mt * t * t, w3 = t * t * t;
+  return {
+    x: w0 * b[0].x + w1 * b[1].x + w2 * b[2].x + w3 * b[3].x,
+    y: w0 * b[0].y + w1 * b[1].y + w2 * b[2].y + w3 * b[3].y
+  };
+};
+
+// Resamples a closed polygon so consecutive points are about one unit apart
+const resample = (polygon: Vec[]): Vec[] => {
+  const out: Vec[] = [];
+  for (let i = 0; i < polygon.length; i++) {
+    const a = polygon[i];
+    const b = polygon[(i + 1) % polygon.length];
+    const steps = Math.max(1, Math.round(dist(a, b)));
+    for (let s = 0; s < steps; s++) out.push(add(a, scale(sub(b, a), s / steps)));
+  }
+  return out;
+};
+
+// Indices of corner points, keeping only the sharpest point of each cluster
+const findCorners = (pts: Vec[]): number[] => {
+  const n = pts.length;
+  const span = Math.min(CORNER_SPAN, Math.floor(n / 4));
+  if (span < 1) return [];
+
+  // Angles are measured on a lightly blurred copy so single-pixel steps do not read as corners
+  let blurred = pts;
+  for (let pass = 0; pass < 2; pass++) {
+    blurred = blurred.map((p, i) => {
+      const a = blurred[(i - 1 + n) % n];
+      const b = blurred[(i + 1) % n];
+      return { x: (a.x + 2 * p.x + b.x) / 4, y: (a.y + 2 * p.y + b.y) / 4 };
+    });
+  }
+
+  const limit = Math.cos((CORNER_ANGLE * Math.PI) / 180);
+  const sharpness = blurred.map((p, i) => {
+    const a = normalize(sub(blurred[(i - span + n) % n], p));
+    const b = normalize(sub(blurred[(i + span) % n], p));
+    return dot(a, b);
+  });
+
+  const corners: number[] = [];
+  for (let i = 0; i < n; i++) {
+    if (sharpness[i] <= limit) continue;
+    let isPeak = true;
+    for (let d = 1; d <= span && isPeak; d++) {
+      // Ties go to the earlier point so a symmetric cluster yields exactly one corner
+      if (sharpness[(i + d) % n] > sharpness[i] || sharpness[(i - d + n) % n] >= sharpness[i]) isPeak = false;
+    }
+    if (isPeak) corners.push(i);
+  }
+  return corners;
+};
+
+// Two passes of a [1 2 1] filter; the end points stay put so corners remain sharp
+const smooth = (pts: Vec[]): Vec[] => {
+  let cur = pts;
+  for (let pass = 0; pass < 2; pass++) {
+    cur = cur.map((p, i) =>
+      i === 0 || i === cur.length - 1
+        ? p
+        : { x: (cur[i - 1].x + 2 * p.x + cur[i + 1].x) / 4, y: (cur[i - 1].y + 2 * p.y + cur[i + 1].y) / 4 }
+    );
+  }
+  return cur;
+};
+
+const chordLengthParameterize = (pts: Vec[]): number[] => {
+  const u = [0];
+  for (let i = 1; i < pts.length; i++) u.push(u[i - 1] + dist(pts[i], pts[i - 1]));
+  const total = u[u.length - 1] || 1;
+  return u.map(v => v / total);
+};
+
+// Least-squares placement of the inner control points along the given end tangents
+const generateBezier = (pts: Vec[], u: number[], tHat1: Vec, tHat2: Vec): Bezier => {
+  const first = pts[0];
+  const last = pts[pts.length - 1];
+  let c00 = 0, c01 = 0, c11 = 0, x0 = 0, x1 = 0;
+
+  for (let i = 0; i < pts.length; i++) {
+    const t = u[i];
+    const mt = 1 - t;
+    const b0 = mt * mt * mt, b1 = 3 * mt * mt * t, b2 = 3 * mt * t * t, b3 = t * t * t;
+    const a1 = scale(tHat1, b1);
+    const a2 = scale(tHat2, b2);
+    c00 += dot(a1, a1);
+    c01 += dot(a1, a2);
+    c11 += dot(a2, a2);
+    const tmp = sub(pts[i], add(scale(first, b0 + b1), scale(last, b2 + b3)));
+    x0 += dot(a1, tmp);
+    x1 += dot(a2, tmp);
+  }
+
+  const det = c00 * c11 - c01 * c01;
+  let alphaL = det === 0 ? 0 : (x0 * c11 - x1 * c01) / det;
+  let alphaR = det === 0 ? 0 : (c00 * x1 - c01 * x0) / det;
+
+  // Degenerate or backwards handles fall back to the usual one-third heuristic
+  const segLength = dist(first, last);
+  if (alphaL < segLength * 1e-6 || alphaR < segLength * 1e-6) {
+    alphaL = alphaR = segLength / 3;
+  }
+  return [first, add(first, scale(tHat1, alphaL)), add(last, scale(tHat2, alphaR)), last];
+};
+
+// One Newton-Raphson step towards the parameter of the curve point closest to p
+const newtonRaphson = (b: Bezier, p: Vec, t: number): number => {
+  const d1: Vec[] = [0, 1, 2].map(i => scale(sub(b[i + 1], b[i]), 3));
+  const d2: Vec[] = [0, 1].map(i => scale(sub(d1[i + 1], d1[i]), 2));
+  const mt = 1 - t;
+  const q = bezierPoint(b, t);
+  const q1 = add(add(scale(d1[0], mt * mt), scale(d1[1], 2 * mt * t)), scale(d1[2], t * t));
+  const q2 = add(scale(d2[0], mt), scale(d2[1], t));
+  const diff = sub(q, p);
+  const denominator = dot(q1, q1) + dot(diff, q2);
+  return denominator === 0 ? t : t - dot(diff, q1) / denominator;
+};
+
+const maxError = (pts: Vec[], b: Bezier, u: number[]): { error: number; index: number } => {
+  let error = 0;
+  let index = Math.floor(pts.length / 2);
+  for (let i = 1; i < pts.length - 1; i++) {
+    const d = dist(bezierPoint(b, u[i]), pts[i]);
+    if (d > error) {
+      error = d;
+      index = i;
+    }
+  }
+  return { error, index };
+};
+
+const fitCubics = (pts: Vec[], tHat1: Vec, tHat2: Vec, tolerance: number, out: Bezier[]) => {
+  if (pts.length === 2) {
+    const d = dist(pts[0], pts[1]) / 3;
+    out.push([pts[0], add(pts[0], scale(tHat1, d)), add(pts[1], scale(tHat2, d)), pts[1]]);
+    return;
+  }
+
+  let u = chordLengthParameterize(pts);
+  let bezier = generateBezier(pts, u, tHat1, tHat2);
+  let { error, index } = maxError(pts, bezier, u);
+  if (error <= tolerance) {
+    out.push(bezier);
+    return;
+  }
+
+  // A near miss is often fixed by moving the parameters closer to the curve
+  if (error <= tolerance * 4) {
+    for (let i = 0; i < MAX_REPARAMETERIZE; i++) {
+      u = u.map((t, j) => newtonRaphson(bezier, pts[j], t));
+      bezier = generateBezier(pts, u, tHat1, tHat2);
+      ({ error, index } = maxError(pts, bezier, u));
+      if (error <= tolerance) {
+        out.push(bezier);
+        return;
+      }
+    }
+  }
+
+  const tHatCenter = normalize(sub(pts[index - 1], pts[index + 1]));
+  fitCubics(pts.slice(0, index + 1), tHat1, tHatCenter, tolerance, out);
+  fitCubics(pts.slice(index), scale(tHatCenter, -1), tHat2, tolerance, out);
+};
+
+// Direction leaving pts[0], averaged over a few samples to ride out residual jaggies
+const endTangent = (pts: Vec[], from: number, step: number): Vec => {
+  const reach = Math.min(CORNER_SPAN, pts.length - 1);
+  return normalize(sub(pts[from + step * reach], pts[from]));
+};
+
+// A run between two corners: a line when every point is within tolerance of the chord, cubics otherwise
+const fitRun = (run: Vec[], tolerance: number, tHat1?: Vec, tHat2?: Vec): PathSegment[] => {
+  const first = run[0];
+  const last = run[run.length - 1];
+  const chord = sub(last, first);
+  const chordLength = Math.hypot(chord.x, chord.y);
+  const straight = chordLength > 0 && run.every(p => Math.abs(chord.x * (p.y - first.y) - chord.y * (p.x - first.x)) / chordLength <= tolerance);
+  if (straight) return [{ type: 'L', x: last.x, y: last.y }];
+
+  const smoothed = smooth(run);
+  const beziers: Bezier[] = [];
+  fitCubics(
+    smoothed,
+    tHat1 || endTangent(smoothed, 0, 1),
+    tHat2 || endTangent(smoothed, smoothed.length - 1, -1),
+    tolerance,
+    beziers
+  );
+  return beziers.map(b => ({ type: 'C', x1: b[1].x, y1: b[1].y, x2: b[2].x, y2: b[2].y, x: b[3].x, y: b[3].y }));
+};
+
+/**
+ * Fits a closed traced polygon with lines and cubics that stay within `tolerance` (in pixels).
+ */
+export const fitContour = (polygon: Vec[], tolerance: number): PathContour => {
+  const pts = resample(polygon);
+  const n = pts.length;
+  // Too small to fit meaningfully: keep the polygon
+  if (n < 8) {
+    return { start: polygon[0], segments: polygon.slice(1).map(p => ({ type: 'L', x: p.x, y: p.y })), closed: true };
+  }
+
+  const corners = findCorners(pts);
+  if (corners.length === 0) {
+    // A smooth loop (an "o", a dot): close it on itself with a shared tangent at the seam
+    const loop = [...pts, pts[0]];
+    const seam = normalize(sub(pts[1], pts[n - 1]));
+    return { start: pts[0], segments: fitRun(loop, tolerance, seam, scale(seam, -1)), closed: true };
+  }
+
+  const segments: PathSegment[] = [];
+  corners.forEach((c, i) => {
+    const next = corners[(i + 1) % corners.length];
+    const length = ((next - c + n - 1) % n) + 1;
+    const run = Array.from({ length: length + 1 }, (_, k) => pts[(c + k) % n]);
+    segments.push(...fitRun(run, tolerance));
+  });
+  return { start: pts[corners[0]], segments, closed: true };
+};
@@ -0,0 +1,193 @@
+import { BoundingBox } from '../types';
+
+/**
+ * The edit history of a page image as a tree. The root is the page as it was
+ * loaded and every other node is one edit of its parent; editing after an
+ * undo starts a new branch instead of discarding the old one.
+ *
+ * Images are kept as Blobs, which take a third less memory than base64 data
+ * URLs and live outside the JS heap; only the image being shown is a data
+ * URL. Each node also keeps a small thumbnail for the history panel.
+ */
+
+export type EditOperation =
+  | { kind: 'original' }
+  | { kind: 'prompt'; prompt: string; provider: string; model: string; region?: BoundingBox }
+  | { kind: 'filter'; name: string; params: Record<string, number> }
+  // Edits from files saved before operations were recorded
+  | { kind: 'earlier' };
+
+export interface HistoryNode {
+  id: string;
+  parentId: string | null;
+  operation: EditOperation;
+  // The image after the operation
+  image: Blob;
+  // Small JPEG data URL; empty until made for nodes read from older files
+  thumbnail: string;
+  createdAt: number;
+}
+
+export interface EditHistory {
+  nodes: HistoryNode[];
+  currentId: string;
+  // Child of a node that redo goes to: the one last created or visited
+  redoIds: Record<string, string>;
+}
+
+const THUMBNAIL_SIZE = 96;
+
+export const createHistoryNodeId = (): string => `edit-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Decodes synchronously, so project files can be read without awaiting every image
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const [header, data = ''] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+  if (!/;base64$/.test(header)) return new Blob([decodeURIComponent(data)], { type: mimeType });
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const createThumbnail = (src: string, size = THUMBNAIL_SIZE): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, size / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = () => reject(new Error('The image could not be decoded'));
+    img.src = src;
+  });
+
+export const createHistoryNode = async (parentId: string | null, operation: EditOperation, image: string): Promise<HistoryNode> => ({
+  id: createHistoryNodeId(),
+  parentId,
+  operation,
+  image: dataUrlToBlob(image),
+  // A thumbnail that fails is made again later by fillThumbnails
+  thumbnail: await createThumbnail(image).catch(() => ''),
+  createdAt: Date.now()
+});
+
+export const startHistory = async (image: string): Promise<EditHistory> => {
+  const root = await createHistoryNode(null, { kind: 'original' }, image);
+  return { nodes: [root], currentId: root.id, redoIds: {} };
+};
+
+export const findNode = (history: EditHistory, id: string): HistoryNode | undefined => history.nodes.find(n => n.id === id);
+
+export const currentNode = (history: EditHistory): HistoryNode => findNode(history, history.currentId)!;
+
+export const childrenOf = (history: EditHistory, id: string): HistoryNode[] =>
+  history.nodes.filter(n => n.parentId === id).sort((a, b) => a.createdAt - b.createdAt);
+
+// Ids from the root down to `id`
+export const pathTo = (history: EditHistory, id: string): string[] => {
+  const path: string[] = [];
+  for (let node = findNode(history, id); node; node = node.parentId ? findNode(history, node.parentId) : undefined) {
+    path.unshift(node.id);
+  }
+  return path;
+};
+
+export const undoTarget = (history: EditHistory): string | null => currentNode(history).parentId;
+
+export const redoTarget = (history: EditHistory): string | null => {
+  const remembered = history.redoIds[history.currentId];
+  if (remembered && findNode(history, remembered)) return remembered;
+  const children = childrenOf(history, history.currentId);
+  return children.length ? children[children.length - 1].id : null;
+};
+
+/**
+ * Makes `id` the current node. Redo from each node on the way down to it
+ * leads back to it.
+ */
+export const moveTo = (history: EditHistory, id: string): EditHistory => {
+  const path = pathTo(history, id);
+  const redoIds = { ...history.redoIds };
+  for (let i = 1; i < path.length; i++) redoIds[path[i - 1]] = path[i];
+  return { ...history, currentId: id, redoIds };
+};
+
+// Adds `node` under its parent and makes it current
+export const addEdit = (history: EditHistory, node: HistoryNode): EditHistory =>
+  moveTo({ ...history, nodes: [...history.nodes, node] }, node.id);
+
+export const isOnCurrentPath = (history: EditHistory, id: string): boolean => pathTo(history, history.currentId).includes(id);
+
+/**
+ * Removes a node and everything edited from it. The root and the nodes
+ * leading to the current image cannot be removed.
+ */
+export const removeBranch = (history: EditHistory, id: string): EditHistory => {
+  if (isOnCurrentPath(history, id)) return history;
+  const removed = new Set([id]);
+  // Nodes are stored parents first, so one pass finds every descendant
+  for (const node of history.nodes) if (node.parentId && removed.has(node.parentId)) removed.add(node.id);
+  const redoIds = Object.fromEntries(Object.entries(history.redoIds).filter(([from, to]) => !removed.has(from) && !removed.has(to)));
+  return { ...history, nodes: history.nodes.filter(n => !removed.has(n.id)), redoIds };
+};
+
+/**
+ * A linear history, oldest first, ending in `current`: how project files
+ * stored it before the tree.
+ */
+export const historyFromStack = (stack: string[], current: string): EditHistory => {
+  const nodes = [...stack, current].map((image, i): HistoryNode => ({
+    id: `edit-${i}`,
+    parentId: i === 0 ? null : `edit-${i - 1}`,
+    operation: i === 0 ? { kind: 'original' } : { kind: 'earlier' },
+    image: dataUrlToBlob(image),
+    thumbnail: '',
+    createdAt: i
+  }));
+  return { nodes, currentId: nodes[nodes.length - 1].id, redoIds: {} };
+};
+
+// Makes the thumbnails missing from nodes read from older files
+export const fillThumbnails = async (history: EditHistory): Promise<EditHistory> => {
+  if (history.nodes.every(n => n.thumbnail)) return history;
+  // One at a time, so only one full image is decoded at once
+  const nodes: HistoryNode[] = [];
+  for (const node of history.nodes) {
+    if (node.thumbnail) {
+      nodes.push(node);
+      continue;
+    }
+    const url = URL.createObjectURL(node.image);
+    try {
+      // An image that cannot be decoded goes without, as in createHistoryNode
+      nodes.push({ ...node, thumbnail: await createThumbnail(url).catch(() => '') });
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+  return { ...history, nodes };
+};
+
+export const describeOperation = (operation: EditOperation): string => {
+  switch (operation.kind) {
+    case 'original':
+      return 'Original';
+    case 'prompt':
+      return `${operation.region ? 'Selection: ' : ''}“${operation.prompt}”`;
+    case 'filter': {
+      const params = Object.entries(operation.params).map(([k, v]) => `${k} ${Math.round(v * 100) / 100}`);
+      return params.length ? `${operation.name} (${params.join(', ')})` : operation.name;
+    }
+    case 'earlier':
+      return 'Earlier edit';
+  }
+};
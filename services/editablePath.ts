@@ -0,0 +1,290 @@
+import { PathContour, PathSegment, Vec, contoursToSvgPath, parseSvgPath } from './svgPath';
+
+/**
+ * The node model used by the glyph editor: every subpath is a closed ring of
+ * on-curve points, and each point carries the cubic handles of the segment
+ * arriving at it. The first point of a subpath holds the handles of the
+ * closing segment, so no point is ever duplicated at the seam.
+ */
+export interface EditablePoint {
+  x: number;
+  y: number;
+  // Smooth points keep their two handles collinear while dragging
+  type: 'corner' | 'smooth';
+  subpathStart?: boolean;
+  // Handles of the incoming segment: cx1/cy1 leaves the previous point, cx2/cy2 arrives here.
+  // Both are absent when the incoming segment is a straight line.
+  cx1?: number;
+  cy1?: number;
+  cx2?: number;
+  cy2?: number;
+}
+
+export type DragTarget =
+  | { kind: 'anchor'; index: number }
+  // The handle on the incoming (in) or outgoing (out) side of the point at `index`
+  | { kind: 'in' | 'out'; index: number };
+
+// Handles within this angle (radians) of being opposite make a smooth node
+const SMOOTH_ANGLE = 0.05;
+
+const isCurve = (p: EditablePoint): boolean => p.cx1 !== undefined;
+
+export const splitSubpaths = <T extends { subpathStart?: boolean }>(points: T[]): T[][] => {
+  const subpaths: T[][] = [];
+  for (const p of points) {
+    if (p.subpathStart || subpaths.length === 0) subpaths.push([]);
+    subpaths[subpaths.length - 1].push(p);
+  }
+  return subpaths;
+};
+
+export const joinSubpaths = <T extends { subpathStart?: boolean }>(subpaths: T[][]): T[] =>
+  subpaths.filter(sp => sp.length > 0).flatMap(sp => sp.map((p, i) => ({ ...p, subpathStart: i === 0 })));
+
+// Index of the previous / next point on the same ring
+export const neighbours = (points: EditablePoint[], index: number): { prev: number; next: number } => {
+  let start = index;
+  while (start > 0 && !points[start].subpathStart) start--;
+  let end = index;
+  while (end + 1 < points.length && !points[end + 1].subpathStart) end++;
+  return {
+    prev: index === start ? end : index - 1,
+    next: index === end ? start : index + 1
+  };
+};
+
+// Handle positions of a point, if the adjacent segments are curves
+export const pointHandles = (points: EditablePoint[], index: number): { in?: Vec; out?: Vec } => {
+  const p = points[index];
+  const next = points[neighbours(points, index).next];
+  return {
+    in: isCurve(p) ? { x: p.cx2!, y: p.cy2! } : undefined,
+    out: isCurve(next) ? { x: next.cx1!, y: next.cy1! } : undefined
+  };
+};
+
+const isSmoothJoin = (p: Vec, handleIn?: Vec, handleOut?: Vec): boolean => {
+  if (!handleIn || !handleOut) return false;
+  if ((handleIn.x === p.x && handleIn.y === p.y) || (handleOut.x === p.x && handleOut.y === p.y)) return false;
+  const a = Math.atan2(p.y - handleIn.y, p.x - handleIn.x);
+  const b = Math.atan2(handleOut.y - p.y, handleOut.x - p.x);
+  return Math.abs(Math.atan2(Math.sin(a - b), Math.cos(a - b))) < SMOOTH_ANGLE;
+};
+
+const contourToPoints = (contour: PathContour): EditablePoint[] => {
+  const points: EditablePoint[] = [{ x: contour.start.x, y: contour.start.y, type: 'corner', subpathStart: true }];
+  let cur = contour.start;
+  for (const s of contour.segments) {
+    if (s.type === 'L') {
+      points.push({ x: s.x, y: s.y, type: 'corner' });
+    } else if (s.type === 'Q') {
+      // Degree elevation: the editor only manipulates cubic handles
+      points.push({
+        x: s.x, y: s.y, type: 'corner',
+        cx1: cur.x + (2 / 3) * (s.x1 - cur.x), cy1: cur.y + (2 / 3) * (s.y1 - cur.y),
+        cx2: s.x + (2 / 3) * (s.x1 - s.x), cy2: s.y + (2 / 3) * (s.y1 - s.y)
+      });
+    } else {
+      points.push({ x: s.x, y: s.y, type: 'corner', cx1: s.x1, cy1: s.y1, cx2: s.x2, cy2: s.y2 });
+    }
+    cur = { x: s.x, y: s.y };
+  }
+
+  // A final segment that returns to the start becomes the closing segment of the first point
+  const last = points[points.length - 1];
+  if (points.length > 1 && last.x === contour.start.x && last.y === contour.start.y) {
+    points.pop();
+    points[0] = { ...points[0], cx1: last.cx1, cy1: last.cy1, cx2: last.cx2, cy2: last.cy2 };
+  }
+  return points;
+};
+
+/**
+ * Parses any SVG path data into editor points. Every subpath is treated as
+ * closed, which is how it fills anyway. Throws if `d` is not valid path data.
+ */
+export const parseEditablePath = (d: string): EditablePoint[] => {
+  const points = joinSubpaths(parseSvgPath(d).map(contourToPoints));
+  return points.map((p, i) => {
+    const h = pointHandles(points, i);
+    return isSmoothJoin(p, h.in, h.out) ? { ...p, type: 'smooth' } : p;
+  });
+};
+
+export const editablePathToSvg = (points: EditablePoint[]): string =>
+  contoursToSvgPath(
+    splitSubpaths(points).map(sp => {
+      const segments: PathSegment[] = [...sp.slice(1), sp[0]].map(p =>
+        isCurve(p)
+          ? { type: 'C', x1: p.cx1!, y1: p.cy1!, x2: p.cx2!, y2: p.cy2!, x: p.x, y: p.y }
+          : { type: 'L', x: p.x, y: p.y }
+      );
+      // The closing line is implied by Z
+      if (!isCurve(sp[0])) segments.pop();
+      return { start: { x: sp[0].x, y: sp[0].y }, segments, closed: true };
+    })
+  );
+
+/**
+ * Moves a node and carries its two handles along with it.
+ */
+export const moveAnchor = (points: EditablePoint[], index: number, to: Vec): EditablePoint[] => {
+  const p = points[index];
+  const dx = to.x - p.x;
+  const dy = to.y - p.y;
+  const { next } = neighbours(points, index);
+  return points.map((q, i) => {
+    let moved = q;
+    if (i === index) {
+      moved = { ...moved, x: to.x, y: to.y };
+      if (isCurve(moved)) moved = { ...moved, cx2: moved.cx2! + dx, cy2: moved.cy2! + dy };
+    }
+    if (i === next && isCurve(q)) moved = { ...moved, cx1: moved.cx1! + dx, cy1: moved.cy1! + dy };
+    return moved;
+  });
+};
+
+// Shifts every node and handle by the same offset
+export const translatePoints = (points: EditablePoint[], dx: number, dy: number): EditablePoint[] =>
+  points.map(p => ({
+    ...p,
+    x: p.x + dx,
+    y: p.y + dy,
+    ...(isCurve(p) ? { cx1: p.cx1! + dx, cy1: p.cy1! + dy, cx2: p.cx2! + dx, cy2: p.cy2! + dy } : {})
+  }));
+
+/**
+ * Moves one handle of a node. On a smooth node the opposite handle swings
+ * round to stay collinear, keeping its own length.
+ */
+export const moveHandle = (points: EditablePoint[], index: number, side: 'in' | 'out', to: Vec): EditablePoint[] => {
+  const p = points[index];
+  const { next } = neighbours(points, index);
+  const result = [...points];
+
+  const setIn = (v: Vec) => (result[index] = { ...result[index], cx2: v.x, cy2: v.y });
+  const setOut = (v: Vec) => (result[next] = { ...result[next], cx1: v.x, cy1: v.y });
+  (side === 'in' ? setIn : setOut)(to);
+
+  const handles = pointHandles(points, index);
+  const opposite = side === 'in' ? handles.out : handles.in;
+  if (p.type === 'smooth' && opposite) {
+    const length = Math.hypot(opposite.x - p.x, opposite.y - p.y);
+    const dirLength = Math.hypot(to.x - p.x, to.y - p.y);
+    if (dirLength > 0) {
+      const mirrored = { x: p.x - ((to.x - p.x) / dirLength) * length, y: p.y - ((to.y - p.y) / dirLength) * length };
+      (side === 'in' ? setOut : setIn)(mirrored);
+    }
+  }
+  return result;
+};
+
+/**
+ * Converts a node between corner and smooth. Smoothing gives it handles
+ * along the line between its neighbours, turning adjacent lines into curves;
+ * a corner keeps its handles but lets them move independently.
+ */
+export const togglePointType = (points: EditablePoint[], index: number): EditablePoint[] => {
+  const p = points[index];
+  if (p.type === 'smooth') {
+    return points.map((q, i) => (i === index ? { ...q, type: 'corner' } : q));
+  }
+
+  const { prev, next } = neighbours(points, index);
+  const a = points[prev];
+  const b = points[next];
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const len = Math.hypot(dx, dy) || 1;
+  const dir = { x: dx / len, y: dy / len };
+  const inLength = Math.hypot(p.x - a.x, p.y - a.y) / 3;
+  const outLength = Math.hypot(b.x - p.x, b.y - p.y) / 3;
+
+  return points.map((q, i) => {
+    if (i === index) {
+      return {
+        ...q,
+        type: 'smooth',
+        // A former line keeps its far end straight by starting the curve with a handle on the line
+        cx1: q.cx1 ?? a.x + (p.x - a.x) / 3,
+        cy1: q.cy1 ?? a.y + (p.y - a.y) / 3,
+        cx2: p.x - dir.x * inLength,
+        cy2: p.y - dir.y * inLength
+      };
+    }
+    if (i === next) {
+      return {
+        ...q,
+        cx1: p.x + dir.x * outLength,
+        cy1: p.y + dir.y * outLength,
+        cx2: q.cx2 ?? q.x + (p.x - q.x) / 3,
+        cy2: q.cy2 ?? q.y + (p.y - q.y) / 3
+      };
+    }
+    return q;
+  });
+};
+
+/**
+ * Makes every node smooth without adding any: each gets handles along the
+ * bisector of its incoming and outgoing directions, keeping the lengths of
+ * handles it already has. Fitted curves keep their shape where they were
+ * already smooth and only the corners between them are rounded.
+ */
+export const smoothAllPoints = (points: EditablePoint[]): EditablePoint[] => {
+  const unit = (v: Vec): Vec => {
+    const len = Math.hypot(v.x, v.y);
+    return len > 0 ? { x: v.x / len, y: v.y / len } : { x: 0, y: 0 };
+  };
+
+  const handles = points.map((p, i) => {
+    const { prev, next } = neighbours(points, i);
+    const h = pointHandles(points, i);
+    // A handle lying on its node gives no direction; like a line, it is replaced by one a third of the way to the neighbour
+    const hasIn = h.in && (h.in.x !== p.x || h.in.y !== p.y);
+    const hasOut = h.out && (h.out.x !== p.x || h.out.y !== p.y);
+    const inVec = hasIn ? { x: p.x - h.in!.x, y: p.y - h.in!.y } : { x: (p.x - points[prev].x) / 3, y: (p.y - points[prev].y) / 3 };
+    const outVec = hasOut ? { x: h.out!.x - p.x, y: h.out!.y - p.y } : { x: (points[next].x - p.x) / 3, y: (points[next].y - p.y) / 3 };
+    const u = unit(inVec);
+    const v = unit(outVec);
+    // A cusp that turns right back has no bisector; the chord between the neighbours stands in
+    let dir = unit({ x: u.x + v.x, y: u.y + v.y });
+    if (dir.x === 0 && dir.y === 0) dir = unit({ x: points[next].x - points[prev].x, y: points[next].y - points[prev].y });
+    const inLength = Math.hypot(inVec.x, inVec.y);
+    const outLength = Math.hypot(outVec.x, outVec.y);
+    return {
+      in: { x: p.x - dir.x * inLength, y: p.y - dir.y * inLength },
+      out: { x: p.x + dir.x * outLength, y: p.y + dir.y * outLength }
+    };
+  });
+
+  return points.map((p, i) => {
+    const { prev, next } = neighbours(points, i);
+    // Rings of one or two nodes have nothing to round
+    if (prev === next) return p;
+    const from = handles[prev].out;
+    const to = handles[i].in;
+    return { ...p, type: 'smooth', cx1: from.x, cy1: from.y, cx2: to.x, cy2: to.y };
+  });
+};
+
+/**
+ * Deletes a node; the segments on either side merge into one that keeps the outer handles.
+ * Rings never drop below three nodes.
+ */
+export const removePoint = (points: EditablePoint[], index: number): EditablePoint[] => {
+  const ring = splitSubpaths(points).find(sp => sp.includes(points[index]));
+  if (!ring || ring.length <= 3) return points;
+
+  const p = points[index];
+  const { prev, next } = neighbours(points, index);
+  const result = points.map((q, i) => {
+    if (i !== next || (!isCurve(p) && !isCurve(q))) return q;
+    const from = points[prev];
+    return { ...q, cx1: p.cx1 ?? from.x, cy1: p.cy1 ?? from.y, cx2: q.cx2 ?? q.x, cy2: q.cy2 ?? q.y };
+  });
+  // Removing the first node hands the start of the ring to the next one
+  if (p.subpathStart) result[next] = { ...result[next], subpathStart: true };
+  return result.filter((_, i) => i !== index);
+};
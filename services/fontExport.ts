@@ -0,0 +1,93 @@
+import { VectorGlyph } from '../types';
+import { FontInfo, buildFontModel } from './fontModel';
+import { postScriptName } from './fontTables';
+import { writeTtf } from './ttfWriter';
+import { writeOtf } from './otfWriter';
+import { writeWoff } from './woffWriter';
+import { writeWoff2 } from './woff2Writer';
+import { EMPTY_KERNING, Kerning } from './kerning';
+
+export type FontFormat = 'ttf' | 'otf' | 'woff' | 'woff2';
+
+export const FONT_FORMATS: { id: FontFormat; label: string; mimeType: string; isWebFont: boolean }[] = [
+  { id: 'ttf', label: 'TrueType (.ttf)', mimeType: 'font/ttf', isWebFont: false },
+  { id: 'otf', label: 'OpenType CFF (.otf)', mimeType: 'font/otf', isWebFont: false },
+  { id: 'woff', label: 'WOFF (.woff)', mimeType: 'font/woff', isWebFont: true },
+  { id: 'woff2', label: 'WOFF2 (.woff2)', mimeType: 'font/woff2', isWebFont: true }
+];
+
+export interface ExportedFont {
+  blob: Blob;
+  fileName: string;
+  fontFaceCss: string;
+  // What had to be left out of the font
+  warnings: string[];
+}
+
+/**
+ * Generates an @font-face rule that loads the exported file from the same directory as the stylesheet.
+ */
+export const buildFontFaceCss = (info: FontInfo, fileName: string, format: FontFormat): string => {
+  const cssFormat = format === 'ttf' ? 'truetype' : format === 'otf' ? 'opentype' : format;
+  const family = info.familyName.replace(/(['\\])/g, '\\$1');
+  return [
+    '@font-face {',
+    `  font-family: '${family}';`,
+    `  src: url('${fileName}') format('${cssFormat}');`,
+    '  font-weight: normal;',
+    '  font-style: normal;',
+    '  font-display: swap;',
+    '}'
+  ].join('\n');
+};
+
+/**
+ * Builds a font file from the extracted glyphs. TrueType outlines are
+ * converted to quadratics; OTF keeps cubic curves in a CFF table.
+ * The web formats wrap the TrueType build.
+ */
+export const exportFont = async (
+  glyphs: VectorGlyph[],
+  format: FontFormat,
+  info: Partial<FontInfo> = {},
+  kerning: Kerning = EMPTY_KERNING
+): Promise<ExportedFont> => {
+  const model = buildFontModel(glyphs, info, kerning);
+  let data: Uint8Array;
+  switch (format) {
+    case 'otf':
+      data = writeOtf(model);
+      break;
+    case 'woff':
+      data = await writeWoff(writeTtf(model));
+      break;
+    case 'woff2':
+      data = await writeWoff2(writeTtf(model));
+      break;
+    default:
+      data = writeTtf(model);
+  }
+
+  const { mimeType } = FONT_FORMATS.find(f => f.id === format)!;
+  const fileName = `${postScriptName(model.info)}.${format}`;
+  return {
+    blob: new Blob([data], { type: mimeType }),
+    fileName,
+    fontFaceCss: buildFontFaceCss(model.info, fileName, format),
+    warnings: model.warnings
+  };
+};
+
+/**
+ * Triggers a browser download for a generated file.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,141 @@
+import { FontMetrics, VectorGlyph } from '../types';
+import { PathContour, orientContours, parseSvgPath, reverseContour } from './svgPath';
+import { DEFAULT_METRICS } from './metrics';
+import { EMPTY_KERNING, FontKerning, Kerning, compileKerning, flattenKerning } from './kerning';
+import { MAX_KERN_PAIRS } from './layoutTables';
+import { FontSubstitutions, compileSubstitutions } from './substitutions';
+import { allocatePuaCodepoints, glyphNameForCodepoint } from './unicode';
+
+/**
+ * Font-wide naming and vertical metrics, in font units.
+ */
+export interface FontInfo extends FontMetrics {
+  familyName: string;
+  styleName: string;
+  version: number;
+  lineGap: number;
+}
+
+/**
+ * A glyph ready to be written by any of the font writers:
+ * outlines are in font units with y pointing up and the baseline at y = 0.
+ */
+export interface FontGlyph {
+  name: string;
+  unicodes: number[];
+  advanceWidth: number;
+  contours: PathContour[];
+}
+
+export interface FontModel {
+  info: FontInfo;
+  glyphs: FontGlyph[]; // glyphs[0] is always .notdef
+  kerning: FontKerning;
+  substitutions: FontSubstitutions;
+  // What had to be left out of the font, for the user to see
+  warnings: string[];
+}
+
+export const DEFAULT_FONT_INFO: FontInfo = {
+  familyName: 'ArchaicType',
+  styleName: 'Regular',
+  version: 1,
+  ...DEFAULT_METRICS,
+  lineGap: 0
+};
+
+const rect = (x0: number, y0: number, x1: number, y1: number): PathContour => ({
+  start: { x: x0, y: y0 },
+  segments: [
+    { type: 'L', x: x0, y: y1 },
+    { type: 'L', x: x1, y: y1 },
+    { type: 'L', x: x1, y: y0 }
+  ],
+  closed: true
+});
+
+// Hollow box drawn for characters the font does not cover
+const buildNotdef = (info: FontInfo): FontGlyph => {
+  const width = Math.round(info.unitsPerEm * 0.5);
+  const height = info.ascender;
+  const margin = Math.round(info.unitsPerEm * 0.05);
+  const stroke = Math.round(info.unitsPerEm * 0.05);
+  const outer = rect(margin, 0, width - margin, height);
+  const inner = rect(margin + stroke, stroke, width - margin - stroke, height - stroke);
+  // Reverse the inner box so it winds against the outer one and cuts a hole
+  const innerReversed = reverseContour(inner);
+  return { name: '.notdef', unicodes: [], advanceWidth: width, contours: [outer, innerReversed] };
+};
+
+/**
+ * Collects the project's glyphs, already in font units, into a font.
+ *
+ * Glyphs without a codepoint are given temporary Private Use Area ones so
+ * they stay reachable; when two glyphs claim a codepoint the first one keeps it.
+ * Samples standing in for another glyph are left out.
+ */
+export const buildFontModel = (
+  glyphs: VectorGlyph[],
+  overrides: Partial<FontInfo> = {},
+  kerning: Kerning = EMPTY_KERNING
+): FontModel => {
+  const info: FontInfo = { ...DEFAULT_FONT_INFO, ...overrides };
+
+  const fontGlyphs: FontGlyph[] = [buildNotdef(info)];
+  const mapped = new Set<number>();
+  const glyphIndex = new Map<string, number>();
+  const cmap = new Map<number, number>();
+  const warnings: string[] = [];
+  const usedNames = new Set(['.notdef']);
+
+  const uniqueName = (base: string) => {
+    let name = base;
+    for (let i = 1; usedNames.has(name); i++) name = `${base}.${i}`;
+    usedNames.add(name);
+    return name;
+  };
+
+  const included = glyphs.filter(g => !g.sampleOf);
+  if (!included.some(g => g.codepoints.includes(0x20))) {
+    fontGlyphs.push({ name: uniqueName('space'), unicodes: [0x20], advanceWidth: Math.round(info.unitsPerEm / 4), contours: [] });
+    mapped.add(0x20);
+    cmap.set(0x20, fontGlyphs.length - 1);
+  }
+
+  const allocated = allocatePuaCodepoints(included);
+  allocated.forEach(glyph => {
+    let contours: PathContour[] = [];
+    try {
+      contours = parseSvgPath(glyph.svgPath);
+    } catch (err) {
+      warnings.push(`"${glyph.name}" was exported without its outline, which could not be read (${err instanceof Error ? err.message : err}).`);
+    }
+
+    const unicodes = glyph.codepoints.filter(cp => !mapped.has(cp));
+    unicodes.forEach(cp => {
+      mapped.add(cp);
+      cmap.set(cp, fontGlyphs.length);
+    });
+    glyphIndex.set(glyph.id, fontGlyphs.length);
+    fontGlyphs.push({
+      name: uniqueName(glyphNameForCodepoint(glyph.codepoints[0])),
+      unicodes,
+      advanceWidth: glyph.advanceWidth,
+      contours: orientContours(contours)
+    });
+  });
+
+  const fontKerning = compileKerning(kerning, glyphIndex);
+  const kernPairs = flattenKerning(fontKerning).length;
+  if (kernPairs > MAX_KERN_PAIRS) {
+    warnings.push(`The legacy kern table holds at most ${MAX_KERN_PAIRS} pairs; ${kernPairs - MAX_KERN_PAIRS} are kerned only in GPOS, which older applications ignore.`);
+  }
+
+  return {
+    info,
+    glyphs: fontGlyphs,
+    kerning: fontKerning,
+    substitutions: compileSubstitutions(allocated, glyphIndex, cmap, message => warnings.push(message)),
+    warnings
+  };
+};
@@ -0,0 +1,304 @@
+import { BinaryWriter, binarySearchParams } from './sfnt';
+import { FontInfo, FontModel } from './fontModel';
+import { isKerningEmpty } from './kerning';
+import { substitutionsMaxContext } from './substitutions';
+
+/**
+ * Builders for the tables shared by the TrueType and CFF flavoured writers.
+ */
+
+export interface GlyphBounds {
+  xMin: number;
+  yMin: number;
+  xMax: number;
+  yMax: number;
+}
+
+export interface GlyphMetrics {
+  advanceWidth: number;
+  bounds: GlyphBounds | null; // null for empty glyphs such as space
+}
+
+export const fontBounds = (metrics: GlyphMetrics[]): GlyphBounds => {
+  const boxes = metrics.map(m => m.bounds).filter((b): b is GlyphBounds => b !== null);
+  if (boxes.length === 0) return { xMin: 0, yMin: 0, xMax: 0, yMax: 0 };
+  return {
+    xMin: Math.min(...boxes.map(b => b.xMin)),
+    yMin: Math.min(...boxes.map(b => b.yMin)),
+    xMax: Math.max(...boxes.map(b => b.xMax)),
+    yMax: Math.max(...boxes.map(b => b.yMax))
+  };
+};
+
+export const postScriptName = (info: FontInfo): string => {
+  const clean = (s: string) => s.replace(/[^A-Za-z0-9]/g, '');
+  return `${clean(info.familyName) || 'Untitled'}-${clean(info.styleName) || 'Regular'}`.slice(0, 63);
+};
+
+export const buildHead = (info: FontInfo, metrics: GlyphMetrics[], indexToLocFormat: 0 | 1): Uint8Array => {
+  const b = fontBounds(metrics);
+  const now = new Date();
+  return new BinaryWriter()
+    .uint16(1).uint16(0)               // version 1.0
+    .fixed(info.version)               // fontRevision
+    .uint32(0)                         // checkSumAdjustment, filled in by assembleSfnt
+    .uint32(0x5f0f3cf5)                // magicNumber
+    .uint16(0b1011)                    // flags: baseline at y=0, lsb at x=0, integer ppem
+    .uint16(info.unitsPerEm)
+    .longDateTime(now)                 // created
+    .longDateTime(now)                 // modified
+    .int16(b.xMin).int16(b.yMin).int16(b.xMax).int16(b.yMax)
+    .uint16(0)                         // macStyle
+    .uint16(8)                         // lowestRecPPEM
+    .int16(2)                          // fontDirectionHint (deprecated)
+    .int16(indexToLocFormat)
+    .int16(0)                          // glyphDataFormat
+    .toUint8Array();
+};
+
+export const buildHhea = (info: FontInfo, metrics: GlyphMetrics[]): Uint8Array => {
+  let minLsb = 0, minRsb = 0, maxExtent = 0;
+  const inked = metrics.filter(m => m.bounds);
+  if (inked.length > 0) {
+    minLsb = Math.min(...inked.map(m => m.bounds!.xMin));
+    minRsb = Math.min(...inked.map(m => m.advanceWidth - m.bounds!.xMax));
+    maxExtent = Math.max(...inked.map(m => m.bounds!.xMax));
+  }
+  const w = new BinaryWriter()
+    .uint16(1).uint16(0)
+    .int16(info.ascender)
+    .int16(info.descender)
+    .int16(info.lineGap)
+    .uint16(Math.max(0, ...metrics.map(m => m.advanceWidth)))
+    .int16(minLsb)
+    .int16(minRsb)
+    .int16(maxExtent)
+    .int16(1)                          // caretSlopeRise
+    .int16(0)                          // caretSlopeRun
+    .int16(0);                         // caretOffset
+  for (let i = 0; i < 4; i++) w.int16(0);
+  return w
+    .int16(0)                          // metricDataFormat
+    .uint16(metrics.length)            // numberOfHMetrics
+    .toUint8Array();
+};
+
+export const buildHmtx = (metrics: GlyphMetrics[]): Uint8Array => {
+  const w = new BinaryWriter();
+  for (const m of metrics) {
+    w.uint16(m.advanceWidth).int16(m.bounds ? m.bounds.xMin : 0);
+  }
+  return w.toUint8Array();
+};
+
+// Unicode block -> OS/2 ulUnicodeRange bit, for the scripts this tool is most used with
+const UNICODE_RANGES: [number, number, number][] = [
+  [0x0000, 0x007f, 0], [0x0080, 0x00ff, 1], [0x0100, 0x017f, 2], [0x0180, 0x024f, 3],
+  [0x0250, 0x02af, 4], [0x02b0, 0x02ff, 5], [0x0300, 0x036f, 6], [0x0370, 0x03ff, 7],
+  [0x2c80, 0x2cff, 8], [0x0400, 0x052f, 9], [0x0530, 0x058f, 10], [0x0590, 0x05ff, 11],
+  [0x0600, 0x06ff, 13], [0x0900, 0x097f, 15], [0x0980, 0x09ff, 16], [0x0a00, 0x0a7f, 17],
+  [0x0a80, 0x0aff, 18], [0x0b00, 0x0b7f, 19], [0x0b80, 0x0bff, 20], [0x0c00, 0x0c7f, 21],
+  [0x0c80, 0x0cff, 22], [0x0d00, 0x0d7f, 23], [0x0e00, 0x0e7f, 24], [0x10a0, 0x10ff, 26],
+  [0x1e00, 0x1eff, 29], [0x1f00, 0x1fff, 30], [0x2000, 0x206f, 31], [0x20a0, 0x20cf, 33],
+  [0x0700, 0x074f, 71], [0x16a0, 0x16ff, 79], [0x2c60, 0x2c7f, 29], [0xa720, 0xa7ff, 29],
+  [0xe000, 0xf8ff, 60], [0x10000, 0x10ffff, 57]
+];
+
+export const buildOS2 = (model: FontModel, metrics: GlyphMetrics[]): Uint8Array => {
+  const { info } = model;
+  const b = fontBounds(metrics);
+  const codepoints = model.glyphs.flatMap(g => g.unicodes);
+  const advances = metrics.map(m => m.advanceWidth).filter(a => a > 0);
+  const avgWidth = advances.length ? Math.round(advances.reduce((s, a) => s + a, 0) / advances.length) : 0;
+
+  const ranges = [0, 0, 0, 0];
+  for (const cp of codepoints) {
+    for (const [lo, hi, bit] of UNICODE_RANGES) {
+      if (cp >= lo && cp <= hi) ranges[bit >> 5] |= 1 << (bit & 31);
+    }
+  }
+
+  // Longest glyph sequence a layout rule looks at; pair kerning looks at two
+  const maxContext = Math.max(1, isKerningEmpty(model.kerning) ? 0 : 2, substitutionsMaxContext(model.substitutions));
+
+  const em = info.unitsPerEm;
+  const w = new BinaryWriter()
+    .uint16(4)                                   // version
+    .int16(avgWidth)                             // xAvgCharWidth
+    .uint16(400)                                 // usWeightClass
+    .uint16(5)                                   // usWidthClass
+    .uint16(0)                                   // fsType: installable
+    .int16(Math.round(em * 0.65)).int16(Math.round(em * 0.6))   // subscript x/y size
+    .int16(0).int16(Math.round(em * 0.075))                     // subscript x/y offset
+    .int16(Math.round(em * 0.65)).int16(Math.round(em * 0.6))   // superscript x/y size
+    .int16(0).int16(Math.round(em * 0.35))                      // superscript x/y offset
+    .int16(Math.round(em * 0.05))                // yStrikeoutSize
+    .int16(Math.round(info.xHeight / 2))         // yStrikeoutPosition
+    .int16(0);                                   // sFamilyClass
+  for (let i = 0; i < 10; i++) w.uint8(0);      // panose
+  ranges.forEach(r => w.uint32(r >>> 0));
+  return w
+    .tag('NONE')                                 // achVendID
+    .uint16(0b11000000)                          // fsSelection: REGULAR | USE_TYPO_METRICS
+    .uint16(codepoints.length ? Math.min(0xffff, Math.min(...codepoints)) : 0)
+    .uint16(codepoints.length ? Math.min(0xffff, Math.max(...codepoints)) : 0)
+    .int16(info.ascender)                        // sTypoAscender
+    .int16(info.descender)                       // sTypoDescender
+    .int16(info.lineGap)                         // sTypoLineGap
+    .uint16(Math.max(info.ascender, b.yMax))     // usWinAscent
+    .uint16(Math.max(-info.descender, -b.yMin))  // usWinDescent
+    .uint32(1)                                   // ulCodePageRange1: Latin 1
+    .uint32(0)                                   // ulCodePageRange2
+    .int16(info.xHeight)
+    .int16(info.capHeight)
+    .uint16(0)                                   // usDefaultChar
+    .uint16(0x20)                                // usBreakChar
+    .uint16(maxContext)                          // usMaxContext
+    .toUint8Array();
+};
+
+export const buildName = (info: FontInfo): Uint8Array => {
+  const version = `Version ${info.version.toFixed(3)}`;
+  const psName = postScriptName(info);
+  const records: [number, string][] = [
+    [1, info.familyName],
+    [2, info.styleName],
+    [3, `${version};NONE;${psName}`],
+    [4, `${info.familyName} ${info.styleName}`],
+    [5, version],
+    [6, psName]
+  ];
+
+  // Windows platform, Unicode BMP encoding, US English; strings are UTF-16BE
+  const storage = new BinaryWriter();
+  const w = new BinaryWriter()
+    .uint16(0)
+    .uint16(records.length)
+    .uint16(6 + records.length * 12);
+  for (const [nameId, value] of records) {
+    const offset = storage.length;
+    for (let i = 0; i < value.length; i++) storage.uint16(value.charCodeAt(i));
+    w.uint16(3).uint16(1).uint16(0x409).uint16(nameId).uint16(storage.length - offset).uint16(offset);
+  }
+  return w.bytes(storage.toUint8Array()).toUint8Array();
+};
+
+// Runs of consecutive codepoints that map to consecutive glyph ids
+const mappingRuns = (mapping: [number, number][]) => {
+  const runs: { start: number; end: number; glyphId: number }[] = [];
+  for (const [cp, gid] of mapping) {
+    const last = runs[runs.length - 1];
+    if (last && cp === last.end + 1 && gid === last.glyphId + (cp - last.start)) {
+      last.end = cp;
+    } else {
+      runs.push({ start: cp, end: cp, glyphId: gid });
+    }
+  }
+  return runs;
+};
+
+const buildCmapFormat4 = (mapping: [number, number][]): Uint8Array => {
+  const runs = mappingRuns(mapping.filter(([cp]) => cp <= 0xfffe));
+  runs.push({ start: 0xffff, end: 0xffff, glyphId: 0 });
+  const segCount = runs.length;
+  const { searchRange, entrySelector, rangeShift } = binarySearchParams(segCount, 2);
+
+  const w = new BinaryWriter()
+    .uint16(4)
+    .uint16(16 + segCount * 8)
+    .uint16(0)                         // language
+    .uint16(segCount * 2)
+    .uint16(searchRange).uint16(entrySelector).uint16(rangeShift);
+  runs.forEach(r => w.uint16(r.end));
+  w.uint16(0);                         // reservedPad
+  runs.forEach(r => w.uint16(r.start));
+  runs.forEach(r => w.uint16(r.start === 0xffff ? 1 : (r.glyphId - r.start + 0x10000) % 0x10000));
+  runs.forEach(() => w.uint16(0));     // idRangeOffset
+  return w.toUint8Array();
+};
+
+const buildCmapFormat12 = (mapping: [number, number][]): Uint8Array => {
+  const runs = mappingRuns(mapping);
+  const w = new BinaryWriter()
+    .uint16(12).uint16(0)
+    .uint32(16 + runs.length * 12)
+    .uint32(0)                         // language
+    .uint32(runs.length);
+  runs.forEach(r => w.uint32(r.start).uint32(r.end).uint32(r.glyphId));
+  return w.toUint8Array();
+};
+
+export const buildCmap = (model: FontModel): Uint8Array => {
+  const mapping: [number, number][] = [];
+  model.glyphs.forEach((g, gid) => g.unicodes.forEach(cp => mapping.push([cp, gid])));
+  mapping.sort((a, b) => a[0] - b[0]);
+
+  const subtables: { platform: number; encoding: number; data: Uint8Array }[] = [];
+  const format4 = buildCmapFormat4(mapping);
+  subtables.push({ platform: 0, encoding: 3, data: format4 }, { platform: 3, encoding: 1, data: format4 });
+  if (mapping.some(([cp]) => cp > 0xffff)) {
+    const format12 = buildCmapFormat12(mapping);
+    subtables.push({ platform: 0, encoding: 4, data: format12 }, { platform: 3, encoding: 10, data: format12 });
+  }
+  subtables.sort((a, b) => a.platform - b.platform || a.encoding - b.encoding);
+
+  const w = new BinaryWriter().uint16(0).uint16(subtables.length);
+  // Identical subtables are stored once and shared between encoding records
+  const offsets = new Map<Uint8Array, number>();
+  let offset = 4 + subtables.length * 8;
+  for (const s of subtables) {
+    if (!offsets.has(s.data)) {
+      offsets.set(s.data, offset);
+      offset += s.data.length;
+    }
+    w.uint16(s.platform).uint16(s.encoding).uint32(offsets.get(s.data)!);
+  }
+  for (const data of offsets.keys()) w.bytes(data);
+  return w.toUint8Array();
+};
+
+// Version 1.0 carries the TrueType limits; CFF fonts use the 6-byte version 0.5
+export const buildMaxp = (numGlyphs: number, trueType?: { maxPoints: number; maxContours: number }): Uint8Array => {
+  if (!trueType) {
+    return new BinaryWriter().uint32(0x00005000).uint16(numGlyphs).toUint8Array();
+  }
+  return new BinaryWriter()
+    .uint32(0x00010000)
+    .uint16(numGlyphs)
+    .uint16(trueType.maxPoints)
+    .uint16(trueType.maxContours)
+    .uint16(0).uint16(0)               // maxCompositePoints, maxCompositeContours
+    .uint16(2)                         // maxZones
+    .uint16(0).uint16(0).uint16(0).uint16(0).uint16(0) // twilight points, storage, fdefs, idefs, stack
+    .uint16(0)                         // maxSizeOfInstructions
+    .uint16(0).uint16(0)               // maxComponentElements, maxComponentDepth
+    .toUint8Array();
+};
+
+// Number of glyph names predefined by the Macintosh standard order; custom names are indexed after them
+const MAC_STANDARD_NAME_COUNT = 258;
+
+/**
+ * post version 2.0 stores glyph names (TrueType); version 3.0 omits them (CFF keeps its own names).
+ */
+export const buildPost = (info: FontInfo, glyphNames?: string[]): Uint8Array => {
+  const w = new BinaryWriter()
+    .uint16(glyphNames ? 2 : 3).uint16(0)
+    .fixed(0)                          // italicAngle
+    .int16(Math.round(info.descender / 2))        // underlinePosition
+    .int16(Math.round(info.unitsPerEm * 0.05))    // underlineThickness
+    .uint32(0)                         // isFixedPitch
+    .uint32(0).uint32(0).uint32(0).uint32(0);
+  if (!glyphNames) return w.toUint8Array();
+
+  // .notdef is standard name 0; every other name is written out as a Pascal string
+  w.uint16(glyphNames.length);
+  let custom = 0;
+  glyphNames.forEach(name => w.uint16(name === '.notdef' ? 0 : MAC_STANDARD_NAME_COUNT + custom++));
+  glyphNames.filter(name => name !== '.notdef').forEach(name => {
+    const bytes = name.slice(0, 63);
+    w.uint8(bytes.length);
+    for (let i = 0; i < bytes.length; i++) w.uint8(bytes.charCodeAt(i) & 0x7f);
+  });
+  return w.toUint8Array();
+};
@@ -1,50 +1,160 @@
-import { GoogleGenAI } from "@google/genai";
+import { ApiError, FinishReason, GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { CharacterGuess, CharacterIdentifier, ImageEditError, ImageEditProvider, toImageEditError } from './imageProvider';
+import { parseCodepointInput } from './unicode';
 
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
+// Finish reasons meaning the model refused rather than failed
+const SAFETY_FINISH_REASONS = new Set<string>([
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT
+]);
+
+const fromApiError = (error: ApiError): ImageEditError => {
+  const { status, message } = error;
+  if (status === 429) return new ImageEditError('quota', message, true);
+  if (status === 401 || status === 403 || /api key/i.test(message)) return new ImageEditError('auth', message);
+  if (status >= 500) return new ImageEditError('unavailable', message, true);
+  return new ImageEditError('unknown', message);
+};
+
+// An empty key falls back to the one the app was built with
+const createClient = (apiKey: string): GoogleGenAI => {
+  const key = apiKey || process.env.API_KEY || '';
+  if (!key) throw new ImageEditError('auth', 'No Gemini API key is set.');
+  return new GoogleGenAI({ apiKey: key });
+};
+
+// A prompt and an image as request parts
+const imageParts = (image: string, prompt: string) => {
+  // Remove header if present (data:image/png;base64,)
+  const base64Data = image.split(',')[1] || image;
+  const mimeType = image.match(/data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+).*,.*/)?.[1] || 'image/png';
+  return {
+    parts: [
+      {
+        text: prompt,
+      },
+      {
+        inlineData: {
+          data: base64Data,
+          mimeType: mimeType,
+        },
+      },
+    ],
+  };
+};
+
+const generate = async (request: () => Promise<GenerateContentResponse>, signal: AbortSignal): Promise<GenerateContentResponse> => {
+  let response: GenerateContentResponse;
+  try {
+    response = await request();
+  } catch (error) {
+    if (signal.aborted) throw new ImageEditError('cancelled', 'Cancelled');
+    console.error("Gemini API Error:", error);
+    throw error instanceof ApiError ? fromApiError(error) : toImageEditError(error);
+  }
+
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new ImageEditError('safety', `The prompt was blocked (${blockReason}).`);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && SAFETY_FINISH_REASONS.has(finishReason)) {
+    throw new ImageEditError('safety', `The response was blocked (${finishReason}).`);
+  }
+  return response;
+};
 
 /**
- * edits an image using Gemini 2.5 Flash Image based on a text prompt.
+ * Edits images with a Gemini image model.
  */
-export const editImageWithGemini = async (
-  base64Image: string, 
-  prompt: string
-): Promise<string> => {
-  try {
-    // Remove header if present (data:image/png;base64,)
-    const base64Data = base64Image.split(',')[1] || base64Image;
-    const mimeType = base64Image.match(/data:([a-zA-Z0-9]+\/[a-zA-Z0-9-.+]+).*,.*/)?.[1] || 'image/png';
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            text: prompt,
-          },
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: mimeType,
-            },
-          },
-        ],
-      },
-    });
+export const createGeminiProvider = (apiKey: string, model: string): ImageEditProvider => {
+  const ai = createClient(apiKey);
+
+  return {
+    editImage: async (image, prompt, signal) => {
+      const response = await generate(
+        () => ai.models.generateContent({ model, contents: imageParts(image, prompt), config: { abortSignal: signal } }),
+        signal
+      );
 
-    // Iterate through parts to find the image output
-    if (response.candidates && response.candidates[0].content.parts) {
-      for (const part of response.candidates[0].content.parts) {
+      // Iterate through parts to find the image output
+      for (const part of response.candidates?.[0]?.content?.parts ?? []) {
         if (part.inlineData && part.inlineData.data) {
           return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
         }
       }
+
+      // Models sometimes answer in words alone; asking again often gets an image
+      throw new ImageEditError('no-image', 'No image generated in response.', true);
     }
+  };
+};
 
-    throw new Error("No image generated in response.");
+const IDENTIFY_PROMPT =
+  'The image shows one character, black on white, traced from a scanned historical document. ' +
+  'Which Unicode character is it? Give up to five candidates, most likely first, each with its ' +
+  'code point as U+XXXX, its Unicode character name, and your confidence from 0 to 1.';
 
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw error;
-  }
-};
\ No newline at end of file
+const GUESS_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      codepoint: { type: Type.STRING },
+      name: { type: Type.STRING },
+      confidence: { type: Type.NUMBER },
+    },
+    required: ['codepoint', 'name', 'confidence'],
+  },
+};
+
+/**
+ * Identifies glyphs with a Gemini vision model, from their rendered outline.
+ */
+export const createGeminiIdentifier = (apiKey: string, model: string): CharacterIdentifier => {
+  const ai = createClient(apiKey);
+
+  return {
+    identifyCharacter: async (_glyph, image, signal) => {
+      const response = await generate(
+        () => ai.models.generateContent({
+          model,
+          contents: imageParts(image, IDENTIFY_PROMPT),
+          config: { abortSignal: signal, responseMimeType: 'application/json', responseSchema: GUESS_SCHEMA },
+        }),
+        signal
+      );
+
+      let answer: unknown;
+      try {
+        answer = JSON.parse(response.text ?? '');
+      } catch {
+        throw new ImageEditError('no-answer', 'The answer was not valid JSON.', true);
+      }
+      if (!Array.isArray(answer)) throw new ImageEditError('no-answer', 'The answer was not a list.', true);
+
+      // Codepoints that do not parse are dropped, and a repeated one keeps its first place
+      const guesses: CharacterGuess[] = [];
+      for (const item of answer) {
+        let codepoint: number | undefined;
+        try {
+          // Models sometimes leave out the U+ they were asked for
+          const answered = String(item?.codepoint ?? '').trim();
+          [codepoint] = parseCodepointInput(/^[0-9a-f]{4,6}$/i.test(answered) ? `U+${answered}` : answered);
+        } catch {
+          continue;
+        }
+        if (codepoint === undefined || guesses.some(g => g.codepoint === codepoint)) continue;
+        const confidence = Number(item.confidence);
+        guesses.push({
+          codepoint,
+          name: String(item.name ?? '').toUpperCase(),
+          confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0,
+        });
+      }
+      return guesses.sort((a, b) => b.confidence - a.confidence);
+    }
+  };
+};
@@ -0,0 +1,127 @@
+import { BoundingBox, VectorGlyph } from '../types';
+import { createGeminiIdentifier, createGeminiProvider } from './geminiService';
+import { crop, expandBox, imageDataToDataUrl, loadImageData, pasteFeathered } from './imageOps';
+import { createLocalIdentifier, createLocalProvider } from './localImageProvider';
+import {
+  CharacterIdentifier,
+  DEFAULT_GEMINI_MODEL,
+  DEFAULT_GEMINI_VISION_MODEL,
+  ImageEditError,
+  ImageEditProvider,
+  ImageProviderId,
+  ImageProviderSettings,
+  delay,
+  toImageEditError
+} from './imageProvider';
+
+export interface ImageProviderInfo {
+  id: ImageProviderId;
+  name: string;
+  // Whether the model and key settings apply
+  remote: boolean;
+  defaultModel: string;
+  defaultVisionModel: string;
+}
+
+export const IMAGE_PROVIDERS: ImageProviderInfo[] = [
+  { id: 'gemini', name: 'Gemini', remote: true, defaultModel: DEFAULT_GEMINI_MODEL, defaultVisionModel: DEFAULT_GEMINI_VISION_MODEL },
+  { id: 'local', name: 'Local (offline)', remote: false, defaultModel: '', defaultVisionModel: '' }
+];
+
+export const createImageEditProvider = (settings: ImageProviderSettings): ImageEditProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(settings.apiKey, settings.model || DEFAULT_GEMINI_MODEL);
+    case 'local':
+      return createLocalProvider();
+  }
+};
+
+// The local identifier compares against `references`, the project's labelled glyphs
+export const createCharacterIdentifier = (settings: ImageProviderSettings, references: VectorGlyph[]): CharacterIdentifier => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiIdentifier(settings.apiKey, settings.visionModel || DEFAULT_GEMINI_VISION_MODEL);
+    case 'local':
+      return createLocalIdentifier(references);
+  }
+};
+
+export interface ImageEditOptions {
+  signal: AbortSignal;
+  // Attempts after the first, for failures marked retryable
+  retries?: number;
+  // Backoff before the first retry, doubled for each later one
+  baseDelayMs?: number;
+  // Per attempt
+  timeoutMs?: number;
+  onRetry?: (attempt: number, delayMs: number, error: ImageEditError) => void;
+}
+
+/**
+ * Runs a model request with a time limit per attempt and exponential backoff
+ * between retryable failures. Always rejects with an ImageEditError;
+ * aborting `signal` rejects at once with kind 'cancelled'.
+ */
+export const withRetries = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  { signal, retries = 2, baseDelayMs = 1000, timeoutMs = 90_000, onRetry }: ImageEditOptions
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (signal.aborted) throw new ImageEditError('cancelled', 'Cancelled');
+
+    // Each attempt has its own controller, aborted by the caller or by the time limit
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; controller.abort(); }, timeoutMs);
+    const forward = () => controller.abort();
+    signal.addEventListener('abort', forward, { once: true });
+
+    let error: ImageEditError;
+    try {
+      return await run(controller.signal);
+    } catch (err) {
+      if (signal.aborted) throw new ImageEditError('cancelled', 'Cancelled');
+      error = timedOut ? new ImageEditError('timeout', `No answer within ${timeoutMs / 1000} s`, true) : toImageEditError(err);
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', forward);
+    }
+
+    if (!error.retryable || attempt >= retries) throw error;
+    const wait = baseDelayMs * 2 ** attempt;
+    onRetry?.(attempt + 1, wait, error);
+    await delay(wait, signal);
+  }
+};
+
+export const runImageEdit = (provider: ImageEditProvider, image: string, prompt: string, options: ImageEditOptions): Promise<string> =>
+  withRetries(signal => provider.editImage(image, prompt, signal), options);
+
+// Part of a page to edit, in image pixels, and the margin over which the result is blended in
+export interface ImageRegion {
+  box: BoundingBox;
+  feather: number;
+}
+
+export const DEFAULT_REGION_FEATHER = 16;
+
+/**
+ * Edits only `region` of the page: the region grown by its feather margin is
+ * sent to the model, and the image that comes back is scaled to that box and
+ * blended into the page, which keeps its size.
+ */
+export const runRegionEdit = async (
+  provider: ImageEditProvider,
+  image: string,
+  prompt: string,
+  region: ImageRegion,
+  options: ImageEditOptions
+): Promise<string> => {
+  const page = await loadImageData(image);
+  const box = expandBox(region.box, region.feather, page.width, page.height);
+  const edited = await runImageEdit(provider, imageDataToDataUrl(crop(page, box)), prompt, options);
+  const patch = await loadImageData(edited);
+  if (options.signal.aborted) throw new ImageEditError('cancelled', 'Cancelled');
+  return imageDataToDataUrl(pasteFeathered(page, patch, box, region.feather));
+};
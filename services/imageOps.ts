@@ -0,0 +1,475 @@
+import { BoundingBox } from '../types';
+import { otsuThreshold, toGrayscale } from './binarize';
+import { labelComponents } from './tracer';
+
+/**
+ * Deterministic, offline image cleanup for scanned pages.
+ *
+ * Every operation is a pure function from ImageData to a new ImageData, so
+ * the same page and the same steps always give the same pixels. Operations
+ * work on the colour channels independently and leave alpha alone. Where
+ * ink and paper matter, ink is assumed dark on light paper.
+ */
+
+export type ImageOperation = (image: ImageData) => ImageData;
+
+const PAPER = 255;
+
+// --- Browser helpers ---
+
+export const loadImageData = (src: string): Promise<ImageData> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      ctx.drawImage(img, 0, 0);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    img.onerror = () => reject(new Error('The image could not be decoded'));
+    img.src = src;
+  });
+
+// PNG keeps the result lossless, so repeated operations do not accumulate compression artefacts
+export const imageDataToDataUrl = (image: ImageData): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext('2d')!.putImageData(image, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// --- Plumbing ---
+
+// A real ImageData, as putImageData rejects look-alike objects
+const createImage = (width: number, height: number): ImageData => new ImageData(width, height);
+
+// Runs fn on each colour channel as a separate plane
+const mapChannels = (image: ImageData, fn: (plane: Uint8ClampedArray) => Uint8ClampedArray): ImageData => {
+  const { width, height, data } = image;
+  const out = createImage(width, height);
+  const plane = new Uint8ClampedArray(width * height);
+  for (let c = 0; c < 3; c++) {
+    for (let i = 0; i < plane.length; i++) plane[i] = data[i * 4 + c];
+    const result = fn(plane);
+    for (let i = 0; i < plane.length; i++) out.data[i * 4 + c] = result[i];
+  }
+  for (let i = 0; i < plane.length; i++) out.data[i * 4 + 3] = data[i * 4 + 3];
+  return out;
+};
+
+// Running min or max of a window of 2r+1 samples (van Herk / Gil-Werman), clipped at the ends
+const slidingExtremum = (line: Uint8ClampedArray, radius: number, kind: 'min' | 'max'): Uint8ClampedArray => {
+  const k = 2 * radius + 1;
+  const len = line.length + 2 * radius;
+  // Padding with the identity element makes the clipped windows come out right
+  const padded = new Uint8ClampedArray(len).fill(kind === 'max' ? 0 : 255);
+  padded.set(line, radius);
+  const pick = kind === 'max' ? (a: number, b: number) => (a > b ? a : b) : (a: number, b: number) => (a < b ? a : b);
+
+  const forward = new Uint8ClampedArray(len);
+  const backward = new Uint8ClampedArray(len);
+  for (let i = 0; i < len; i++) forward[i] = i % k === 0 ? padded[i] : pick(forward[i - 1], padded[i]);
+  for (let i = len - 1; i >= 0; i--) backward[i] = i === len - 1 || (i + 1) % k === 0 ? padded[i] : pick(backward[i + 1], padded[i]);
+
+  const out = new Uint8ClampedArray(line.length);
+  for (let x = 0; x < line.length; x++) out[x] = pick(backward[x], forward[x + k - 1]);
+  return out;
+};
+
+// Separable min or max over a (2r+1) square
+const extremumFilter = (plane: Uint8ClampedArray, width: number, height: number, radius: number, kind: 'min' | 'max') => {
+  const out = new Uint8ClampedArray(plane.length);
+  for (let y = 0; y < height; y++) {
+    out.set(slidingExtremum(plane.subarray(y * width, (y + 1) * width), radius, kind), y * width);
+  }
+  const column = new Uint8ClampedArray(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) column[y] = out[y * width + x];
+    const filtered = slidingExtremum(column, radius, kind);
+    for (let y = 0; y < height; y++) out[y * width + x] = filtered[y];
+  }
+  return out;
+};
+
+// Separable box blur, averaging only the pixels that fall inside the image
+const boxBlur = (plane: Uint8ClampedArray, width: number, height: number, radius: number) => {
+  const tmp = new Float32Array(plane.length);
+  const out = new Uint8ClampedArray(plane.length);
+  for (let y = 0; y < height; y++) {
+    let sum = 0;
+    let count = 0;
+    for (let x = 0; x <= Math.min(width - 1, radius); x++) { sum += plane[y * width + x]; count++; }
+    for (let x = 0; x < width; x++) {
+      tmp[y * width + x] = sum / count;
+      const add = x + radius + 1;
+      const drop = x - radius;
+      if (add < width) { sum += plane[y * width + add]; count++; }
+      if (drop >= 0) { sum -= plane[y * width + drop]; count--; }
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    let sum = 0;
+    let count = 0;
+    for (let y = 0; y <= Math.min(height - 1, radius); y++) { sum += tmp[y * width + x]; count++; }
+    for (let y = 0; y < height; y++) {
+      out[y * width + x] = Math.round(sum / count);
+      const add = y + radius + 1;
+      const drop = y - radius;
+      if (add < height) { sum += tmp[add * width + x]; count++; }
+      if (drop >= 0) { sum -= tmp[drop * width + x]; count--; }
+    }
+  }
+  return out;
+};
+
+// --- Geometry ---
+
+/**
+ * Rotates clockwise by `degrees` around the centre, growing the canvas to fit
+ * and filling the new corners with paper. Quarter turns are exact.
+ */
+export const rotate = (image: ImageData, degrees: number): ImageData => {
+  const { width, height, data } = image;
+  const quarter = ((Math.round(degrees / 90) % 4) + 4) % 4;
+
+  if (Math.abs(degrees - Math.round(degrees / 90) * 90) < 1e-9) {
+    const outW = quarter % 2 ? height : width;
+    const outH = quarter % 2 ? width : height;
+    const out = createImage(outW, outH);
+    for (let y = 0; y < outH; y++) {
+      for (let x = 0; x < outW; x++) {
+        const [sx, sy] =
+          quarter === 0 ? [x, y] :
+          quarter === 1 ? [y, height - 1 - x] :
+          quarter === 2 ? [width - 1 - x, height - 1 - y] :
+          [width - 1 - y, x];
+        const si = (sy * width + sx) * 4;
+        out.data.set(data.subarray(si, si + 4), (y * outW + x) * 4);
+      }
+    }
+    return out;
+  }
+
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const outW = Math.ceil(Math.abs(width * cos) + Math.abs(height * sin));
+  const outH = Math.ceil(Math.abs(width * sin) + Math.abs(height * cos));
+  const out = createImage(outW, outH);
+  const cx = width / 2, cy = height / 2, ocx = outW / 2, ocy = outH / 2;
+
+  for (let y = 0; y < outH; y++) {
+    for (let x = 0; x < outW; x++) {
+      // Inverse mapping, sampling the source bilinearly at pixel centres
+      const dx = x + 0.5 - ocx;
+      const dy = y + 0.5 - ocy;
+      const sx = dx * cos + dy * sin + cx - 0.5;
+      const sy = -dx * sin + dy * cos + cy - 0.5;
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      const fx = sx - x0, fy = sy - y0;
+      const inside = (px: number, py: number) => px >= 0 && py >= 0 && px < width && py < height;
+      const corners = [[x0, y0], [x0 + 1, y0], [x0, y0 + 1], [x0 + 1, y0 + 1]].map(([px, py]) =>
+        inside(px, py) ? (py * width + px) * 4 : -1
+      );
+      const weights = [(1 - fx) * (1 - fy), fx * (1 - fy), (1 - fx) * fy, fx * fy];
+      const o = (y * outW + x) * 4;
+      for (let c = 0; c < 4; c++) {
+        let v = 0;
+        for (let n = 0; n < 4; n++) {
+          v += weights[n] * (corners[n] < 0 ? (c === 3 ? 255 : PAPER) : data[corners[n] + c]);
+        }
+        out.data[o + c] = Math.round(v);
+      }
+    }
+  }
+  return out;
+};
+
+export const crop = (image: ImageData, box: BoundingBox): ImageData => {
+  const x0 = Math.max(0, Math.floor(box.x));
+  const y0 = Math.max(0, Math.floor(box.y));
+  const x1 = Math.min(image.width, Math.ceil(box.x + box.width));
+  const y1 = Math.min(image.height, Math.ceil(box.y + box.height));
+  const out = createImage(Math.max(1, x1 - x0), Math.max(1, y1 - y0));
+  for (let y = y0; y < y1; y++) {
+    out.data.set(image.data.subarray((y * image.width + x0) * 4, (y * image.width + x1) * 4), (y - y0) * out.width * 4);
+  }
+  return out;
+};
+
+// `box` grown by `margin` on every side, in whole pixels and clipped to the image
+export const expandBox = (box: BoundingBox, margin: number, width: number, height: number): BoundingBox => {
+  const x0 = Math.max(0, Math.floor(box.x - margin));
+  const y0 = Math.max(0, Math.floor(box.y - margin));
+  const x1 = Math.min(width, Math.ceil(box.x + box.width + margin));
+  const y1 = Math.min(height, Math.ceil(box.y + box.height + margin));
+  return { x: x0, y: y0, width: Math.max(1, x1 - x0), height: Math.max(1, y1 - y0) };
+};
+
+// Bilinear resampling to `width` x `height`, sampling at pixel centres
+export const resize = (image: ImageData, width: number, height: number): ImageData => {
+  if (image.width === width && image.height === height) return image;
+  const out = createImage(width, height);
+  const { data } = image;
+  const sx = image.width / width, sy = image.height / height;
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(image.height - 1, Math.max(0, (y + 0.5) * sy - 0.5));
+    const y0 = Math.floor(fy), y1 = Math.min(image.height - 1, y0 + 1), ty = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.min(image.width - 1, Math.max(0, (x + 0.5) * sx - 0.5));
+      const x0 = Math.floor(fx), x1 = Math.min(image.width - 1, x0 + 1), tx = fx - x0;
+      const a = (y0 * image.width + x0) * 4, b = (y0 * image.width + x1) * 4;
+      const c = (y1 * image.width + x0) * 4, d = (y1 * image.width + x1) * 4;
+      const o = (y * width + x) * 4;
+      for (let ch = 0; ch < 4; ch++) {
+        const top = data[a + ch] + (data[b + ch] - data[a + ch]) * tx;
+        const bottom = data[c + ch] + (data[d + ch] - data[c + ch]) * tx;
+        out.data[o + ch] = Math.round(top + (bottom - top) * ty);
+      }
+    }
+  }
+  return out;
+};
+
+/**
+ * Pastes `patch` over `box` of the page, scaled to fit it. Within `feather`
+ * pixels of the box's edges the patch fades into the page, so the seam does
+ * not show; edges lying on the page border are not faded.
+ */
+export const pasteFeathered = (page: ImageData, patch: ImageData, box: BoundingBox, feather: number): ImageData => {
+  const fitted = resize(patch, box.width, box.height);
+  const out = createImage(page.width, page.height);
+  out.data.set(page.data);
+  const edge = (d: number, onBorder: boolean) => (onBorder || feather <= 0 ? 1 : Math.min(1, (d + 0.5) / feather));
+  for (let y = 0; y < box.height; y++) {
+    const py = box.y + y;
+    if (py < 0 || py >= page.height) continue;
+    const wy = Math.min(edge(y, box.y <= 0), edge(box.height - 1 - y, box.y + box.height >= page.height));
+    for (let x = 0; x < box.width; x++) {
+      const px = box.x + x;
+      if (px < 0 || px >= page.width) continue;
+      const w = Math.min(wy, edge(x, box.x <= 0), edge(box.width - 1 - x, box.x + box.width >= page.width));
+      const o = (py * page.width + px) * 4, i = (y * box.width + x) * 4;
+      for (let c = 0; c < 3; c++) out.data[o + c] = Math.round(page.data[o + c] * (1 - w) + fitted.data[i + c] * w);
+    }
+  }
+  return out;
+};
+
+/**
+ * Crops to the bounding box of the ink (by Otsu's threshold), keeping `margin` pixels of paper around it.
+ */
+export const cropToContent = (image: ImageData, margin: number): ImageData => {
+  const gray = toGrayscale(image.data, image.width, image.height);
+  const cutoff = otsuThreshold(gray);
+  let minX = image.width, minY = image.height, maxX = -1, maxY = -1;
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (gray[y * image.width + x] >= cutoff) continue;
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+    }
+  }
+  if (maxX < 0) return image;
+  return crop(image, {
+    x: minX - margin,
+    y: minY - margin,
+    width: maxX - minX + 1 + 2 * margin,
+    height: maxY - minY + 1 + 2 * margin
+  });
+};
+
+/**
+ * Estimates the skew of the text lines in degrees (positive when lines descend
+ * to the right) by finding the angle whose horizontal projection of the ink is most peaked.
+ */
+export const estimateSkew = (image: ImageData, maxAngle = 10, step = 0.1): number => {
+  const { width, height } = image;
+  const gray = toGrayscale(image.data, width, height);
+  const cutoff = otsuThreshold(gray);
+
+  // A few hundred thousand ink samples pin the angle down as well as all of them
+  const stride = Math.max(1, Math.floor((width * height) / 400000));
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < gray.length; i += stride) {
+    if (gray[i] < cutoff) {
+      xs.push(i % width);
+      ys.push(Math.floor(i / width));
+    }
+  }
+  if (xs.length === 0) return 0;
+
+  let best = 0;
+  let bestScore = -1;
+  const offset = width * Math.tan((maxAngle * Math.PI) / 180);
+  const bins = new Float64Array(Math.ceil(height + 2 * offset) + 2);
+  for (let angle = -maxAngle; angle <= maxAngle + 1e-9; angle += step) {
+    const slope = Math.tan((angle * Math.PI) / 180);
+    bins.fill(0);
+    for (let i = 0; i < xs.length; i++) bins[Math.round(ys[i] - xs[i] * slope + offset)]++;
+    let score = 0;
+    for (const b of bins) score += b * b;
+    if (score > bestScore) {
+      bestScore = score;
+      best = angle;
+    }
+  }
+  return Math.round(best * 100) / 100;
+};
+
+export const deskew = (image: ImageData): ImageData => {
+  const angle = estimateSkew(image);
+  return angle === 0 ? image : rotate(image, -angle);
+};
+
+// --- Noise and morphology ---
+
+/**
+ * Median filter over a (2r+1) square, using a sliding histogram per row.
+ */
+export const medianFilter = (image: ImageData, radius: number): ImageData => {
+  const { width, height } = image;
+  return mapChannels(image, plane => {
+    const out = new Uint8ClampedArray(plane.length);
+    const histogram = new Uint32Array(256);
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.max(0, y - radius);
+      const y1 = Math.min(height - 1, y + radius);
+      histogram.fill(0);
+      let count = 0;
+      // Huang's algorithm: track the median and how many window values lie below it
+      let median = 0;
+      let below = 0;
+      const addColumn = (x: number, sign: number) => {
+        for (let yy = y0; yy <= y1; yy++) {
+          const v = plane[yy * width + x];
+          histogram[v] += sign;
+          if (v < median) below += sign;
+        }
+        count += sign * (y1 - y0 + 1);
+      };
+      for (let x = 0; x <= Math.min(width - 1, radius); x++) addColumn(x, 1);
+
+      for (let x = 0; x < width; x++) {
+        const rank = (count - 1) >> 1;
+        while (below > rank) below -= histogram[--median];
+        while (below + histogram[median] <= rank) below += histogram[median++];
+        out[y * width + x] = median;
+        if (x + radius + 1 < width) addColumn(x + radius + 1, 1);
+        if (x - radius >= 0) addColumn(x - radius, -1);
+      }
+    }
+    return out;
+  });
+};
+
+/**
+ * Removes specks: ink blobs (by Otsu's threshold) of at most `maxArea` pixels are painted over with paper.
+ */
+export const despeckle = (image: ImageData, maxArea: number): ImageData => {
+  const { width, height } = image;
+  const gray = toGrayscale(image.data, width, height);
+  const cutoff = otsuThreshold(gray);
+  const mask = new Uint8Array(gray.length);
+  for (let i = 0; i < gray.length; i++) if (gray[i] < cutoff) mask[i] = 1;
+
+  const { labels, stats } = labelComponents(mask, width, height);
+  const out = createImage(width, height);
+  out.data.set(image.data);
+  for (let i = 0; i < labels.length; i++) {
+    if (labels[i] && stats[labels[i] - 1].area <= maxArea) out.data.fill(PAPER, i * 4, i * 4 + 3);
+  }
+  return out;
+};
+
+// Ink is dark, so growing it is a min filter and shrinking it a max filter
+export const dilate = (image: ImageData, radius: number): ImageData =>
+  mapChannels(image, plane => extremumFilter(plane, image.width, image.height, radius, 'min'));
+
+export const erode = (image: ImageData, radius: number): ImageData =>
+  mapChannels(image, plane => extremumFilter(plane, image.width, image.height, radius, 'max'));
+
+// Opening removes ink thinner than the structuring element; closing fills gaps and pinholes in strokes
+export const open = (image: ImageData, radius: number): ImageData => dilate(erode(image, radius), radius);
+
+export const close = (image: ImageData, radius: number): ImageData => erode(dilate(image, radius), radius);
+
+// --- Tone ---
+
+/**
+ * Maps [black, white] to the full range with a gamma curve in between (gamma > 1 lightens midtones).
+ */
+export const levels = (image: ImageData, black: number, white: number, gamma = 1): ImageData => {
+  const lut = new Uint8ClampedArray(256);
+  const range = Math.max(1, white - black);
+  for (let v = 0; v < 256; v++) {
+    const t = Math.min(1, Math.max(0, (v - black) / range));
+    lut[v] = Math.round(255 * Math.pow(t, 1 / gamma));
+  }
+  return mapChannels(image, plane => plane.map(v => lut[v]));
+};
+
+/**
+ * Stretches contrast so that `clip` percent of pixels at either end saturate.
+ */
+export const autoLevels = (image: ImageData, clip = 0.5): ImageData => {
+  const gray = toGrayscale(image.data, image.width, image.height);
+  const histogram = new Uint32Array(256);
+  for (const v of gray) histogram[Math.min(255, Math.round(v))]++;
+  const limit = (gray.length * clip) / 100;
+
+  let black = 0;
+  for (let seen = 0; black < 255 && (seen += histogram[black]) <= limit; black++);
+  let white = 255;
+  for (let seen = 0; white > 0 && (seen += histogram[white]) <= limit; white--);
+  return white > black ? levels(image, black, white) : image;
+};
+
+/**
+ * Evens out lighting, stains and yellowed paper: the background is estimated by
+ * removing ink with a max filter wider than the strokes, smoothed, and divided out.
+ */
+export const flattenBackground = (image: ImageData, radius: number): ImageData => {
+  const { width, height } = image;
+  return mapChannels(image, plane => {
+    const background = boxBlur(extremumFilter(plane, width, height, radius, 'max'), width, height, radius);
+    const out = new Uint8ClampedArray(plane.length);
+    for (let i = 0; i < plane.length; i++) {
+      out[i] = background[i] === 0 ? 0 : Math.round((plane[i] / background[i]) * 255);
+    }
+    return out;
+  });
+};
+
+// --- Comparison ---
+
+const ADDED_INK = [220, 38, 38];
+const REMOVED_INK = [37, 99, 235];
+
+/**
+ * A transparent overlay showing where `current` differs from `earlier`:
+ * red where it is darker (ink added), blue where it is lighter (ink removed),
+ * more opaque the larger the change. Changes under `threshold` grey levels
+ * are left out as noise. An earlier image of another size is scaled to fit.
+ */
+export const differenceMap = (current: ImageData, earlier: ImageData, threshold = 16): ImageData => {
+  const { width, height } = current;
+  const now = toGrayscale(current.data, width, height);
+  const before = toGrayscale(resize(earlier, width, height).data, width, height);
+  const out = createImage(width, height);
+  for (let i = 0; i < now.length; i++) {
+    const delta = now[i] - before[i];
+    if (Math.abs(delta) < threshold) continue;
+    out.data.set(delta < 0 ? ADDED_INK : REMOVED_INK, i * 4);
+    out.data[i * 4 + 3] = Math.min(255, 64 + Math.abs(delta));
+  }
+  return out;
+};
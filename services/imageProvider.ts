@@ -0,0 +1,123 @@
+import { VectorGlyph } from '../types';
+
+/**
+ * Image models behind common interfaces: an edit provider takes a page image
+ * and a prompt and returns the edited image; an identifier tells which
+ * characters a glyph may be. Failures are ImageEditErrors whose kind says
+ * what went wrong and whether trying again may help.
+ */
+
+export interface ImageEditProvider {
+  // Both images are data URLs; the signal cancels the request
+  editImage: (image: string, prompt: string, signal: AbortSignal) => Promise<string>;
+}
+
+export interface CharacterGuess {
+  codepoint: number;
+  // Unicode character name where the provider knows it, otherwise a glyph name
+  name: string;
+  confidence: number; // 0 to 1
+}
+
+export interface CharacterIdentifier {
+  // `image` is the glyph rendered as a data URL; guesses come most likely first
+  identifyCharacter: (glyph: VectorGlyph, image: string, signal: AbortSignal) => Promise<CharacterGuess[]>;
+}
+
+export type ImageProviderId = 'gemini' | 'local';
+
+export interface ImageProviderSettings {
+  provider: ImageProviderId;
+  model: string;
+  // Model that reads glyph images to identify them
+  visionModel: string;
+  // Empty means the key the app was built with
+  apiKey: string;
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash-image';
+export const DEFAULT_GEMINI_VISION_MODEL = 'gemini-2.5-flash';
+
+export const DEFAULT_IMAGE_PROVIDER_SETTINGS: ImageProviderSettings = {
+  provider: 'gemini',
+  model: DEFAULT_GEMINI_MODEL,
+  visionModel: DEFAULT_GEMINI_VISION_MODEL,
+  apiKey: ''
+};
+
+export type ImageEditErrorKind =
+  | 'cancelled'
+  | 'timeout'
+  | 'quota'
+  | 'safety'
+  | 'no-image'
+  | 'no-answer'
+  | 'auth'
+  | 'unavailable'
+  | 'network'
+  | 'unknown';
+
+export class ImageEditError extends Error {
+  kind: ImageEditErrorKind;
+  retryable: boolean;
+
+  constructor(kind: ImageEditErrorKind, message: string, retryable = false) {
+    super(message);
+    this.name = 'ImageEditError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+// What to tell the user for each kind of failure
+export const IMAGE_EDIT_ERROR_MESSAGES: Record<ImageEditErrorKind, string> = {
+  cancelled: 'The edit was cancelled.',
+  timeout: 'The model took too long to answer. Try again, or try a smaller page.',
+  quota: 'The API quota or rate limit is used up. Wait a minute, or use another key.',
+  safety: 'The model refused the request as unsafe. Rephrase the prompt.',
+  'no-image': 'The model answered without an image. Try a more direct prompt.',
+  'no-answer': 'The model gave no usable answer.',
+  auth: 'The API key was rejected. Check it in the model settings.',
+  unavailable: 'The model service is unavailable right now. Try again later.',
+  network: 'The model could not be reached. Check the connection.',
+  unknown: 'Failed to update image. Please try a different prompt.'
+};
+
+export const toImageEditError = (err: unknown): ImageEditError => {
+  if (err instanceof ImageEditError) return err;
+  if (err instanceof DOMException && err.name === 'AbortError') return new ImageEditError('cancelled', 'Cancelled');
+  // fetch rejects with a TypeError when the request never gets an answer
+  if (err instanceof TypeError) return new ImageEditError('network', err.message, true);
+  return new ImageEditError('unknown', err instanceof Error ? err.message : String(err));
+};
+
+// Waits `ms`, or rejects as cancelled as soon as the signal aborts
+export const delay = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(new ImageEditError('cancelled', 'Cancelled'));
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new ImageEditError('cancelled', 'Cancelled'));
+    }, { once: true });
+  });
+
+// Settings stay in this browser and out of project files, so keys are not shared with them
+const SETTINGS_KEY = 'archaictype.imageProvider';
+
+export const loadImageProviderSettings = (): ImageProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) ?? 'null');
+    return stored ? { ...DEFAULT_IMAGE_PROVIDER_SETTINGS, ...stored } : DEFAULT_IMAGE_PROVIDER_SETTINGS;
+  } catch {
+    return DEFAULT_IMAGE_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveImageProviderSettings = (settings: ImageProviderSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn('Could not save the model settings:', err);
+  }
+};
@@ -0,0 +1,195 @@
+/**
+ * Pair kerning between glyphs.
+ *
+ * A pair adjusts the space between a left and a right glyph, in font units.
+ * Either side can name a single glyph or a kerning class, so one value covers
+ * every letter with the same side shape (o c e against T...). When several
+ * pairs apply, the most specific one wins: glyph/glyph, then glyph/class,
+ * then class/glyph, then class/class.
+ */
+
+export type KerningSide = 'left' | 'right';
+
+export interface KerningClass {
+  id: string;
+  name: string;
+  side: KerningSide;
+  glyphIds: string[];
+}
+
+export interface KerningRef {
+  type: 'glyph' | 'class';
+  id: string;
+}
+
+export interface KerningPair {
+  left: KerningRef;
+  right: KerningRef;
+  value: number;
+}
+
+export interface Kerning {
+  classes: KerningClass[];
+  pairs: KerningPair[];
+}
+
+export const EMPTY_KERNING: Kerning = { classes: [], pairs: [] };
+
+/**
+ * Kerning compiled against the glyph order of a font. Glyph pairs are looked
+ * up before class pairs, so they also carry the exceptions to class kerning.
+ */
+export interface FontKerning {
+  pairs: { left: number; right: number; value: number }[];
+  // Glyph indices of each class; classPairs refer to classes by position
+  leftClasses: number[][];
+  rightClasses: number[][];
+  classPairs: { left: number; right: number; value: number }[];
+}
+
+export const isKerningEmpty = (kerning: FontKerning): boolean =>
+  kerning.pairs.length === 0 && kerning.classPairs.length === 0;
+
+const sameRef = (a: KerningRef, b: KerningRef): boolean => a.type === b.type && a.id === b.id;
+
+const glyphRef = (id: string): KerningRef => ({ type: 'glyph', id });
+
+export const classOf = (kerning: Kerning, glyphId: string, side: KerningSide): KerningClass | undefined =>
+  kerning.classes.find(c => c.side === side && c.glyphIds.includes(glyphId));
+
+export const findPair = (kerning: Kerning, left: KerningRef, right: KerningRef): KerningPair | undefined =>
+  kerning.pairs.find(p => sameRef(p.left, left) && sameRef(p.right, right));
+
+// The pair that applies between two glyphs, if any
+export const resolvePair = (kerning: Kerning, leftId: string, rightId: string): KerningPair | undefined => {
+  const leftClass = classOf(kerning, leftId, 'left');
+  const rightClass = classOf(kerning, rightId, 'right');
+  const lefts = [glyphRef(leftId), ...(leftClass ? [{ type: 'class' as const, id: leftClass.id }] : [])];
+  const rights = [glyphRef(rightId), ...(rightClass ? [{ type: 'class' as const, id: rightClass.id }] : [])];
+  // Glyph/glyph, glyph/class, class/glyph, class/class
+  for (const left of lefts) {
+    for (const right of rights) {
+      const pair = findPair(kerning, left, right);
+      if (pair) return pair;
+    }
+  }
+  return undefined;
+};
+
+export const kerningValue = (kerning: Kerning, leftId: string, rightId: string): number =>
+  resolvePair(kerning, leftId, rightId)?.value ?? 0;
+
+// A zero value is kept: it can be an exception to a class pair
+export const setPairValue = (kerning: Kerning, left: KerningRef, right: KerningRef, value: number): Kerning => ({
+  ...kerning,
+  pairs: [...kerning.pairs.filter(p => !(sameRef(p.left, left) && sameRef(p.right, right))), { left, right, value: Math.round(value) }]
+});
+
+export const removePair = (kerning: Kerning, left: KerningRef, right: KerningRef): Kerning => ({
+  ...kerning,
+  pairs: kerning.pairs.filter(p => !(sameRef(p.left, left) && sameRef(p.right, right)))
+});
+
+const createClassId = (): string => `class-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createClass = (kerning: Kerning, side: KerningSide, name: string, glyphId: string): Kerning => {
+  const id = createClassId();
+  return assignToClass({ ...kerning, classes: [...kerning.classes, { id, name, side, glyphIds: [] }] }, glyphId, side, id);
+};
+
+/**
+ * Moves a glyph into a class, or out of every class on that side when
+ * `classId` is null. A glyph belongs to at most one class per side.
+ */
+export const assignToClass = (kerning: Kerning, glyphId: string, side: KerningSide, classId: string | null): Kerning => ({
+  ...kerning,
+  classes: kerning.classes.map(c => {
+    if (c.side !== side) return c;
+    const glyphIds = c.glyphIds.filter(id => id !== glyphId);
+    return { ...c, glyphIds: c.id === classId ? [...glyphIds, glyphId] : glyphIds };
+  })
+});
+
+export const renameClass = (kerning: Kerning, classId: string, name: string): Kerning => ({
+  ...kerning,
+  classes: kerning.classes.map(c => (c.id === classId ? { ...c, name } : c))
+});
+
+export const deleteClass = (kerning: Kerning, classId: string): Kerning => ({
+  classes: kerning.classes.filter(c => c.id !== classId),
+  pairs: kerning.pairs.filter(p => !(p.left.type === 'class' && p.left.id === classId) && !(p.right.type === 'class' && p.right.id === classId))
+});
+
+// Drops a deleted glyph from every class and pair
+export const removeGlyphFromKerning = (kerning: Kerning, glyphId: string): Kerning => ({
+  classes: kerning.classes.map(c => ({ ...c, glyphIds: c.glyphIds.filter(id => id !== glyphId) })),
+  pairs: kerning.pairs.filter(p => !sameRef(p.left, glyphRef(glyphId)) && !sameRef(p.right, glyphRef(glyphId)))
+});
+
+export const scaleKerning = (kerning: Kerning, factor: number): Kerning => ({
+  ...kerning,
+  pairs: kerning.pairs.map(p => ({ ...p, value: Math.round(p.value * factor) }))
+});
+
+const members = (kerning: Kerning, ref: KerningRef): string[] =>
+  ref.type === 'glyph' ? [ref.id] : kerning.classes.find(c => c.id === ref.id)?.glyphIds ?? [];
+
+/**
+ * Resolves the kerning to glyph indices. Pairs naming at least one single
+ * glyph are expanded to glyph pairs carrying the value that wins for them;
+ * class/class pairs stay as classes.
+ */
+export const compileKerning = (kerning: Kerning, glyphIndex: Map<string, number>): FontKerning => {
+  const compileClasses = (side: KerningSide) => {
+    const classes = kerning.classes
+      .filter(c => c.side === side)
+      .map(c => ({ id: c.id, glyphs: c.glyphIds.filter(id => glyphIndex.has(id)).map(id => glyphIndex.get(id)!).sort((a, b) => a - b) }))
+      .filter(c => c.glyphs.length > 0);
+    return { glyphs: classes.map(c => c.glyphs), position: new Map(classes.map((c, i) => [c.id, i])) };
+  };
+  const left = compileClasses('left');
+  const right = compileClasses('right');
+
+  const classPairs = kerning.pairs
+    .filter(p => p.left.type === 'class' && p.right.type === 'class' && p.value !== 0)
+    .filter(p => left.position.has(p.left.id) && right.position.has(p.right.id))
+    .map(p => ({ left: left.position.get(p.left.id)!, right: right.position.get(p.right.id)!, value: p.value }));
+
+  const pairs = new Map<string, { left: number; right: number; value: number }>();
+  kerning.pairs
+    .filter(p => p.left.type === 'glyph' || p.right.type === 'glyph')
+    .forEach(p => {
+      for (const l of members(kerning, p.left)) {
+        for (const r of members(kerning, p.right)) {
+          if (!glyphIndex.has(l) || !glyphIndex.has(r)) continue;
+          const leftGid = glyphIndex.get(l)!;
+          const rightGid = glyphIndex.get(r)!;
+          pairs.set(`${leftGid},${rightGid}`, { left: leftGid, right: rightGid, value: kerningValue(kerning, l, r) });
+        }
+      }
+    });
+
+  return {
+    pairs: [...pairs.values()].sort((a, b) => a.left - b.left || a.right - b.right),
+    leftClasses: left.glyphs,
+    rightClasses: right.glyphs,
+    classPairs
+  };
+};
+
+/**
+ * Expands class kerning into plain glyph pairs, for formats without classes.
+ * Zero-valued pairs are left out.
+ */
+export const flattenKerning = (kerning: FontKerning): { left: number; right: number; value: number }[] => {
+  const pairs = new Map<string, { left: number; right: number; value: number }>();
+  for (const p of kerning.classPairs) {
+    for (const left of kerning.leftClasses[p.left]) {
+      for (const right of kerning.rightClasses[p.right]) {
+        pairs.set(`${left},${right}`, { left, right, value: p.value });
+      }
+    }
+  }
+  kerning.pairs.forEach(p => pairs.set(`${p.left},${p.right}`, p));
+  return [...pairs.values()].filter(p => p.value !== 0).sort((a, b) => a.left - b.left || a.right - b.right);
+};
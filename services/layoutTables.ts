@@ -0,0 +1,406 @@
+import { BinaryWriter, binarySearchParams } from './sfnt';
+import { FontKerning, flattenKerning } from './kerning';
+import { FontSubstitutions, POSITIONAL_ORDER } from './substitutions';
+
+/**
+ * Builders for the OpenType layout tables (GSUB, GPOS) and the legacy kern table.
+ *
+ * Every feature is registered for the default script and for Latin, with
+ * no language-specific systems.
+ */
+
+export interface LayoutLookup {
+  type: number;
+  subtables: Uint8Array[];
+}
+
+export interface LayoutFeature {
+  tag: string;
+  // Indices into the lookup list; lookups are applied in list order, whatever the feature order
+  lookupIndices: number[];
+}
+
+const SCRIPT_TAGS = ['DFLT', 'latn'];
+
+// Offsets inside layout tables are 16 bits; larger lookups go through extension subtables
+const MAX_OFFSET = 0xffff;
+
+// Coverage format 1: a sorted list of glyph indices
+export const buildCoverage = (glyphs: number[]): Uint8Array => {
+  const w = new BinaryWriter().uint16(1).uint16(glyphs.length);
+  glyphs.forEach(g => w.uint16(g));
+  return w.toUint8Array();
+};
+
+// ClassDef format 2: runs of consecutive glyphs in the same class; class n is classes[n - 1]
+export const buildClassDef = (classes: number[][]): Uint8Array => {
+  const entries = classes.flatMap((glyphs, i) => glyphs.map(g => ({ glyph: g, cls: i + 1 }))).sort((a, b) => a.glyph - b.glyph);
+  const ranges: { start: number; end: number; cls: number }[] = [];
+  for (const e of entries) {
+    const last = ranges[ranges.length - 1];
+    if (last && e.glyph === last.end + 1 && e.cls === last.cls) last.end = e.glyph;
+    else ranges.push({ start: e.glyph, end: e.glyph, cls: e.cls });
+  }
+  const w = new BinaryWriter().uint16(2).uint16(ranges.length);
+  ranges.forEach(r => w.uint16(r.start).uint16(r.end).uint16(r.cls));
+  return w.toUint8Array();
+};
+
+const buildLangSys = (featureCount: number): Uint8Array => {
+  const w = new BinaryWriter()
+    .uint16(0)                         // lookupOrderOffset
+    .uint16(0xffff)                    // requiredFeatureIndex: none
+    .uint16(featureCount);
+  for (let i = 0; i < featureCount; i++) w.uint16(i);
+  return w.toUint8Array();
+};
+
+const buildScriptList = (featureCount: number): Uint8Array => {
+  const langSys = buildLangSys(featureCount);
+  // Script table: the default LangSys follows its 4-byte header, with no language records
+  const script = new BinaryWriter().uint16(4).uint16(0).bytes(langSys).toUint8Array();
+  const w = new BinaryWriter().uint16(SCRIPT_TAGS.length);
+  // Every script shares the same Script table
+  SCRIPT_TAGS.forEach(tag => w.tag(tag).uint16(2 + SCRIPT_TAGS.length * 6));
+  return w.bytes(script).toUint8Array();
+};
+
+const buildFeatureList = (features: LayoutFeature[]): Uint8Array => {
+  const w = new BinaryWriter().uint16(features.length);
+  const tables: Uint8Array[] = [];
+  let offset = 2 + features.length * 6;
+  for (const f of features) {
+    const feature = new BinaryWriter().uint16(0).uint16(f.lookupIndices.length); // no feature params
+    f.lookupIndices.forEach(i => feature.uint16(i));
+    const data = feature.toUint8Array();
+    w.tag(f.tag).uint16(offset);
+    tables.push(data);
+    offset += data.length;
+  }
+  tables.forEach(t => w.bytes(t));
+  return w.toUint8Array();
+};
+
+/**
+ * The lookup list. Lookup headers come first and subtable data after them;
+ * when the data outgrows 16-bit offsets, each subtable is reached through an
+ * extension subtable with a 32-bit offset instead.
+ */
+const buildLookupList = (lookups: LayoutLookup[], extensionType: number): Uint8Array => {
+  const headerSize = 2 + lookups.length * 2;
+  const lookupSizes = lookups.map(l => 6 + l.subtables.length * 2);
+  const lookupsEnd = headerSize + lookupSizes.reduce((s, n) => s + n, 0);
+  const dataSize = lookups.reduce((s, l) => s + l.subtables.reduce((t, d) => t + d.length, 0), 0);
+  const useExtensions = lookupsEnd + dataSize > MAX_OFFSET;
+
+  const w = new BinaryWriter().uint16(lookups.length);
+  let offset = headerSize;
+  lookupSizes.forEach(size => {
+    w.uint16(offset);
+    offset += size;
+  });
+
+  // Position of the first subtable (or extension subtable) of each lookup, from the list start
+  let cursor = lookupsEnd;
+  const subtableOffsets = lookups.map(l =>
+    l.subtables.map(d => {
+      const at = cursor;
+      cursor += useExtensions ? 8 : d.length;
+      return at;
+    })
+  );
+
+  let lookupStart = headerSize;
+  lookups.forEach((l, i) => {
+    w.uint16(useExtensions ? extensionType : l.type).uint16(0).uint16(l.subtables.length);
+    subtableOffsets[i].forEach(at => w.uint16(at - lookupStart));
+    lookupStart += lookupSizes[i];
+  });
+
+  if (useExtensions) {
+    let dataOffset = cursor;
+    lookups.forEach((l, i) =>
+      l.subtables.forEach((d, j) => {
+        // Extension format 1: the real type and a 32-bit offset from the extension subtable
+        w.uint16(1).uint16(l.type).uint32(dataOffset - subtableOffsets[i][j]);
+        dataOffset += d.length;
+      })
+    );
+  }
+  lookups.forEach(l => l.subtables.forEach(d => w.bytes(d)));
+  return w.toUint8Array();
+};
+
+/**
+ * Assembles a GSUB or GPOS table from its features and lookups. Lookups
+ * that no feature lists are only reached from other lookups.
+ */
+export const buildLayoutTable = (features: LayoutFeature[], lookups: LayoutLookup[], extensionType: number): Uint8Array => {
+  const sorted = [...features].sort((a, b) => (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0));
+  const scriptList = buildScriptList(sorted.length);
+  const featureList = buildFeatureList(sorted);
+  const lookupList = buildLookupList(lookups, extensionType);
+  const headerSize = 10;
+  return new BinaryWriter()
+    .uint16(1).uint16(0)               // version 1.0
+    .uint16(headerSize)
+    .uint16(headerSize + scriptList.length)
+    .uint16(headerSize + scriptList.length + featureList.length)
+    .bytes(scriptList)
+    .bytes(featureList)
+    .bytes(lookupList)
+    .toUint8Array();
+};
+
+// ValueRecord holding only an x advance adjustment, on the first glyph of a pair
+const VALUE_FORMAT_X_ADVANCE = 0x0004;
+
+/**
+ * PairPos format 1 subtables for glyph pairs, split so each one stays
+ * within 16-bit offsets.
+ */
+const buildPairPosFormat1 = (pairs: FontKerning['pairs']): Uint8Array[] => {
+  const byLeft = new Map<number, { right: number; value: number }[]>();
+  pairs.forEach(p => {
+    if (!byLeft.has(p.left)) byLeft.set(p.left, []);
+    byLeft.get(p.left)!.push({ right: p.right, value: p.value });
+  });
+  const lefts = [...byLeft.keys()].sort((a, b) => a - b);
+
+  const chunks: number[][] = [[]];
+  let size = 10;
+  for (const left of lefts) {
+    // PairSet, its offset and its coverage entry
+    const extra = 2 + byLeft.get(left)!.length * 4 + 4;
+    if (chunks[chunks.length - 1].length > 0 && size + extra > MAX_OFFSET - 4) {
+      chunks.push([]);
+      size = 10;
+    }
+    chunks[chunks.length - 1].push(left);
+    size += extra;
+  }
+
+  return chunks.filter(c => c.length > 0).map(chunk => {
+    const pairSets = chunk.map(left => {
+      const w = new BinaryWriter().uint16(byLeft.get(left)!.length);
+      byLeft.get(left)!.sort((a, b) => a.right - b.right).forEach(p => w.uint16(p.right).int16(p.value));
+      return w.toUint8Array();
+    });
+    const headerSize = 10 + chunk.length * 2;
+    const pairSetsSize = pairSets.reduce((s, d) => s + d.length, 0);
+    const w = new BinaryWriter()
+      .uint16(1)
+      .uint16(headerSize + pairSetsSize) // coverage comes last
+      .uint16(VALUE_FORMAT_X_ADVANCE)
+      .uint16(0)
+      .uint16(chunk.length);
+    let offset = headerSize;
+    pairSets.forEach(d => {
+      w.uint16(offset);
+      offset += d.length;
+    });
+    pairSets.forEach(d => w.bytes(d));
+    return w.bytes(buildCoverage(chunk)).toUint8Array();
+  });
+};
+
+// PairPos format 2: a matrix of values between left and right classes; class 0 is every other glyph
+const buildPairPosFormat2 = (kerning: FontKerning): Uint8Array => {
+  const class1Count = kerning.leftClasses.length + 1;
+  const class2Count = kerning.rightClasses.length + 1;
+  const values = new Map(kerning.classPairs.map(p => [`${p.left + 1},${p.right + 1}`, p.value]));
+
+  const coverage = buildCoverage(kerning.leftClasses.flat().sort((a, b) => a - b));
+  const classDef1 = buildClassDef(kerning.leftClasses);
+  const classDef2 = buildClassDef(kerning.rightClasses);
+  const headerSize = 16 + class1Count * class2Count * 2;
+  if (headerSize + coverage.length + classDef1.length + classDef2.length > MAX_OFFSET) {
+    throw new Error('There are too many kerning classes to export. Merge some of them.');
+  }
+
+  const w = new BinaryWriter()
+    .uint16(2)
+    .uint16(headerSize)
+    .uint16(VALUE_FORMAT_X_ADVANCE)
+    .uint16(0)
+    .uint16(headerSize + coverage.length)
+    .uint16(headerSize + coverage.length + classDef1.length)
+    .uint16(class1Count)
+    .uint16(class2Count);
+  for (let c1 = 0; c1 < class1Count; c1++) {
+    for (let c2 = 0; c2 < class2Count; c2++) w.int16(values.get(`${c1},${c2}`) ?? 0);
+  }
+  return w.bytes(coverage).bytes(classDef1).bytes(classDef2).toUint8Array();
+};
+
+/**
+ * GPOS with a single kern feature. Glyph pairs come before the class
+ * subtable: a pair lookup stops at the first subtable holding the pair, so
+ * glyph pairs override class kerning.
+ */
+export const buildGpos = (kerning: FontKerning): Uint8Array => {
+  const subtables = buildPairPosFormat1(kerning.pairs);
+  if (kerning.classPairs.length > 0) subtables.push(buildPairPosFormat2(kerning));
+  return buildLayoutTable([{ tag: 'kern', lookupIndices: [0] }], [{ type: 2, subtables }], 9);
+};
+
+// A format 0 subtable length is 16 bits, which caps the number of pairs
+export const MAX_KERN_PAIRS = Math.floor((0xffff - 14) / 6);
+
+/**
+ * The legacy kern table (version 0, one format 0 subtable) for applications
+ * that ignore GPOS. Classes are flattened to glyph pairs; past MAX_KERN_PAIRS
+ * the rest are left to GPOS only, which buildFontModel warns about.
+ */
+export const buildKern = (kerning: FontKerning): Uint8Array => {
+  const pairs = flattenKerning(kerning).slice(0, MAX_KERN_PAIRS);
+  const { searchRange, entrySelector, rangeShift } = pairs.length
+    ? binarySearchParams(pairs.length, 6)
+    : { searchRange: 0, entrySelector: 0, rangeShift: 0 };
+  const w = new BinaryWriter()
+    .uint16(0)                         // version
+    .uint16(1)                         // nTables
+    .uint16(0)                         // subtable version
+    .uint16(14 + pairs.length * 6)
+    .uint16(0x0001)                    // coverage: horizontal, format 0
+    .uint16(pairs.length)
+    .uint16(searchRange).uint16(entrySelector).uint16(rangeShift);
+  pairs.forEach(p => w.uint16(p.left).uint16(p.right).int16(p.value));
+  return w.toUint8Array();
+};
+
+// SingleSubst format 2: each covered glyph is replaced by the glyph at the same position
+const buildSingleSubst = (mapping: Map<number, number>): Uint8Array => {
+  const from = [...mapping.keys()].sort((a, b) => a - b);
+  const w = new BinaryWriter()
+    .uint16(2)
+    .uint16(6 + from.length * 2)
+    .uint16(from.length);
+  from.forEach(g => w.uint16(mapping.get(g)!));
+  return w.bytes(buildCoverage(from)).toUint8Array();
+};
+
+// LigatureSubst format 1; within a set, longer ligatures are tried first
+const buildLigatureSubst = (ligatures: { components: number[]; glyph: number }[]): Uint8Array => {
+  const byFirst = new Map<number, { components: number[]; glyph: number }[]>();
+  ligatures.forEach(l => {
+    if (!byFirst.has(l.components[0])) byFirst.set(l.components[0], []);
+    byFirst.get(l.components[0])!.push(l);
+  });
+  const firsts = [...byFirst.keys()].sort((a, b) => a - b);
+
+  const sets = firsts.map(first => {
+    const ligs = byFirst.get(first)!.sort((a, b) => b.components.length - a.components.length);
+    const tables = ligs.map(l => {
+      const t = new BinaryWriter().uint16(l.glyph).uint16(l.components.length);
+      l.components.slice(1).forEach(g => t.uint16(g));
+      return t.toUint8Array();
+    });
+    const w = new BinaryWriter().uint16(tables.length);
+    let offset = 2 + tables.length * 2;
+    tables.forEach(t => {
+      w.uint16(offset);
+      offset += t.length;
+    });
+    tables.forEach(t => w.bytes(t));
+    return w.toUint8Array();
+  });
+
+  const headerSize = 6 + sets.length * 2;
+  const setsSize = sets.reduce((s, d) => s + d.length, 0);
+  const w = new BinaryWriter()
+    .uint16(1)
+    .uint16(headerSize + setsSize)
+    .uint16(sets.length);
+  let offset = headerSize;
+  sets.forEach(d => {
+    w.uint16(offset);
+    offset += d.length;
+  });
+  sets.forEach(d => w.bytes(d));
+  return w.bytes(buildCoverage(firsts)).toUint8Array();
+};
+
+/**
+ * ChainContextSubst format 3: one glyph set per position of the backtrack
+ * (nearest first), input and lookahead sequences. A rule without lookups
+ * still matches, which stops the lookup there: that is how "ignore" rules work.
+ */
+const buildChainRule = (backtrack: number[][], input: number[][], lookahead: number[][], lookupIndex?: number): Uint8Array => {
+  const sets = [...backtrack, ...input, ...lookahead].map(glyphs => buildCoverage([...new Set(glyphs)].sort((a, b) => a - b)));
+  const seqLookupCount = lookupIndex === undefined ? 0 : 1;
+  const headerSize = 2 + 2 + backtrack.length * 2 + 2 + input.length * 2 + 2 + lookahead.length * 2 + 2 + seqLookupCount * 4;
+
+  const offsets: number[] = [];
+  let offset = headerSize;
+  sets.forEach(d => {
+    offsets.push(offset);
+    offset += d.length;
+  });
+
+  const w = new BinaryWriter().uint16(3);
+  let i = 0;
+  for (const group of [backtrack, input, lookahead]) {
+    w.uint16(group.length);
+    group.forEach(() => w.uint16(offsets[i++]));
+  }
+  w.uint16(seqLookupCount);
+  if (lookupIndex !== undefined) w.uint16(0).uint16(lookupIndex);
+  sets.forEach(d => w.bytes(d));
+  return w.toUint8Array();
+};
+
+/**
+ * GSUB for the glyph substitutions. Lookups run in this order: alternates
+ * (salt, hist, ssNN), contextual and positional forms (calt), then ligatures,
+ * so a ligature can form from glyphs the earlier lookups put in place.
+ */
+export const buildGsub = (subs: FontSubstitutions): Uint8Array => {
+  const lookups: LayoutLookup[] = [];
+  const features = new Map<string, number[]>();
+  const addLookup = (lookup: LayoutLookup, tag?: string): number => {
+    lookups.push(lookup);
+    if (tag) features.set(tag, [...(features.get(tag) ?? []), lookups.length - 1]);
+    return lookups.length - 1;
+  };
+  const single = (pairs: { base: number; glyph: number }[]): LayoutLookup => ({
+    type: 1,
+    subtables: [buildSingleSubst(new Map(pairs.map(p => [p.base, p.glyph])))]
+  });
+
+  [...new Set(subs.alternates.map(a => a.feature))].sort().forEach(tag => {
+    addLookup(single(subs.alternates.filter(a => a.feature === tag)), tag);
+  });
+
+  // Contextual alternates: each rule substitutes through its own single lookup
+  if (subs.contextual.length > 0) {
+    const rules = subs.contextual.map(c => ({ ...c, lookup: addLookup(single([c])) }));
+    addLookup({
+      type: 6,
+      subtables: rules.map(r => buildChainRule(r.before.length ? [r.before] : [], [[r.base]], r.after.length ? [r.after] : [], r.lookup))
+    }, 'calt');
+  }
+
+  // Positional forms, decided by whether letters come before and after the glyph
+  const letters = subs.letters;
+  POSITIONAL_ORDER.forEach(form => {
+    const rules = subs.positional.filter(p => p.form === form);
+    if (rules.length === 0) return;
+    const bases = rules.map(r => r.base);
+    const lookup = addLookup(single(rules));
+    const subtables = {
+      medi: [buildChainRule([letters], [bases], [letters], lookup)],
+      init: [buildChainRule([letters], [bases], []), buildChainRule([], [bases], [letters], lookup)],
+      fina: [buildChainRule([], [bases], [letters]), buildChainRule([letters], [bases], [], lookup)],
+      isol: [buildChainRule([letters], [bases], []), buildChainRule([], [bases], [letters]), buildChainRule([], [bases], [], lookup)]
+    }[form];
+    addLookup({ type: 6, subtables }, 'calt');
+  });
+
+  (['liga', 'dlig', 'hlig'] as const).forEach(tag => {
+    const ligatures = subs.ligatures.filter(l => l.feature === tag);
+    if (ligatures.length > 0) addLookup({ type: 4, subtables: [buildLigatureSubst(ligatures)] }, tag);
+  });
+
+  return buildLayoutTable([...features].map(([tag, lookupIndices]) => ({ tag, lookupIndices })), lookups, 7);
+};
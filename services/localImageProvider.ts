@@ -0,0 +1,96 @@
+import { VectorGlyph } from '../types';
+import { CharacterGuess, CharacterIdentifier, ImageEditError, ImageEditProvider, delay } from './imageProvider';
+import { DEFAULT_CLUSTER_DISTANCE, describeShape, shapeDistance } from './clustering';
+import { glyphNameForCodepoint } from './unicode';
+import {
+  autoLevels,
+  despeckle,
+  dilate,
+  erode,
+  flattenBackground,
+  imageDataToDataUrl,
+  loadImageData
+} from './imageOps';
+
+interface LocalEdit {
+  label: string;
+  pattern: RegExp;
+  apply: (image: ImageData) => ImageData;
+}
+
+// Applied in this order, each when a word of the prompt starts with one of its keywords
+const LOCAL_EDITS: LocalEdit[] = [
+  { label: 'Flatten background', pattern: /\b(background|paper|texture|stain|white)/i, apply: image => flattenBackground(image, 15) },
+  { label: 'Despeckle', pattern: /\b(noise|speck|dust|dirt|spot)/i, apply: image => despeckle(image, 8) },
+  { label: 'Auto levels', pattern: /\b(contrast|black|dark|faded|sharp)/i, apply: image => autoLevels(image) },
+  { label: 'Thicken', pattern: /\b(thick|bold|heav)/i, apply: image => dilate(image, 1) },
+  { label: 'Thin', pattern: /\b(thin|light(?!en))/i, apply: image => erode(image, 1) }
+];
+
+/**
+ * The local edits a prompt asks for, by keyword. A prompt naming none gets
+ * auto levels, so every prompt changes something.
+ */
+export const localEditsForPrompt = (prompt: string): LocalEdit[] => {
+  const edits = LOCAL_EDITS.filter(e => e.pattern.test(prompt));
+  return edits.length ? edits : [LOCAL_EDITS[2]];
+};
+
+// The pixels the local provider returns for `prompt`; no canvas is needed, so it runs outside the browser too
+export const applyLocalEdits = (image: ImageData, prompt: string): ImageData =>
+  localEditsForPrompt(prompt).reduce((data, edit) => edit.apply(data), image);
+
+/**
+ * A stand-in for an image model that runs the deterministic cleanup
+ * operations chosen by keywords in the prompt. Works offline, needs no key,
+ * and gives the same output for the same input. `latency` simulates a
+ * model's response time so cancelling can be tried.
+ */
+export const createLocalProvider = (latency = 600): ImageEditProvider => ({
+  editImage: async (image, prompt, signal) => {
+    await delay(latency, signal);
+    const data = applyLocalEdits(await loadImageData(image), prompt);
+    if (signal.aborted) throw new ImageEditError('cancelled', 'Cancelled');
+    return imageDataToDataUrl(data);
+  }
+});
+
+const MAX_GUESSES = 5;
+
+/**
+ * A stand-in for a vision model that names a glyph after the labelled glyphs
+ * it looks most like: each character carried by `references` is scored by
+ * its closest glyph's shape distance, and twice the clustering distance
+ * counts as no likeness at all. Offline and deterministic; it only knows
+ * characters the project already has.
+ */
+export const createLocalIdentifier = (references: VectorGlyph[], latency = 150): CharacterIdentifier => {
+  const described = references
+    .filter(g => !g.sampleOf && g.codepoints.length > 0)
+    .map(g => ({ glyph: g, shape: describeShape(g) }));
+
+  return {
+    identifyCharacter: async (glyph, _image, signal) => {
+      await delay(latency, signal);
+      const shape = describeShape(glyph);
+      if (!shape) return [];
+
+      const best = new Map<number, number>();
+      for (const ref of described) {
+        if (ref.glyph.id === glyph.id || !ref.shape) continue;
+        const distance = shapeDistance(shape, ref.shape);
+        const cp = ref.glyph.codepoints[0];
+        if (distance < (best.get(cp) ?? Infinity)) best.set(cp, distance);
+      }
+
+      const guesses: CharacterGuess[] = [...best]
+        .map(([codepoint, distance]) => ({
+          codepoint,
+          name: glyphNameForCodepoint(codepoint),
+          confidence: Math.max(0, 1 - distance / (2 * DEFAULT_CLUSTER_DISTANCE))
+        }))
+        .filter(g => g.confidence > 0);
+      return guesses.sort((a, b) => b.confidence - a.confidence).slice(0, MAX_GUESSES);
+    }
+  };
+};
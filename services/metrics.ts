@@ -0,0 +1,143 @@
+import { BoundingBox, FontMetrics, VectorGlyph } from '../types';
+import { contoursToSvgPath, parseSvgPath, transformContours } from './svgPath';
+import { groupLines } from './segmentation';
+
+/**
+ * Bringing glyphs cut from page images into one coordinate system.
+ *
+ * On the page, the baseline and x-height guides tell where a line of text
+ * sits and how big its letters are; the project metrics say how big the
+ * x-height is in font units. Together they give the scale from page pixels
+ * to font units, so glyphs from different pages and zooms line up.
+ */
+
+export const DEFAULT_METRICS: FontMetrics = {
+  unitsPerEm: 1000,
+  ascender: 800,
+  descender: -200,
+  xHeight: 400,
+  capHeight: 700
+};
+
+// Guides on a page image, as y positions in image pixels (y down)
+export interface PageGuides {
+  baseline: number;
+  xHeight: number; // The mean line, above the baseline, so smaller than `baseline`
+}
+
+export type MetricLine = 'ascender' | 'capHeight' | 'xHeight' | 'baseline' | 'descender';
+
+export const METRIC_LINES: { id: MetricLine; label: string }[] = [
+  { id: 'ascender', label: 'Ascender' },
+  { id: 'capHeight', label: 'Cap height' },
+  { id: 'xHeight', label: 'x-height' },
+  { id: 'baseline', label: 'Baseline' },
+  { id: 'descender', label: 'Descender' }
+];
+
+// Height of each line above the baseline, in font units
+export const metricValue = (metrics: FontMetrics, line: MetricLine): number =>
+  line === 'baseline' ? 0 : metrics[line];
+
+// How a piece of the page maps to font units: baseline position in pixels and the scale
+export interface PixelFrame {
+  baseline: number;
+  unitsPerPixel: number;
+}
+
+export const frameFromGuides = (guides: PageGuides, metrics: FontMetrics): PixelFrame => ({
+  baseline: guides.baseline,
+  unitsPerPixel: metrics.xHeight / Math.max(1, guides.baseline - guides.xHeight)
+});
+
+/**
+ * Where every metric line falls on the page, in image pixels, for the given guides.
+ */
+export const guideLinePositions = (guides: PageGuides, metrics: FontMetrics): { id: MetricLine; label: string; y: number }[] => {
+  const { baseline, unitsPerPixel } = frameFromGuides(guides, metrics);
+  return METRIC_LINES.map(line => ({ ...line, y: baseline - metricValue(metrics, line.id) / unitsPerPixel }));
+};
+
+/**
+ * Converts an outline traced from `box` of the page (pixels relative to the
+ * box, y down) into font units, y up, with the baseline at 0 and the left
+ * edge of the box at x = 0. The box width becomes the advance width.
+ */
+export const normalizeOutline = (
+  svgPath: string,
+  box: BoundingBox,
+  frame: PixelFrame
+): { svgPath: string; advanceWidth: number } => {
+  const u = frame.unitsPerPixel;
+  const contours = transformContours(parseSvgPath(svgPath), p => ({
+    x: p.x * u,
+    y: (frame.baseline - (box.y + p.y)) * u
+  }));
+  return { svgPath: contoursToSvgPath(contours), advanceWidth: Math.round(box.width * u) };
+};
+
+/**
+ * Baseline of each box's text line, taken as the median bottom edge of the
+ * line so that descenders do not drag it down. Returned in the order given.
+ */
+export const estimateBaselines = (boxes: BoundingBox[]): number[] => {
+  const baselines = new Array<number>(boxes.length);
+  const items = boxes.map((box, index) => ({ box, index }));
+  for (const line of groupLines(items)) {
+    const bottoms = line.map(i => i.box.y + i.box.height).sort((a, b) => a - b);
+    const baseline = bottoms[Math.floor(bottoms.length / 2)];
+    line.forEach(i => { baselines[i.index] = baseline; });
+  }
+  return baselines;
+};
+
+/**
+ * Scale for a page without guides, taking the median height of the letters
+ * found on it as the x-height. Capitals, descenders and marks are outnumbered
+ * by x-height letters in running text, so they barely move the median.
+ */
+export const estimateUnitsPerPixel = (boxes: BoundingBox[], metrics: FontMetrics): number => {
+  const heights = boxes.map(b => b.height).sort((a, b) => a - b);
+  return metrics.xHeight / Math.max(1, heights[Math.floor(heights.length / 2)] ?? 0);
+};
+
+/**
+ * Baseline of the text line whose letters sit closest to the middle of `box`,
+ * or the bottom of `box` when there are no letters to go by.
+ */
+export const baselineNear = (box: BoundingBox, boxes: BoundingBox[]): number => {
+  const baselines = estimateBaselines(boxes);
+  const centre = box.y + box.height / 2;
+  let best = -1;
+  boxes.forEach((b, i) => {
+    const distance = Math.abs(b.y + b.height / 2 - centre);
+    if (best < 0 || distance < Math.abs(boxes[best].y + boxes[best].height / 2 - centre)) best = i;
+  });
+  return best < 0 ? box.y + box.height : baselines[best];
+};
+
+/**
+ * Rescales metrics to a new units-per-em, keeping their proportions.
+ */
+export const scaleMetrics = (metrics: FontMetrics, unitsPerEm: number): FontMetrics => {
+  const k = unitsPerEm / metrics.unitsPerEm;
+  return {
+    unitsPerEm,
+    ascender: Math.round(metrics.ascender * k),
+    descender: Math.round(metrics.descender * k),
+    xHeight: Math.round(metrics.xHeight * k),
+    capHeight: Math.round(metrics.capHeight * k)
+  };
+};
+
+export const scaleGlyph = (glyph: VectorGlyph, factor: number): VectorGlyph => ({
+  ...glyph,
+  svgPath: contoursToSvgPath(transformContours(parseSvgPath(glyph.svgPath), p => ({ x: p.x * factor, y: p.y * factor }))),
+  advanceWidth: Math.round(glyph.advanceWidth * factor)
+});
+
+// Guides fitted to a box around an x-height letter: its bottom on the baseline, its top on the mean line
+export const guidesFromBox = (box: BoundingBox): PageGuides => {
+  const baseline = Math.round(box.y + box.height);
+  return { baseline, xHeight: Math.min(baseline - 1, Math.round(box.y)) };
+};
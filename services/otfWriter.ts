@@ -0,0 +1,288 @@
+import { FontInfo, FontModel } from './fontModel';
+import { PathContour, Vec, reverseContour } from './svgPath';
+import { BinaryWriter, assembleSfnt } from './sfnt';
+import {
+  GlyphBounds,
+  GlyphMetrics,
+  buildCmap,
+  buildHead,
+  buildHhea,
+  buildHmtx,
+  buildMaxp,
+  buildName,
+  buildOS2,
+  buildPost,
+  fontBounds,
+  postScriptName
+} from './fontTables';
+import { buildGpos, buildGsub } from './layoutTables';
+import { isKerningEmpty } from './kerning';
+import { isSubstitutionsEmpty } from './substitutions';
+
+// Type 2 charstring operators
+const OP_RMOVETO = 21;
+const OP_RLINETO = 5;
+const OP_RRCURVETO = 8;
+const OP_ENDCHAR = 14;
+
+// Top/Private DICT operators
+const DICT_FULL_NAME = 2;
+const DICT_FAMILY_NAME = 3;
+const DICT_FONT_BBOX = 5;
+const DICT_CHARSET = 15;
+const DICT_CHARSTRINGS = 17;
+const DICT_PRIVATE = 18;
+const DICT_FONT_MATRIX = [12, 7];
+const DICT_DEFAULT_WIDTH_X = 20;
+const DICT_NOMINAL_WIDTH_X = 21;
+
+// Custom strings start after the 391 predefined standard strings
+const FIRST_CUSTOM_SID = 391;
+
+const charstringNumber = (w: BinaryWriter, v: number) => {
+  if (v >= -107 && v <= 107) w.uint8(v + 139);
+  else if (v >= 108 && v <= 1131) {
+    v -= 108;
+    w.uint8((v >> 8) + 247).uint8(v & 0xff);
+  } else if (v >= -1131 && v <= -108) {
+    v = -v - 108;
+    w.uint8((v >> 8) + 251).uint8(v & 0xff);
+  } else {
+    w.uint8(28).int16(v);
+  }
+};
+
+const dictInteger = (w: BinaryWriter, v: number) => {
+  if (v >= -32768 && v <= 32767) charstringNumber(w, v);
+  else w.uint8(29).int32(v);
+};
+
+// Fixed five-byte form, so offsets can be patched without changing the DICT size
+const dictOffset = (w: BinaryWriter, v: number) => {
+  w.uint8(29).int32(v);
+};
+
+const dictReal = (w: BinaryWriter, v: number) => {
+  const text = String(Number(v.toPrecision(8))).replace('e+', 'e');
+  const nibbles: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch >= '0' && ch <= '9') nibbles.push(Number(ch));
+    else if (ch === '.') nibbles.push(0xa);
+    else if (ch === '-') nibbles.push(0xe);
+    else if (ch === 'e' && text[i + 1] === '-') {
+      nibbles.push(0xc);
+      i++;
+    } else if (ch === 'e') nibbles.push(0xb);
+  }
+  nibbles.push(0xf);
+  if (nibbles.length % 2 === 1) nibbles.push(0xf);
+  w.uint8(30);
+  for (let i = 0; i < nibbles.length; i += 2) w.uint8((nibbles[i] << 4) | nibbles[i + 1]);
+};
+
+const dictOperator = (w: BinaryWriter, op: number | number[]) => {
+  (Array.isArray(op) ? op : [op]).forEach(b => w.uint8(b));
+};
+
+const writeIndex = (w: BinaryWriter, items: Uint8Array[]) => {
+  w.uint16(items.length);
+  if (items.length === 0) return;
+  const total = items.reduce((sum, item) => sum + item.length, 0) + 1;
+  const offSize = total < 0x100 ? 1 : total < 0x10000 ? 2 : total < 0x1000000 ? 3 : 4;
+  w.uint8(offSize);
+  const writeOffset = (v: number) => {
+    for (let i = offSize - 1; i >= 0; i--) w.uint8((v >>> (8 * i)) & 0xff);
+  };
+  let offset = 1;
+  writeOffset(offset);
+  for (const item of items) {
+    offset += item.length;
+    writeOffset(offset);
+  }
+  items.forEach(item => w.bytes(item));
+};
+
+const indexSize = (items: Uint8Array[]) => {
+  const w = new BinaryWriter();
+  writeIndex(w, items);
+  return w.length;
+};
+
+const ascii = (s: string) => new Uint8Array([...s].map(ch => ch.charCodeAt(0) & 0x7f));
+
+/**
+ * Encodes one glyph as a Type 2 charstring, keeping cubic curves as-is.
+ * Quadratic segments are degree-elevated, which is exact.
+ */
+const encodeCharstring = (contours: PathContour[], advanceWidth: number, nominalWidth: number) => {
+  const w = new BinaryWriter();
+  let bounds: GlyphBounds | null = null;
+  const grow = (p: Vec) => {
+    if (!bounds) bounds = { xMin: p.x, yMin: p.y, xMax: p.x, yMax: p.y };
+    else {
+      bounds.xMin = Math.min(bounds.xMin, p.x);
+      bounds.yMin = Math.min(bounds.yMin, p.y);
+      bounds.xMax = Math.max(bounds.xMax, p.x);
+      bounds.yMax = Math.max(bounds.yMax, p.y);
+    }
+  };
+
+  // The advance width rides on the first stack-clearing operator
+  charstringNumber(w, advanceWidth - nominalWidth);
+
+  let pen = { x: 0, y: 0 };
+  const emit = (points: Vec[], op: number) => {
+    for (const p of points) {
+      const r = { x: Math.round(p.x), y: Math.round(p.y) };
+      charstringNumber(w, r.x - pen.x);
+      charstringNumber(w, r.y - pen.y);
+      pen = r;
+      grow(r);
+    }
+    w.uint8(op);
+  };
+
+  for (const contour of contours) {
+    if (contour.segments.length === 0) continue;
+    emit([contour.start], OP_RMOVETO);
+    let cur = contour.start;
+    contour.segments.forEach((s, i) => {
+      const end = { x: s.x, y: s.y };
+      if (s.type === 'L') {
+        // The closing line back to the start point is implicit
+        const isClosing = i === contour.segments.length - 1 &&
+          Math.round(end.x) === Math.round(contour.start.x) && Math.round(end.y) === Math.round(contour.start.y);
+        if (!isClosing) emit([end], OP_RLINETO);
+      } else if (s.type === 'Q') {
+        const c1 = { x: cur.x + (2 / 3) * (s.x1 - cur.x), y: cur.y + (2 / 3) * (s.y1 - cur.y) };
+        const c2 = { x: end.x + (2 / 3) * (s.x1 - end.x), y: end.y + (2 / 3) * (s.y1 - end.y) };
+        emit([c1, c2, end], OP_RRCURVETO);
+      } else {
+        emit([{ x: s.x1, y: s.y1 }, { x: s.x2, y: s.y2 }, end], OP_RRCURVETO);
+      }
+      cur = end;
+    });
+  }
+  w.uint8(OP_ENDCHAR);
+  return { data: w.toUint8Array(), bounds: bounds as GlyphBounds | null };
+};
+
+const buildTopDict = (
+  info: FontInfo,
+  sids: { fullName: number; familyName: number },
+  bbox: GlyphBounds,
+  offsets: { charset: number; charStrings: number; privateSize: number; privateOffset: number }
+) => {
+  const w = new BinaryWriter();
+  dictInteger(w, sids.fullName);
+  dictOperator(w, DICT_FULL_NAME);
+  dictInteger(w, sids.familyName);
+  dictOperator(w, DICT_FAMILY_NAME);
+  if (info.unitsPerEm !== 1000) {
+    const s = 1 / info.unitsPerEm;
+    [s, 0, 0, s, 0, 0].forEach(v => (v === 0 ? dictInteger(w, 0) : dictReal(w, v)));
+    dictOperator(w, DICT_FONT_MATRIX);
+  }
+  [bbox.xMin, bbox.yMin, bbox.xMax, bbox.yMax].forEach(v => dictInteger(w, v));
+  dictOperator(w, DICT_FONT_BBOX);
+  dictOffset(w, offsets.charset);
+  dictOperator(w, DICT_CHARSET);
+  dictOffset(w, offsets.charStrings);
+  dictOperator(w, DICT_CHARSTRINGS);
+  dictOffset(w, offsets.privateSize);
+  dictOffset(w, offsets.privateOffset);
+  dictOperator(w, DICT_PRIVATE);
+  return w.toUint8Array();
+};
+
+const buildCff = (model: FontModel, charstrings: Uint8Array[], metrics: GlyphMetrics[]): Uint8Array => {
+  const { info } = model;
+  const psName = postScriptName(info);
+
+  // Every name is stored as a custom string, including ones that also exist among the standard strings
+  const strings: string[] = [];
+  const sid = (s: string) => {
+    const idx = strings.indexOf(s);
+    if (idx >= 0) return FIRST_CUSTOM_SID + idx;
+    strings.push(s);
+    return FIRST_CUSTOM_SID + strings.length - 1;
+  };
+  const nameSids = {
+    fullName: sid(`${info.familyName} ${info.styleName}`),
+    familyName: sid(info.familyName)
+  };
+  const glyphSids = model.glyphs.slice(1).map(g => sid(g.name));
+
+  const privateDict = new BinaryWriter();
+  dictInteger(privateDict, 0);
+  dictOperator(privateDict, DICT_DEFAULT_WIDTH_X);
+  dictInteger(privateDict, 0);
+  dictOperator(privateDict, DICT_NOMINAL_WIDTH_X);
+  const privateData = privateDict.toUint8Array();
+
+  const charset = new BinaryWriter().uint8(0);
+  glyphSids.forEach(s => charset.uint16(s));
+  const charsetData = charset.toUint8Array();
+
+  const bbox = fontBounds(metrics);
+  const nameIndex = [ascii(psName)];
+  const stringIndex = strings.map(ascii);
+  const placeholder = buildTopDict(info, nameSids, bbox, { charset: 0, charStrings: 0, privateSize: 0, privateOffset: 0 });
+
+  const headerSize = 4;
+  const charsetOffset = headerSize + indexSize(nameIndex) + indexSize([placeholder]) + indexSize(stringIndex) + indexSize([]);
+  const charStringsOffset = charsetOffset + charsetData.length;
+  const privateOffset = charStringsOffset + indexSize(charstrings);
+
+  const topDict = buildTopDict(info, nameSids, bbox, {
+    charset: charsetOffset,
+    charStrings: charStringsOffset,
+    privateSize: privateData.length,
+    privateOffset
+  });
+
+  const w = new BinaryWriter()
+    .uint8(1).uint8(0)     // major, minor version
+    .uint8(headerSize)
+    .uint8(4);             // offSize used for absolute offsets
+  writeIndex(w, nameIndex);
+  writeIndex(w, [topDict]);
+  writeIndex(w, stringIndex);
+  writeIndex(w, []);       // global subroutines
+  w.bytes(charsetData);
+  writeIndex(w, charstrings);
+  w.bytes(privateData);
+  return w.toUint8Array();
+};
+
+/**
+ * Writes an OpenType font with a CFF table, so cubic outlines are stored without approximation.
+ */
+export const writeOtf = (model: FontModel): Uint8Array => {
+  const charstrings: Uint8Array[] = [];
+  const metrics: GlyphMetrics[] = [];
+
+  for (const glyph of model.glyphs) {
+    // PostScript outlines run counter-clockwise, the reverse of the TrueType convention the model follows
+    const contours = glyph.contours.map(reverseContour);
+    const { data, bounds } = encodeCharstring(contours, glyph.advanceWidth, 0);
+    charstrings.push(data);
+    metrics.push({ advanceWidth: glyph.advanceWidth, bounds });
+  }
+
+  return assembleSfnt({
+    'CFF ': buildCff(model, charstrings, metrics),
+    head: buildHead(model.info, metrics, 0),
+    hhea: buildHhea(model.info, metrics),
+    maxp: buildMaxp(model.glyphs.length),
+    'OS/2': buildOS2(model, metrics),
+    name: buildName(model.info),
+    cmap: buildCmap(model),
+    hmtx: buildHmtx(metrics),
+    post: buildPost(model.info),
+    // CFF fonts kern through GPOS only; the kern table is defined for TrueType outlines
+    ...(isKerningEmpty(model.kerning) ? {} : { GPOS: buildGpos(model.kerning) }),
+    ...(isSubstitutionsEmpty(model.substitutions) ? {} : { GSUB: buildGsub(model.substitutions) })
+  }, 'cff');
+};
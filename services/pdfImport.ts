@@ -0,0 +1,150 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { imageDataToDataUrl, rotate } from './imageOps';
+
+/**
+ * Turning PDF pages into images the extractor can work on.
+ *
+ * Pages are rasterized with pdf.js at a chosen resolution. Scanned documents
+ * usually hold one image per page, and that image can be taken out directly
+ * at its native resolution instead, without resampling.
+ */
+
+export type PdfDocument = PDFDocumentProxy;
+
+// Resolutions offered for rasterizing; PDF user space is 72 units per inch
+export const PDF_DPI_OPTIONS = [72, 150, 300, 600];
+export const DEFAULT_PDF_DPI = 300;
+const PDF_UNITS_PER_INCH = 72;
+
+// pdf.js is large, so it is only fetched once a PDF is opened
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+  return pdfjs;
+};
+
+export const isPdfFile = (file: File): boolean =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+export const openPdf = async (file: File): Promise<PdfDocument> => {
+  const pdfjs = await loadPdfJs();
+  return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+};
+
+/**
+ * Renders a page (1-based) on white at `dpi` and returns it as a PNG data URL.
+ */
+export const renderPdfPage = async (doc: PdfDocument, pageNumber: number, dpi: number): Promise<string> => {
+  const page = await doc.getPage(pageNumber);
+  try {
+    const viewport = page.getViewport({ scale: dpi / PDF_UNITS_PER_INCH });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(viewport.width);
+    canvas.height = Math.ceil(viewport.height);
+    await page.render({ canvas, viewport, background: 'white' }).promise;
+    return canvas.toDataURL('image/png');
+  } finally {
+    page.cleanup();
+  }
+};
+
+// The part of a decoded pdf.js image object read here: a bitmap, or raw pixels in the layout `kind` names
+interface PdfImageObject {
+  width: number;
+  height: number;
+  kind?: number;
+  data?: Uint8Array;
+  bitmap?: ImageBitmap;
+}
+
+const getPageObject = (page: PDFPageProxy, name: string): Promise<PdfImageObject | null> =>
+  new Promise(resolve => {
+    // Images shared between pages live in the document-wide store
+    const store = name.startsWith('g_') ? page.commonObjs : page.objs;
+    store.get(name, resolve);
+  });
+
+/**
+ * Returns the page's image as a PNG data URL if the page is nothing but one
+ * embedded image (a typical scan), or null if it has text or several images.
+ * The image keeps its native resolution; only the page rotation is applied.
+ */
+export const extractPageImage = async (doc: PdfDocument, pageNumber: number): Promise<string | null> => {
+  const { OPS, ImageKind } = await loadPdfJs();
+  const page = await doc.getPage(pageNumber);
+  try {
+    const { fnArray, argsArray } = await page.getOperatorList();
+    if (fnArray.includes(OPS.showText)) return null;
+    const images = fnArray.flatMap((fn, i) => (fn === OPS.paintImageXObject ? [argsArray[i][0] as string] : []));
+    if (images.length !== 1) return null;
+
+    const img = await getPageObject(page, images[0]);
+    if (!img) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = img.width;
+    canvas.height = img.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    if (img.bitmap) {
+      ctx.drawImage(img.bitmap, 0, 0);
+    } else if (img.data) {
+      const out = ctx.createImageData(img.width, img.height);
+      const src = img.data;
+      const pixels = img.width * img.height;
+      if (img.kind === ImageKind.RGBA_32BPP) {
+        out.data.set(src.subarray(0, pixels * 4));
+      } else if (img.kind === ImageKind.RGB_24BPP) {
+        for (let i = 0; i < pixels; i++) {
+          out.data[i * 4] = src[i * 3];
+          out.data[i * 4 + 1] = src[i * 3 + 1];
+          out.data[i * 4 + 2] = src[i * 3 + 2];
+          out.data[i * 4 + 3] = 255;
+        }
+      } else if (img.kind === ImageKind.GRAYSCALE_1BPP) {
+        // One bit per pixel, rows padded to whole bytes, 1 = white
+        const rowBytes = Math.ceil(img.width / 8);
+        for (let y = 0; y < img.height; y++) {
+          for (let x = 0; x < img.width; x++) {
+            const v = (src[y * rowBytes + (x >> 3)] >> (7 - (x & 7))) & 1 ? 255 : 0;
+            out.data.fill(v, (y * img.width + x) * 4, (y * img.width + x) * 4 + 3);
+            out.data[(y * img.width + x) * 4 + 3] = 255;
+          }
+        }
+      } else {
+        return null;
+      }
+      ctx.putImageData(out, 0, 0);
+    } else {
+      return null;
+    }
+
+    if (page.rotate % 360 === 0) return canvas.toDataURL('image/png');
+    return imageDataToDataUrl(rotate(ctx.getImageData(0, 0, canvas.width, canvas.height), page.rotate));
+  } finally {
+    page.cleanup();
+  }
+};
+
+/**
+ * The page as an image: the embedded scan when asked for and readable, otherwise a rendering at `dpi`.
+ */
+export const loadPdfPage = async (
+  doc: PdfDocument,
+  pageNumber: number,
+  dpi: number,
+  preferEmbedded: boolean
+): Promise<string> => {
+  if (preferEmbedded) {
+    try {
+      const embedded = await extractPageImage(doc, pageNumber);
+      if (embedded) return embedded;
+    } catch (err) {
+      // An image that cannot be read out of the page can still be rendered
+      console.warn(`Could not extract the image of page ${pageNumber}, rendering it instead:`, err);
+    }
+  }
+  return renderPdfPage(doc, pageNumber, dpi);
+};
@@ -0,0 +1,256 @@
+import { FontMetrics, VectorGlyph } from '../types';
+import { DEFAULT_METRICS } from './metrics';
+import { DEFAULT_SPACING, SpacingSettings } from './spacing';
+import { EMPTY_KERNING, Kerning } from './kerning';
+import { CoverageSettings, DEFAULT_COVERAGE } from './coverage';
+import { contoursToSvgPath, parseSvgPath, transformContours } from './svgPath';
+import { EditHistory, HistoryNode, dataUrlToBlob, historyFromStack } from './editHistory';
+
+/**
+ * The project file: everything needed to pick the work up again.
+ *
+ * Files are plain JSON with images as data URLs, so one file carries the
+ * whole project. In memory and in the browser's store, edit history images
+ * are Blobs instead. Every file records the schema version it was written with;
+ * older files are upgraded step by step through MIGRATIONS when opened, so a
+ * change to VectorGlyph or the project shape needs a new version and a
+ * migration from the previous one.
+ */
+
+export const PROJECT_FORMAT = 'archaictype-project';
+export const PROJECT_VERSION = 9;
+export const PROJECT_FILE_EXTENSION = '.archaictype.json';
+
+export interface ProjectPage {
+  pageNumber: number;
+  history: EditHistory;
+}
+
+export interface ProjectPdf {
+  fileName: string;
+  // The original PDF as a data URL
+  data: string;
+  pageNumber: number;
+  dpi: number;
+  preferEmbedded: boolean;
+  // Pages visited before the current one, with their edits
+  pages: ProjectPage[];
+}
+
+export interface Project {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  familyName: string;
+  metrics: FontMetrics;
+  spacing: SpacingSettings;
+  kerning: Kerning;
+  coverage: CoverageSettings;
+  // Edits of the page image, whose current node is the image shown; null before an image is loaded
+  history: EditHistory | null;
+  glyphs: VectorGlyph[];
+  pdf: ProjectPdf | null;
+}
+
+// What the recent-projects list shows, kept apart from the heavy project data
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  glyphCount: number;
+}
+
+// Earlier versions of the file, as far as the migrations read them
+
+// Version 1 glyphs were in crop pixels, y down
+interface GlyphV1 extends Omit<VectorGlyph, 'advanceWidth'> {
+  width: number;
+  height: number;
+}
+
+// Up to version 7 each page kept a stack of earlier images, oldest first, beside the image shown
+interface ProjectPageV7 {
+  pageNumber: number;
+  image: string;
+  history: string[];
+}
+
+interface ProjectV7 extends Omit<Project, 'history' | 'pdf'> {
+  currentImage: string | null;
+  history: string[];
+  pdf: (Omit<ProjectPdf, 'pages'> & { pages: ProjectPageV7[] }) | null;
+}
+
+// Versions 5 and 6 only added optional glyph fields
+type ProjectV4 = Omit<ProjectV7, 'coverage'>;
+type ProjectV3 = Omit<ProjectV4, 'kerning'>;
+type ProjectV2 = Omit<ProjectV3, 'spacing'>;
+
+interface ProjectV1 extends Omit<ProjectV2, 'metrics' | 'glyphs'> {
+  glyphs: GlyphV1[];
+}
+
+// The current version as read from a file, with history images still data URLs
+interface StoredHistory extends Omit<EditHistory, 'nodes'> {
+  nodes: (Omit<HistoryNode, 'image'> & { image: Blob | string })[];
+}
+
+interface ProjectFile extends Omit<Project, 'history' | 'pdf'> {
+  history: StoredHistory | null;
+  pdf: (Omit<ProjectPdf, 'pages'> & { pages: { pageNumber: number; history: StoredHistory }[] }) | null;
+}
+
+/**
+ * Upgrades a project from the version it is keyed under to the next one.
+ */
+const MIGRATIONS: Record<number, (project: { version: number }, warn: (message: string) => void) => { version: number }> = {
+  // Version 2 stores glyphs in font units (y up, advanceWidth) instead of crop pixels (y down, width and height),
+  // and adds the font metrics. Old glyphs are placed the way the font export used to place them.
+  1: (project: ProjectV1, warn): ProjectV2 => {
+    const metrics = DEFAULT_METRICS;
+    const scale = metrics.ascender / Math.max(1, ...project.glyphs.map(g => g.height));
+    return {
+      ...project,
+      metrics,
+      glyphs: project.glyphs.map(({ width, height, ...glyph }) => {
+        let svgPath = '';
+        try {
+          svgPath = contoursToSvgPath(
+            transformContours(parseSvgPath(glyph.svgPath), p => ({ x: p.x * scale, y: (height - p.y) * scale }))
+          );
+        } catch (err) {
+          // The export skipped damaged outlines too; the glyph keeps its name and codepoints
+          warn(`"${glyph.name}" lost its outline, which could not be read (${err instanceof Error ? err.message : err}).`);
+        }
+        return { ...glyph, svgPath, advanceWidth: Math.round(width * scale) };
+      })
+    };
+  },
+  // Version 3 adds the auto-spacing settings
+  2: (project: ProjectV2): ProjectV3 => ({ ...project, spacing: DEFAULT_SPACING }),
+  // Version 4 adds pair kerning
+  3: (project: ProjectV3): ProjectV4 => ({ ...project, kerning: EMPTY_KERNING }),
+  // Version 5 lets glyphs carry a substitution rule; existing glyphs have none
+  4: (project: ProjectV4): ProjectV4 => project,
+  // Version 6 lets glyphs be samples of another glyph; existing glyphs are all in the font
+  5: (project: ProjectV4): ProjectV4 => project,
+  // Version 7 adds the target repertoire and the project's own character lists
+  6: (project: ProjectV4): ProjectV7 => ({ ...project, coverage: DEFAULT_COVERAGE }),
+  // Version 8 keeps each page's edits as a tree of recorded operations instead of a stack of earlier images
+  7: ({ currentImage, history, ...project }: ProjectV7): ProjectFile => ({
+    ...project,
+    history: currentImage ? historyFromStack(history, currentImage) : null,
+    pdf: project.pdf && {
+      ...project.pdf,
+      pages: project.pdf.pages.map(({ pageNumber, image, history }) => ({ pageNumber, history: historyFromStack(history, image) }))
+    }
+  }),
+  // Version 9 marks consensus outlines, which were known before only by their id
+  8: (project: ProjectFile): ProjectFile => ({
+    ...project,
+    glyphs: project.glyphs.map(g => (g.id.endsWith('-consensus') ? { ...g, consensus: true } : g))
+  })
+};
+
+// Images read from a file are data URLs
+const reviveHistory = (history: StoredHistory): EditHistory => ({
+  ...history,
+  nodes: history.nodes.map(node => ({ ...node, image: typeof node.image === 'string' ? dataUrlToBlob(node.image) : node.image }))
+});
+
+export const createProjectId = (): string => `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const summarizeProject = (project: Project): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  updatedAt: project.updatedAt,
+  glyphCount: project.glyphs.length
+});
+
+// A project as opened, with what could not be carried over from an older file
+export interface OpenedProject {
+  project: Project;
+  warnings: string[];
+}
+
+/**
+ * Brings a parsed project of any known version up to PROJECT_VERSION.
+ */
+export const migrateProject = (raw: unknown): OpenedProject => {
+  if (!raw || typeof raw !== 'object' || !('format' in raw) || raw.format !== PROJECT_FORMAT) {
+    throw new Error('This is not an ArchaicType project file.');
+  }
+  if (!('version' in raw) || typeof raw.version !== 'number' || !Number.isInteger(raw.version) || raw.version < 1) {
+    throw new Error('The project file has no valid version.');
+  }
+  let project = raw as { version: number };
+  const warnings: string[] = [];
+  if (project.version > PROJECT_VERSION) {
+    throw new Error(`The project was saved by a newer version of the app (format ${project.version}).`);
+  }
+  while (project.version < PROJECT_VERSION) {
+    const migrate = MIGRATIONS[project.version];
+    if (!migrate) throw new Error(`No upgrade path from project format ${project.version}.`);
+    project = { ...migrate(project, message => warnings.push(message)), version: project.version + 1 };
+  }
+  const file = project as ProjectFile;
+  if (!Array.isArray(file.glyphs) || (file.history !== null && !Array.isArray(file.history?.nodes))) {
+    throw new Error('The project file is damaged.');
+  }
+  return {
+    project: {
+      ...file,
+      history: file.history && reviveHistory(file.history),
+      pdf: file.pdf && {
+        ...file.pdf,
+        pages: file.pdf.pages.map(page => ({ ...page, history: reviveHistory(page.history) }))
+      }
+    },
+    warnings
+  };
+};
+
+const historyToJson = async (history: EditHistory) => ({
+  ...history,
+  nodes: await Promise.all(history.nodes.map(async node => ({ ...node, image: await blobToDataUrl(node.image) })))
+});
+
+// Edit history images become data URLs, so the file stands alone
+export const serializeProject = async (project: Project): Promise<string> =>
+  JSON.stringify({
+    ...project,
+    history: project.history && (await historyToJson(project.history)),
+    pdf: project.pdf && {
+      ...project.pdf,
+      pages: await Promise.all(project.pdf.pages.map(async page => ({ ...page, history: await historyToJson(page.history) })))
+    }
+  });
+
+export const parseProject = (text: string): OpenedProject => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The project file is not valid JSON.');
+  }
+  return migrateProject(raw);
+};
+
+export const projectFileName = (project: Project): string =>
+  `${project.name.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'project'}${PROJECT_FILE_EXTENSION}`;
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const dataUrlToFile = async (dataUrl: string, fileName: string): Promise<File> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  return new File([blob], fileName, { type: blob.type });
+};
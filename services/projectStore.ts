@@ -0,0 +1,75 @@
+import { OpenedProject, Project, ProjectSummary, migrateProject, summarizeProject } from './project';
+
+/**
+ * Background persistence of projects in IndexedDB.
+ *
+ * Full projects and their summaries live in separate stores, so listing
+ * recent projects does not read every image back into memory.
+ */
+
+const DB_NAME = 'archaictype';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const SUMMARIES = 'summaries';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SUMMARIES)) db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again instead of caching the failure
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const saveProjectToStore = async (project: Project): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, SUMMARIES], 'readwrite');
+  tx.objectStore(PROJECTS).put(project);
+  tx.objectStore(SUMMARIES).put(summarizeProject(project));
+  await transactionDone(tx);
+};
+
+// Stored projects go through the same migrations as opened files
+export const loadProjectFromStore = async (id: string): Promise<OpenedProject | null> => {
+  const db = await openDb();
+  const raw = await requestToPromise(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+  return raw ? migrateProject(raw) : null;
+};
+
+export const listRecentProjects = async (limit = 8): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const all = await requestToPromise<ProjectSummary[]>(db.transaction(SUMMARIES).objectStore(SUMMARIES).getAll());
+  return all.sort((a, b) => b.updatedAt - a.updatedAt).slice(0, limit);
+};
+
+export const deleteProjectFromStore = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, SUMMARIES], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(SUMMARIES).delete(id);
+  await transactionDone(tx);
+};
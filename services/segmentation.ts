@@ -0,0 +1,239 @@
+import { BoundingBox } from '../types';
+import { labelComponents } from './tracer';
+
+/**
+ * Finds character candidates on a binarized page.
+ *
+ * Connected components are the starting point, but a letter is often more
+ * than one component (i/j dots, accents, strokes broken by worn ink) and a
+ * component is sometimes only dirt. Specks are dropped, then components are
+ * merged into their neighbours by the rules below until nothing changes.
+ */
+
+export interface CharacterCandidate {
+  id: string;
+  box: BoundingBox;
+  // Component labels that make up the candidate; only their pixels inside the box belong to it
+  labels: number[];
+}
+
+export interface SegmentationOptions {
+  // Components smaller than this many pixels are treated as noise; defaults to a fraction of the typical letter
+  minArea?: number;
+}
+
+// Components bigger than this share of the page are frames, rules or illustrations, not letters
+const MAX_PAGE_SHARE = 0.2;
+// A component smaller than this share of the median letter may be a mark belonging to a neighbour
+const MARK_AREA_RATIO = 0.35;
+// How far above or below its base letter (in median letter heights) a mark may sit
+const MARK_GAP_RATIO = 0.8;
+// Two pieces overlapping horizontally by this share of the narrower one are stacked parts of one letter
+const STACK_OVERLAP = 0.6;
+// Vertical gap (in median letter heights) bridged between the stacked pieces of a broken stroke
+const STACK_GAP_RATIO = 0.2;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+export const unionBox = (a: BoundingBox, b: BoundingBox): BoundingBox => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y
+  };
+};
+
+const horizontalOverlap = (a: BoundingBox, b: BoundingBox): number =>
+  Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x));
+
+const verticalGap = (a: BoundingBox, b: BoundingBox): number =>
+  Math.max(0, Math.max(a.y, b.y) - Math.min(a.y + a.height, b.y + b.height));
+
+const boxesTouch = (a: BoundingBox, b: BoundingBox): boolean =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+interface Group {
+  box: BoundingBox;
+  labels: number[];
+  area: number;
+}
+
+/**
+ * Groups boxes into text lines, top to bottom; a box joins the line whose
+ * centre is within half a typical letter height of its own.
+ */
+export const groupLines = <T extends { box: BoundingBox }>(items: T[]): T[][] => {
+  const lineHeight = median(items.map(i => i.box.height)) || 1;
+  const lines: T[][] = [];
+  for (const item of [...items].sort((a, b) => a.box.y + a.box.height / 2 - (b.box.y + b.box.height / 2))) {
+    const centre = item.box.y + item.box.height / 2;
+    const line = lines[lines.length - 1];
+    const lineCentre = line && line.reduce((sum, i) => sum + i.box.y + i.box.height / 2, 0) / line.length;
+    if (line && Math.abs(centre - lineCentre) < lineHeight / 2) line.push(item);
+    else lines.push([item]);
+  }
+  return lines;
+};
+
+/**
+ * Sorts boxes into reading order: lines top to bottom, then left to right within a line.
+ */
+export const sortReadingOrder = <T extends { box: BoundingBox }>(items: T[]): T[] =>
+  groupLines(items).flatMap(line => line.sort((a, b) => a.box.x - b.box.x));
+
+export const detectCharacters = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  options: SegmentationOptions = {}
+): { candidates: CharacterCandidate[]; labels: Int32Array } => {
+  const { labels, stats } = labelComponents(mask, width, height);
+
+  const pageArea = width * height;
+  const plausible = stats
+    .map((s, i) => ({ box: s.bounds, labels: [i + 1], area: s.area }))
+    .filter(g => g.area < pageArea * MAX_PAGE_SHARE);
+  const typicalArea = median(plausible.map(g => g.area));
+  const minArea = options.minArea ?? Math.max(4, typicalArea * 0.02);
+  let groups: Group[] = plausible.filter(g => g.area >= minArea);
+
+  const letterArea = median(groups.map(g => g.area));
+  const letterHeight = median(groups.map(g => g.box.height)) || 1;
+
+  const isStacked = (a: Group, b: Group): boolean => {
+    const overlap = horizontalOverlap(a.box, b.box);
+    if (overlap < Math.min(a.box.width, b.box.width) * STACK_OVERLAP) return false;
+    // Overlapping boxes, such as the two halves of a letter split by a faded joint,
+    // or stacked pieces of a stroke broken by a small gap
+    return boxesTouch(a.box, b.box) || verticalGap(a.box, b.box) <= letterHeight * STACK_GAP_RATIO;
+  };
+
+  // Distance from a dot or accent to the letter it sits on, or null if `mark` is not a mark of `base`
+  const markGap = (mark: Group, base: Group): number | null => {
+    if (mark.area >= letterArea * MARK_AREA_RATIO || mark.area >= base.area) return null;
+    if (horizontalOverlap(mark.box, base.box) < mark.box.width * 0.5) return null;
+    const gap = verticalGap(mark.box, base.box);
+    return gap <= letterHeight * MARK_GAP_RATIO ? gap : null;
+  };
+
+  // Every rule needs horizontal overlap, so a sweep over boxes sorted by x only compares neighbours
+  for (;;) {
+    groups.sort((a, b) => a.box.x - b.box.x);
+    const parent = groups.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+    const union = (i: number, j: number) => {
+      if (find(i) === find(j)) return false;
+      parent[find(j)] = find(i);
+      return true;
+    };
+    let merged = false;
+    // A mark joins only its nearest letter, so it cannot bridge a line with the one above
+    const nearestBase = new Map<number, { index: number; gap: number }>();
+    const considerMark = (mark: number, base: number) => {
+      const gap = markGap(groups[mark], groups[base]);
+      const best = nearestBase.get(mark);
+      if (gap !== null && (!best || gap < best.gap)) nearestBase.set(mark, { index: base, gap });
+    };
+
+    for (let i = 0; i < groups.length; i++) {
+      const right = groups[i].box.x + groups[i].box.width;
+      for (let j = i + 1; j < groups.length && groups[j].box.x < right; j++) {
+        if (isStacked(groups[i], groups[j])) merged = union(i, j) || merged;
+        considerMark(i, j);
+        considerMark(j, i);
+      }
+    }
+    nearestBase.forEach(({ index }, mark) => {
+      merged = union(index, mark) || merged;
+    });
+    if (!merged) break;
+
+    const byRoot = new Map<number, Group>();
+    groups.forEach((g, i) => {
+      const root = find(i);
+      const existing = byRoot.get(root);
+      byRoot.set(root, existing
+        ? { box: unionBox(existing.box, g.box), labels: [...existing.labels, ...g.labels], area: existing.area + g.area }
+        : g);
+    });
+    groups = [...byRoot.values()];
+  }
+
+  const candidates = sortReadingOrder(groups).map((g, i) => ({ id: `c${i}`, box: g.box, labels: g.labels }));
+  return { candidates, labels };
+};
+
+/**
+ * Splits a candidate in two at the column with the least ink in its middle
+ * half, which is usually where two touching letters meet. Both halves are
+ * trimmed to their ink; returns null if one side would be empty.
+ */
+export const splitCandidate = (
+  candidate: CharacterCandidate,
+  labels: Int32Array,
+  width: number
+): [CharacterCandidate, CharacterCandidate] | null => {
+  const { box } = candidate;
+  const own = new Set(candidate.labels);
+  const inked = (x: number, y: number) => own.has(labels[y * width + x]);
+
+  const columnInk = Array.from({ length: box.width }, (_, dx) => {
+    let count = 0;
+    for (let y = box.y; y < box.y + box.height; y++) if (inked(box.x + dx, y)) count++;
+    return count;
+  });
+
+  const from = Math.floor(box.width / 4);
+  const to = Math.max(from + 1, Math.ceil((box.width * 3) / 4));
+  let cut = from;
+  for (let dx = from; dx < to; dx++) if (columnInk[dx] < columnInk[cut]) cut = dx;
+  if (cut <= 0 || cut >= box.width) return null;
+
+  const trim = (x0: number, x1: number): BoundingBox | null => {
+    let minX = Infinity, minY = Infinity, maxX = -1, maxY = -1;
+    for (let y = box.y; y < box.y + box.height; y++) {
+      for (let x = x0; x < x1; x++) {
+        if (!inked(x, y)) continue;
+        minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+      }
+    }
+    return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+  };
+
+  const left = trim(box.x, box.x + cut);
+  const right = trim(box.x + cut, box.x + box.width);
+  if (!left || !right) return null;
+  return [
+    { id: `${candidate.id}a`, box: left, labels: candidate.labels },
+    { id: `${candidate.id}b`, box: right, labels: candidate.labels }
+  ];
+};
+
+export const mergeCandidates = (candidates: CharacterCandidate[]): CharacterCandidate => ({
+  id: candidates.map(c => c.id).join('+'),
+  box: candidates.map(c => c.box).reduce(unionBox),
+  labels: [...new Set(candidates.flatMap(c => c.labels))]
+});
+
+/**
+ * The candidate's own pixels as a mask of its box, leaving out ink of neighbours that strays inside.
+ */
+export const candidateMask = (candidate: CharacterCandidate, labels: Int32Array, width: number): Uint8Array => {
+  const { box } = candidate;
+  const own = new Set(candidate.labels);
+  const mask = new Uint8Array(box.width * box.height);
+  for (let y = 0; y < box.height; y++) {
+    for (let x = 0; x < box.width; x++) {
+      if (own.has(labels[(y + box.y) * width + x + box.x])) mask[y * box.width + x] = 1;
+    }
+  }
+  return mask;
+};
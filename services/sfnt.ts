@@ -0,0 +1,191 @@
+/**
+ * Low-level helpers for writing big-endian OpenType (sfnt) binaries.
+ */
+
+export class BinaryWriter {
+  private buffer = new Uint8Array(256);
+  private view = new DataView(this.buffer.buffer);
+  private pos = 0;
+
+  get length(): number {
+    return this.pos;
+  }
+
+  private ensure(extra: number) {
+    if (this.pos + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.pos + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.pos));
+    this.buffer = next;
+    this.view = new DataView(next.buffer);
+  }
+
+  uint8(v: number) {
+    this.ensure(1);
+    this.view.setUint8(this.pos, v);
+    this.pos += 1;
+    return this;
+  }
+
+  int8(v: number) {
+    this.ensure(1);
+    this.view.setInt8(this.pos, v);
+    this.pos += 1;
+    return this;
+  }
+
+  uint16(v: number) {
+    this.ensure(2);
+    this.view.setUint16(this.pos, v);
+    this.pos += 2;
+    return this;
+  }
+
+  int16(v: number) {
+    this.ensure(2);
+    this.view.setInt16(this.pos, v);
+    this.pos += 2;
+    return this;
+  }
+
+  uint32(v: number) {
+    this.ensure(4);
+    this.view.setUint32(this.pos, v >>> 0);
+    this.pos += 4;
+    return this;
+  }
+
+  int32(v: number) {
+    this.ensure(4);
+    this.view.setInt32(this.pos, v);
+    this.pos += 4;
+    return this;
+  }
+
+  // 16.16 fixed-point number
+  fixed(v: number) {
+    return this.int32(Math.round(v * 65536));
+  }
+
+  // Seconds since 1904-01-01 00:00 UTC, as a 64-bit integer
+  longDateTime(date: Date) {
+    const seconds = Math.floor(date.getTime() / 1000) + 2082844800;
+    this.uint32(Math.floor(seconds / 0x100000000));
+    return this.uint32(seconds % 0x100000000);
+  }
+
+  tag(tag: string) {
+    for (let i = 0; i < 4; i++) this.uint8(tag.charCodeAt(i) || 0x20);
+    return this;
+  }
+
+  bytes(data: Uint8Array) {
+    this.ensure(data.length);
+    this.buffer.set(data, this.pos);
+    this.pos += data.length;
+    return this;
+  }
+
+  // Zero-pads to the next multiple of `n` bytes
+  align(n: number) {
+    while (this.pos % n !== 0) this.uint8(0);
+    return this;
+  }
+
+  setUint16At(offset: number, v: number) {
+    this.view.setUint16(offset, v);
+  }
+
+  setUint32At(offset: number, v: number) {
+    this.view.setUint32(offset, v >>> 0);
+  }
+
+  toUint8Array(): Uint8Array {
+    return this.buffer.slice(0, this.pos);
+  }
+}
+
+export const tableChecksum = (data: Uint8Array): number => {
+  let sum = 0;
+  const padded = data.length % 4 === 0 ? data : (() => {
+    const p = new Uint8Array(data.length + (4 - (data.length % 4)));
+    p.set(data);
+    return p;
+  })();
+  const view = new DataView(padded.buffer, padded.byteOffset, padded.byteLength);
+  for (let i = 0; i < padded.length; i += 4) {
+    sum = (sum + view.getUint32(i)) >>> 0;
+  }
+  return sum;
+};
+
+// searchRange / entrySelector / rangeShift triple shared by sfnt headers and cmap format 4
+export const binarySearchParams = (count: number, unitSize: number) => {
+  let entrySelector = 0;
+  while (1 << (entrySelector + 1) <= count) entrySelector++;
+  const searchRange = (1 << entrySelector) * unitSize;
+  return { searchRange, entrySelector, rangeShift: count * unitSize - searchRange };
+};
+
+/**
+ * Assembles tables into a complete font file, filling in the table directory,
+ * per-table checksums and head.checkSumAdjustment.
+ */
+export const assembleSfnt = (tables: Record<string, Uint8Array>, flavor: 'truetype' | 'cff'): Uint8Array => {
+  const tags = Object.keys(tables).sort();
+  const numTables = tags.length;
+  const headerSize = 12 + 16 * numTables;
+
+  const w = new BinaryWriter();
+  w.uint32(flavor === 'cff' ? 0x4f54544f : 0x00010000);
+  const { searchRange, entrySelector, rangeShift } = binarySearchParams(numTables, 16);
+  w.uint16(numTables).uint16(searchRange).uint16(entrySelector).uint16(rangeShift);
+
+  let offset = headerSize;
+  let headOffset = -1;
+  for (const tag of tags) {
+    const data = tables[tag];
+    if (tag === 'head') {
+      // checkSumAdjustment must be zero while checksums are computed
+      new DataView(data.buffer, data.byteOffset, data.byteLength).setUint32(8, 0);
+      headOffset = offset;
+    }
+    w.tag(tag).uint32(tableChecksum(data)).uint32(offset).uint32(data.length);
+    offset += Math.ceil(data.length / 4) * 4;
+  }
+
+  for (const tag of tags) {
+    w.bytes(tables[tag]).align(4);
+  }
+
+  if (headOffset >= 0) {
+    const font = w.toUint8Array();
+    w.setUint32At(headOffset + 8, (0xb1b0afba - tableChecksum(font)) >>> 0);
+  }
+  return w.toUint8Array();
+};
+
+export interface SfntTable {
+  tag: string;
+  checksum: number;
+  data: Uint8Array;
+}
+
+/**
+ * Reads the table directory of an assembled font back into its tables.
+ */
+export const readSfntTables = (font: Uint8Array): { flavor: number; tables: SfntTable[] } => {
+  const view = new DataView(font.buffer, font.byteOffset, font.byteLength);
+  const flavor = view.getUint32(0);
+  const numTables = view.getUint16(4);
+  const tables: SfntTable[] = [];
+  for (let i = 0; i < numTables; i++) {
+    const rec = 12 + i * 16;
+    const tag = String.fromCharCode(font[rec], font[rec + 1], font[rec + 2], font[rec + 3]);
+    const offset = view.getUint32(rec + 8);
+    const length = view.getUint32(rec + 12);
+    tables.push({ tag, checksum: view.getUint32(rec + 4), data: font.subarray(offset, offset + length) });
+  }
+  return { flavor, tables };
+};
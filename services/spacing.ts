@@ -0,0 +1,103 @@
+import { VectorGlyph } from '../types';
+import { contoursToSvgPath, flattenContour, parseSvgPath, transformContours } from './svgPath';
+
+/**
+ * Horizontal spacing of glyphs.
+ *
+ * A glyph's outline sits between x = 0 and its advance width. The left
+ * sidebearing is the gap from 0 to the leftmost ink, the right sidebearing
+ * the gap from the rightmost ink to the advance. Only the advance is stored;
+ * sidebearings are read from the outline and set by moving it.
+ *
+ * Spacing groups tie letters with the same side shape together (n h m on
+ * the left, o c e on the right...), so a value set on one applies to all.
+ */
+
+export interface SpacingSettings {
+  // Sidebearings given by auto-spacing, in font units
+  leftSidebearing: number;
+  rightSidebearing: number;
+  // Whether new glyphs are auto-spaced as they are created
+  autoSpaceNew: boolean;
+}
+
+export const DEFAULT_SPACING: SpacingSettings = {
+  leftSidebearing: 50,
+  rightSidebearing: 50,
+  autoSpaceNew: true
+};
+
+export type SpacingSide = 'left' | 'right';
+
+/**
+ * Horizontal extent of the ink, measured on the flattened curves rather than
+ * the control points, or null for an empty outline.
+ */
+export const outlineExtent = (svgPath: string): { xMin: number; xMax: number } | null => {
+  let xMin = Infinity;
+  let xMax = -Infinity;
+  for (const contour of parseSvgPath(svgPath)) {
+    for (const p of flattenContour(contour)) {
+      if (p.x < xMin) xMin = p.x;
+      if (p.x > xMax) xMax = p.x;
+    }
+  }
+  return xMin === Infinity ? null : { xMin, xMax };
+};
+
+export const getSidebearings = (glyph: Pick<VectorGlyph, 'svgPath' | 'advanceWidth'>): { left: number; right: number } | null => {
+  const extent = outlineExtent(glyph.svgPath);
+  if (!extent) return null;
+  return { left: Math.round(extent.xMin), right: Math.round(glyph.advanceWidth - extent.xMax) };
+};
+
+const shiftOutline = (svgPath: string, dx: number): string =>
+  contoursToSvgPath(transformContours(parseSvgPath(svgPath), p => ({ x: p.x + dx, y: p.y })));
+
+// Moves the outline so the left sidebearing becomes `value`; the right one is kept
+export const setLeftSidebearing = <T extends VectorGlyph>(glyph: T, value: number): T => {
+  const extent = outlineExtent(glyph.svgPath);
+  if (!extent) return glyph;
+  const dx = Math.round(value - extent.xMin);
+  if (dx === 0) return glyph;
+  return { ...glyph, svgPath: shiftOutline(glyph.svgPath, dx), advanceWidth: glyph.advanceWidth + dx };
+};
+
+// Changes the advance so the right sidebearing becomes `value`
+export const setRightSidebearing = <T extends VectorGlyph>(glyph: T, value: number): T => {
+  const extent = outlineExtent(glyph.svgPath);
+  if (!extent) return glyph;
+  return { ...glyph, advanceWidth: Math.max(0, Math.round(extent.xMax + value)) };
+};
+
+export const setSidebearing = <T extends VectorGlyph>(glyph: T, side: SpacingSide, value: number): T =>
+  side === 'left' ? setLeftSidebearing(glyph, value) : setRightSidebearing(glyph, value);
+
+// Gives the glyph the default sidebearings on both sides
+export const autoSpace = <T extends VectorGlyph>(glyph: T, settings: SpacingSettings): T =>
+  setRightSidebearing(setLeftSidebearing(glyph, settings.leftSidebearing), settings.rightSidebearing);
+
+export const groupOf = (glyph: VectorGlyph, side: SpacingSide): string | undefined =>
+  (side === 'left' ? glyph.leftGroup : glyph.rightGroup)?.trim() || undefined;
+
+/**
+ * Copies the sidebearings of `source` to every other glyph sharing one of its
+ * spacing groups.
+ */
+export const applySpacingGroups = (glyphs: VectorGlyph[], source: VectorGlyph): VectorGlyph[] => {
+  const bearings = getSidebearings(source);
+  if (!bearings) return glyphs;
+  return glyphs.map(g => {
+    if (g.id === source.id) return g;
+    let next = g;
+    (['left', 'right'] as const).forEach(side => {
+      const group = groupOf(source, side);
+      if (group && groupOf(g, side) === group) next = setSidebearing(next, side, bearings[side]);
+    });
+    return next;
+  });
+};
+
+// Every spacing group in use on the given side, for suggestions
+export const spacingGroupNames = (glyphs: VectorGlyph[], side: SpacingSide): string[] =>
+  [...new Set(glyphs.map(g => groupOf(g, side)).filter((name): name is string => !!name))].sort();
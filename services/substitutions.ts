@@ -0,0 +1,157 @@
+import { GlyphSubstitution, LigatureFeature, PositionalForm, VectorGlyph } from '../types';
+import { codepointPreview, formatCodepoint, isPrivateUse } from './unicode';
+
+/**
+ * Glyph substitutions (GSUB): ligatures, positional and contextual forms and
+ * stylistic alternates. Each glyph carries at most one rule saying which
+ * characters it stands in for; the rules are compiled into lookups when the
+ * font is exported.
+ */
+
+export const LIGATURE_FEATURES: { id: LigatureFeature; label: string }[] = [
+  { id: 'liga', label: 'Standard (liga)' },
+  { id: 'dlig', label: 'Discretionary (dlig)' },
+  { id: 'hlig', label: 'Historical (hlig)' }
+];
+
+export const POSITIONAL_FORMS: { id: PositionalForm; label: string }[] = [
+  { id: 'init', label: 'Initial' },
+  { id: 'medi', label: 'Medial' },
+  { id: 'fina', label: 'Final' },
+  { id: 'isol', label: 'Isolated' }
+];
+
+// Features an alternate can belong to: stylistic alternates, historical forms and the twenty stylistic sets
+export const ALTERNATE_FEATURES: { id: string; label: string }[] = [
+  { id: 'salt', label: 'Stylistic alternates (salt)' },
+  { id: 'hist', label: 'Historical forms (hist)' },
+  ...Array.from({ length: 20 }, (_, i) => {
+    const id = `ss${String(i + 1).padStart(2, '0')}`;
+    return { id, label: `Stylistic set ${i + 1} (${id})` };
+  })
+];
+
+// Positional forms are tried in this order, so a medial form wins over initial and final ones
+export const POSITIONAL_ORDER: PositionalForm[] = ['medi', 'init', 'fina', 'isol'];
+
+export type SubstitutionKind = GlyphSubstitution['kind'];
+
+// A fresh rule of the given kind, seeded from the glyph's own codepoint where one is needed
+export const defaultSubstitution = (kind: SubstitutionKind, glyph: VectorGlyph): GlyphSubstitution => {
+  const base = glyph.codepoints[0] ?? 0x61;
+  switch (kind) {
+    case 'ligature':
+      return { kind, feature: 'liga', components: [] };
+    case 'positional':
+      return { kind, form: 'fina', base };
+    case 'contextual':
+      return { kind, base, before: [], after: [] };
+    default:
+      return { kind: 'alternate', feature: 'ss01', base };
+  }
+};
+
+// The characters a rule refers to
+export const substitutionCodepoints = (sub: GlyphSubstitution): number[] =>
+  sub.kind === 'ligature' ? sub.components : sub.kind === 'contextual' ? [sub.base, ...sub.before, ...sub.after] : [sub.base];
+
+const chars = (codepoints: number[]): string => codepoints.map(cp => codepointPreview(cp) || formatCodepoint(cp)).join('');
+
+// Short label for badges, e.g. "liga c+t" or "fina s"
+export const describeSubstitution = (sub: GlyphSubstitution): string => {
+  switch (sub.kind) {
+    case 'ligature':
+      return `${sub.feature} ${sub.components.map(cp => chars([cp])).join('+')}`;
+    case 'positional':
+      return `${sub.form} ${chars([sub.base])}`;
+    case 'contextual':
+      return `calt ${chars([sub.base])}`;
+    default:
+      return `${sub.feature} ${chars([sub.base])}`;
+  }
+};
+
+/**
+ * Glyph substitutions resolved to glyph indices of a font.
+ */
+export interface FontSubstitutions {
+  ligatures: { feature: LigatureFeature; components: number[]; glyph: number }[];
+  alternates: { feature: string; base: number; glyph: number }[];
+  positional: { form: PositionalForm; base: number; glyph: number }[];
+  contextual: { base: number; before: number[]; after: number[]; glyph: number }[];
+  // Glyphs that count as part of a word when choosing positional forms
+  letters: number[];
+}
+
+export const isSubstitutionsEmpty = (subs: FontSubstitutions): boolean =>
+  subs.ligatures.length === 0 && subs.alternates.length === 0 && subs.positional.length === 0 && subs.contextual.length === 0;
+
+// Longest glyph sequence any rule looks at, for OS/2 usMaxContext
+export const substitutionsMaxContext = (subs: FontSubstitutions): number =>
+  Math.max(
+    subs.alternates.length ? 1 : 0,
+    subs.positional.length ? 3 : 0,
+    ...subs.ligatures.map(l => l.components.length),
+    ...subs.contextual.map(c => 1 + (c.before.length ? 1 : 0) + (c.after.length ? 1 : 0))
+  );
+
+const isLetter = (cp: number): boolean => isPrivateUse(cp) || /[\p{L}\p{M}]/u.test(String.fromCodePoint(cp));
+
+/**
+ * Resolves every glyph's rule against the character map of the font. Rules
+ * naming a character no glyph carries are skipped and reported to `warn`, as
+ * is a second rule for the same base and feature.
+ */
+export const compileSubstitutions = (
+  glyphs: VectorGlyph[],
+  glyphIndex: Map<string, number>,
+  cmap: Map<number, number>,
+  warn: (message: string) => void
+): FontSubstitutions => {
+  const subs: FontSubstitutions = { ligatures: [], alternates: [], positional: [], contextual: [], letters: [] };
+  const seen = new Set<string>();
+
+  for (const glyph of glyphs) {
+    const gid = glyphIndex.get(glyph.id);
+    const sub = glyph.substitution;
+    if (gid === undefined || !sub) continue;
+
+    const missing = substitutionCodepoints(sub).filter(cp => !cmap.has(cp));
+    if (missing.length > 0) {
+      warn(`Skipping the ${describeSubstitution(sub)} rule of "${glyph.name}": no glyph for ${missing.map(formatCodepoint).join(', ')}.`);
+      continue;
+    }
+    const key = sub.kind === 'ligature'
+      ? `${sub.feature}:${sub.components.join(',')}`
+      : sub.kind === 'contextual'
+        ? `calt:${sub.base}:${sub.before.join(',')}:${sub.after.join(',')}`
+        : `${sub.kind === 'positional' ? sub.form : sub.feature}:${sub.base}`;
+    if (seen.has(key)) {
+      warn(`Skipping the ${describeSubstitution(sub)} rule of "${glyph.name}": another glyph already has it.`);
+      continue;
+    }
+    seen.add(key);
+
+    const at = (cp: number) => cmap.get(cp)!;
+    switch (sub.kind) {
+      case 'ligature':
+        if (sub.components.length >= 2) subs.ligatures.push({ feature: sub.feature, components: sub.components.map(at), glyph: gid });
+        break;
+      case 'positional':
+        subs.positional.push({ form: sub.form, base: at(sub.base), glyph: gid });
+        break;
+      case 'contextual':
+        subs.contextual.push({ base: at(sub.base), before: sub.before.map(at), after: sub.after.map(at), glyph: gid });
+        break;
+      default:
+        subs.alternates.push({ feature: sub.feature, base: at(sub.base), glyph: gid });
+    }
+  }
+
+  // Alternates and ligatures stand for letters too
+  subs.letters = glyphs
+    .filter(g => glyphIndex.has(g.id) && (g.substitution || g.codepoints.some(isLetter)))
+    .map(g => glyphIndex.get(g.id)!)
+    .sort((a, b) => a - b);
+  return subs;
+};
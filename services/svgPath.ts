@@ -0,0 +1,431 @@
+export interface Vec {
+  x: number;
+  y: number;
+}
+
+export type PathSegment =
+  | { type: 'L'; x: number; y: number }
+  | { type: 'Q'; x1: number; y1: number; x: number; y: number }
+  | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number };
+
+/**
+ * One subpath in absolute coordinates. Only lines, quadratics and cubics
+ * survive parsing: H/V become lines, S/T are expanded and arcs become cubics.
+ */
+export interface PathContour {
+  start: Vec;
+  segments: PathSegment[];
+  closed: boolean;
+}
+
+// Number of parameters consumed by each command
+const PARAM_COUNT: Record<string, number> = {
+  M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0
+};
+
+const NUMBER_RE = /^[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+
+// Splits a path string into commands and their numeric arguments.
+// Arc flags may be written without separators ("a5 5 0 013 4"), so they are read as single digits.
+const tokenize = (d: string): { cmd: string; args: number[] }[] => {
+  const result: { cmd: string; args: number[] }[] = [];
+  let i = 0;
+  let current: { cmd: string; args: number[] } | null = null;
+
+  while (i < d.length) {
+    const ch = d[i];
+    if (/[\s,]/.test(ch)) {
+      i++;
+      continue;
+    }
+    if (/[a-zA-Z]/.test(ch)) {
+      if (PARAM_COUNT[ch.toUpperCase()] === undefined) {
+        throw new Error(`Unsupported path command "${ch}"`);
+      }
+      current = { cmd: ch, args: [] };
+      result.push(current);
+      i++;
+      continue;
+    }
+    if (!current) throw new Error('Path data must start with a command');
+
+    const isArcFlag = current.cmd.toUpperCase() === 'A' && [3, 4].includes(current.args.length % 7);
+    if (isArcFlag && (ch === '0' || ch === '1')) {
+      current.args.push(Number(ch));
+      i++;
+      continue;
+    }
+
+    const match = d.slice(i).match(NUMBER_RE);
+    if (!match) throw new Error(`Unexpected character "${ch}" in path data`);
+    current.args.push(Number(match[0]));
+    i += match[0].length;
+  }
+  return result;
+};
+
+// Converts an SVG endpoint arc to one cubic per quarter turn (or less).
+const arcToCubics = (
+  x1: number, y1: number,
+  rx: number, ry: number, angle: number,
+  largeArc: number, sweep: number,
+  x2: number, y2: number
+): PathSegment[] => {
+  if (rx === 0 || ry === 0) return [{ type: 'L', x: x2, y: y2 }];
+  if (x1 === x2 && y1 === y2) return [];
+
+  rx = Math.abs(rx);
+  ry = Math.abs(ry);
+  const phi = (angle * Math.PI) / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+
+  // Step 1: compute (x1', y1')
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+
+  // Scale radii up if they cannot span the endpoints
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  // Step 2: compute the centre (cx', cy')
+  const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  let coef = Math.sqrt(Math.max(0, num / den));
+  if (largeArc === sweep) coef = -coef;
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+
+  // Step 3: centre in user space
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  // Step 4: start angle and sweep
+  const vecAngle = (ux: number, uy: number, vx: number, vy: number) => {
+    const dot = ux * vx + uy * vy;
+    const len = Math.sqrt((ux * ux + uy * uy) * (vx * vx + vy * vy));
+    const a = Math.acos(Math.max(-1, Math.min(1, dot / len)));
+    return ux * vy - uy * vx < 0 ? -a : a;
+  };
+  const theta1 = vecAngle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = vecAngle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const count = Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9);
+  const step = delta / count;
+  const k = (4 / 3) * Math.tan(step / 4);
+
+  const point = (t: number) => ({
+    x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+    y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos
+  });
+  const derivative = (t: number) => ({
+    x: -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+    y: -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos
+  });
+
+  const segments: PathSegment[] = [];
+  for (let i = 0; i < count; i++) {
+    const t1 = theta1 + i * step;
+    const t2 = t1 + step;
+    const p1 = point(t1);
+    const p2 = i === count - 1 ? { x: x2, y: y2 } : point(t2);
+    const d1 = derivative(t1);
+    const d2 = derivative(t2);
+    segments.push({
+      type: 'C',
+      x1: p1.x + k * d1.x, y1: p1.y + k * d1.y,
+      x2: p2.x - k * d2.x, y2: p2.y - k * d2.y,
+      x: p2.x, y: p2.y
+    });
+  }
+  return segments;
+};
+
+/**
+ * Parses SVG path data (every command, absolute or relative) into contours.
+ */
+export const parseSvgPath = (d: string): PathContour[] => {
+  const contours: PathContour[] = [];
+  let contour: PathContour | null = null;
+  let cur = { x: 0, y: 0 };
+  let start = { x: 0, y: 0 };
+  // Last control point, used to reflect for S and T
+  let lastCubicCtrl: Vec | null = null;
+  let lastQuadCtrl: Vec | null = null;
+
+  const ensureContour = () => {
+    if (!contour) {
+      contour = { start: { ...cur }, segments: [], closed: false };
+      contours.push(contour);
+    }
+    return contour;
+  };
+
+  for (const { cmd, args } of tokenize(d)) {
+    const upper = cmd.toUpperCase();
+    const rel = cmd !== upper;
+    const count = PARAM_COUNT[upper];
+
+    if (upper === 'Z') {
+      if (contour) {
+        (contour as PathContour).closed = true;
+        contour = null;
+      }
+      cur = { ...start };
+      lastCubicCtrl = lastQuadCtrl = null;
+      continue;
+    }
+
+    if (args.length === 0 || args.length % count !== 0) {
+      throw new Error(`Wrong number of arguments for "${cmd}"`);
+    }
+
+    for (let i = 0; i < args.length; i += count) {
+      const a = args.slice(i, i + count);
+      const ox = rel ? cur.x : 0;
+      const oy = rel ? cur.y : 0;
+      // Extra coordinate pairs after a moveto are implicit linetos
+      const op = upper === 'M' && i > 0 ? 'L' : upper;
+
+      switch (op) {
+        case 'M': {
+          cur = { x: ox + a[0], y: oy + a[1] };
+          start = { ...cur };
+          contour = { start: { ...cur }, segments: [], closed: false };
+          contours.push(contour);
+          lastCubicCtrl = lastQuadCtrl = null;
+          continue;
+        }
+        case 'L':
+          cur = { x: ox + a[0], y: oy + a[1] };
+          ensureContour().segments.push({ type: 'L', ...cur });
+          lastCubicCtrl = lastQuadCtrl = null;
+          break;
+        case 'H':
+          cur = { x: ox + a[0], y: cur.y };
+          ensureContour().segments.push({ type: 'L', ...cur });
+          lastCubicCtrl = lastQuadCtrl = null;
+          break;
+        case 'V':
+          cur = { x: cur.x, y: oy + a[0] };
+          ensureContour().segments.push({ type: 'L', ...cur });
+          lastCubicCtrl = lastQuadCtrl = null;
+          break;
+        case 'C':
+        case 'S': {
+          let c1: Vec;
+          let rest: number[];
+          if (op === 'C') {
+            c1 = { x: ox + a[0], y: oy + a[1] };
+            rest = a.slice(2);
+          } else {
+            c1 = lastCubicCtrl
+              ? { x: 2 * cur.x - lastCubicCtrl.x, y: 2 * cur.y - lastCubicCtrl.y }
+              : { ...cur };
+            rest = a;
+          }
+          const c2 = { x: ox + rest[0], y: oy + rest[1] };
+          const end = { x: ox + rest[2], y: oy + rest[3] };
+          ensureContour().segments.push({ type: 'C', x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, x: end.x, y: end.y });
+          cur = end;
+          lastCubicCtrl = c2;
+          lastQuadCtrl = null;
+          break;
+        }
+        case 'Q':
+        case 'T': {
+          let c: Vec;
+          let end: Vec;
+          if (op === 'Q') {
+            c = { x: ox + a[0], y: oy + a[1] };
+            end = { x: ox + a[2], y: oy + a[3] };
+          } else {
+            c = lastQuadCtrl
+              ? { x: 2 * cur.x - lastQuadCtrl.x, y: 2 * cur.y - lastQuadCtrl.y }
+              : { ...cur };
+            end = { x: ox + a[0], y: oy + a[1] };
+          }
+          ensureContour().segments.push({ type: 'Q', x1: c.x, y1: c.y, x: end.x, y: end.y });
+          cur = end;
+          lastQuadCtrl = c;
+          lastCubicCtrl = null;
+          break;
+        }
+        case 'A': {
+          const end = { x: ox + a[5], y: oy + a[6] };
+          ensureContour().segments.push(...arcToCubics(cur.x, cur.y, a[0], a[1], a[2], a[3], a[4], end.x, end.y));
+          cur = end;
+          lastCubicCtrl = lastQuadCtrl = null;
+          break;
+        }
+      }
+    }
+  }
+
+  return contours;
+};
+
+const fmt = (n: number): string => {
+  const r = Math.round(n * 100) / 100;
+  return Object.is(r, -0) ? '0' : String(r);
+};
+
+/**
+ * Serialises contours back into compact absolute SVG path data.
+ */
+export const contoursToSvgPath = (contours: PathContour[]): string => {
+  let d = '';
+  for (const c of contours) {
+    d += `M${fmt(c.start.x)} ${fmt(c.start.y)}`;
+    for (const s of c.segments) {
+      if (s.type === 'L') d += `L${fmt(s.x)} ${fmt(s.y)}`;
+      else if (s.type === 'Q') d += `Q${fmt(s.x1)} ${fmt(s.y1)} ${fmt(s.x)} ${fmt(s.y)}`;
+      else d += `C${fmt(s.x1)} ${fmt(s.y1)} ${fmt(s.x2)} ${fmt(s.y2)} ${fmt(s.x)} ${fmt(s.y)}`;
+    }
+    if (c.closed) d += 'Z';
+  }
+  return d;
+};
+
+/**
+ * Passes every on- and off-curve point through `map` (scaling, flipping, translating).
+ */
+export const transformContours = (
+  contours: PathContour[],
+  map: (p: Vec) => Vec
+): PathContour[] =>
+  contours.map(c => ({
+    start: map(c.start),
+    closed: c.closed,
+    segments: c.segments.map(s => {
+      const end = map({ x: s.x, y: s.y });
+      if (s.type === 'L') return { type: 'L' as const, ...end };
+      const c1 = map({ x: s.x1, y: s.y1 });
+      if (s.type === 'Q') return { type: 'Q' as const, x1: c1.x, y1: c1.y, ...end };
+      const c2 = map({ x: s.x2, y: s.y2 });
+      return { type: 'C' as const, x1: c1.x, y1: c1.y, x2: c2.x, y2: c2.y, ...end };
+    })
+  }));
+
+/**
+ * Bounding box of all on- and off-curve points.
+ */
+export const contoursBounds = (contours: PathContour[]) => {
+  let xMin = Infinity, yMin = Infinity, xMax = -Infinity, yMax = -Infinity;
+  const add = (x: number, y: number) => {
+    if (x < xMin) xMin = x;
+    if (x > xMax) xMax = x;
+    if (y < yMin) yMin = y;
+    if (y > yMax) yMax = y;
+  };
+  for (const c of contours) {
+    add(c.start.x, c.start.y);
+    for (const s of c.segments) {
+      add(s.x, s.y);
+      if (s.type !== 'L') add(s.x1, s.y1);
+      if (s.type === 'C') add(s.x2, s.y2);
+    }
+  }
+  if (xMin === Infinity) return null;
+  return { xMin, yMin, xMax, yMax };
+};
+
+/**
+ * Returns the same outline traversed in the opposite direction.
+ */
+export const reverseContour = (contour: PathContour): PathContour => {
+  const segments = [...contour.segments];
+  const last = segments[segments.length - 1];
+  if (contour.closed && last && (last.x !== contour.start.x || last.y !== contour.start.y)) {
+    // Make the implicit closing line explicit so it is reversed too
+    segments.push({ type: 'L', x: contour.start.x, y: contour.start.y });
+  }
+  if (segments.length === 0) return { ...contour, segments: [] };
+
+  const ends = [contour.start, ...segments.map(s => ({ x: s.x, y: s.y }))];
+  const reversed: PathSegment[] = [];
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const s = segments[i];
+    const to = ends[i];
+    if (s.type === 'L') reversed.push({ type: 'L', x: to.x, y: to.y });
+    else if (s.type === 'Q') reversed.push({ type: 'Q', x1: s.x1, y1: s.y1, x: to.x, y: to.y });
+    else reversed.push({ type: 'C', x1: s.x2, y1: s.y2, x2: s.x1, y2: s.y1, x: to.x, y: to.y });
+  }
+  return { start: ends[ends.length - 1], segments: reversed, closed: contour.closed };
+};
+
+// Polyline approximation of a contour, sampling each curve at a fixed number of steps
+export const flattenContour = (contour: PathContour, steps = 8): Vec[] => {
+  const pts: Vec[] = [contour.start];
+  let cur = contour.start;
+  for (const s of contour.segments) {
+    if (s.type === 'L') {
+      pts.push({ x: s.x, y: s.y });
+    } else {
+      for (let i = 1; i <= steps; i++) {
+        const t = i / steps;
+        const mt = 1 - t;
+        if (s.type === 'Q') {
+          pts.push({
+            x: mt * mt * cur.x + 2 * mt * t * s.x1 + t * t * s.x,
+            y: mt * mt * cur.y + 2 * mt * t * s.y1 + t * t * s.y
+          });
+        } else {
+          pts.push({
+            x: mt * mt * mt * cur.x + 3 * mt * mt * t * s.x1 + 3 * mt * t * t * s.x2 + t * t * t * s.x,
+            y: mt * mt * mt * cur.y + 3 * mt * mt * t * s.y1 + 3 * mt * t * t * s.y2 + t * t * t * s.y
+          });
+        }
+      }
+    }
+    cur = { x: s.x, y: s.y };
+  }
+  return pts;
+};
+
+export const polygonArea = (pts: Vec[]): number => {
+  let a = 0;
+  for (let i = 0; i < pts.length; i++) {
+    const p = pts[i];
+    const q = pts[(i + 1) % pts.length];
+    a += p.x * q.y - q.x * p.y;
+  }
+  return a / 2;
+};
+
+export const pointInPolygon = (p: Vec, poly: Vec[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const a = poly[i];
+    const b = poly[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Reorients contours (in y-up font units) by nesting depth: outlines at even
+ * depth run clockwise as TrueType expects and holes run counter-clockwise,
+ * so counters render under the non-zero fill rule whatever direction the
+ * source path was drawn in.
+ */
+export const orientContours = (contours: PathContour[]): PathContour[] => {
+  const polys = contours.map(c => flattenContour(c));
+  return contours.map((contour, i) => {
+    const poly = polys[i];
+    if (poly.length < 3) return contour;
+    const depth = polys.filter((other, j) => j !== i && other.length >= 3 && pointInPolygon(poly[0], other)).length;
+    const clockwise = polygonArea(poly) < 0;
+    const wantClockwise = depth % 2 === 0;
+    return clockwise === wantClockwise ? contour : reverseContour(contour);
+  });
+};
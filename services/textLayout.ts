@@ -0,0 +1,142 @@
+import { VectorGlyph } from '../types';
+import { Kerning, kerningValue } from './kerning';
+import { FontSubstitutions, POSITIONAL_ORDER, compileSubstitutions } from './substitutions';
+
+/**
+ * Sets text with the project's glyphs the way the exported font would:
+ * characters reach glyphs through their codepoints, the substitutions run in
+ * the order of the GSUB lookups and kerning is added between neighbours.
+ * Positions are in font units from the start of the line.
+ */
+
+export interface PlacedGlyph {
+  glyph: VectorGlyph | null; // null for a character the project has no glyph for
+  missing: boolean;          // Drawn as the .notdef box; a space without a glyph is blank instead
+  x: number;
+  advance: number;
+}
+
+export interface TextLine {
+  glyphs: PlacedGlyph[];
+  width: number;
+}
+
+// What browsers turn on unless told otherwise
+export const DEFAULT_FEATURES = ['kern', 'liga', 'calt'];
+
+// Layout features the project's kerning and substitutions make use of
+export const projectFeatures = (glyphs: VectorGlyph[], kerning: Kerning): string[] => {
+  const tags = new Set<string>();
+  if (kerning.pairs.length > 0) tags.add('kern');
+  glyphs.forEach(g => {
+    const sub = g.substitution;
+    if (!sub) return;
+    tags.add(sub.kind === 'ligature' || sub.kind === 'alternate' ? sub.feature : 'calt');
+  });
+  return [...tags].sort();
+};
+
+const MISSING = -1;
+
+/**
+ * Prepares the glyphs for setting text and returns the function that sets
+ * one line. As in the exported font, a codepoint claimed by several glyphs
+ * goes to the first of them and samples are left out.
+ */
+export const createTextShaper = (allGlyphs: VectorGlyph[], kerning: Kerning, unitsPerEm: number) => {
+  const glyphs = allGlyphs.filter(g => !g.sampleOf);
+  const cmap = new Map<number, number>();
+  glyphs.forEach((g, i) => g.codepoints.forEach(cp => { if (!cmap.has(cp)) cmap.set(cp, i); }));
+  // Skipped rules are reported by the editor and on export, not on every keystroke
+  const subs: FontSubstitutions = compileSubstitutions(glyphs, new Map(glyphs.map((g, i) => [g.id, i])), cmap, () => {});
+  const letters = new Set(subs.letters);
+
+  const substitute = (seq: number[], features: Set<string>): number[] => {
+    const single = (map: Map<number, number>) => seq.map(g => map.get(g) ?? g);
+
+    [...new Set(subs.alternates.map(a => a.feature))].sort().filter(tag => features.has(tag)).forEach(tag => {
+      seq = single(new Map(subs.alternates.filter(a => a.feature === tag).map(a => [a.base, a.glyph])));
+    });
+
+    if (features.has('calt')) {
+      // Left to right, so a rule sees the glyphs already replaced before it
+      seq.forEach((g, i) => {
+        const rule = subs.contextual.find(c =>
+          c.base === g &&
+          (c.before.length === 0 || c.before.includes(seq[i - 1])) &&
+          (c.after.length === 0 || c.after.includes(seq[i + 1]))
+        );
+        if (rule) seq[i] = rule.glyph;
+      });
+
+      POSITIONAL_ORDER.forEach(form => {
+        const forms = new Map(subs.positional.filter(p => p.form === form).map(p => [p.base, p.glyph]));
+        seq.forEach((g, i) => {
+          if (!forms.has(g)) return;
+          const before = letters.has(seq[i - 1]);
+          const after = letters.has(seq[i + 1]);
+          const applies = { medi: before && after, init: !before && after, fina: before && !after, isol: !before && !after }[form];
+          if (applies) seq[i] = forms.get(g)!;
+        });
+      });
+    }
+
+    (['liga', 'dlig', 'hlig'] as const).filter(tag => features.has(tag)).forEach(tag => {
+      // Longer ligatures first, as in the ligature subtable
+      const ligatures = subs.ligatures.filter(l => l.feature === tag).sort((a, b) => b.components.length - a.components.length);
+      if (ligatures.length === 0) return;
+      const out: number[] = [];
+      for (let i = 0; i < seq.length;) {
+        const lig = ligatures.find(l => l.components.every((c, k) => seq[i + k] === c));
+        out.push(lig ? lig.glyph : seq[i]);
+        i += lig ? lig.components.length : 1;
+      }
+      seq = out;
+    });
+    return seq;
+  };
+
+  return (text: string, features: Set<string>): TextLine => {
+    const chars = [...text].map(ch => ch.codePointAt(0)!);
+    const seq = substitute(chars.map(cp => cmap.get(cp) ?? MISSING), features);
+
+    // Unmapped characters keep their slot through the substitutions, so their codepoints line up
+    const unmapped = chars.filter(cp => !cmap.has(cp));
+    let next = 0;
+    const missingCodepoints = seq.map(g => (g === MISSING ? unmapped[next++] : undefined));
+
+    const placed: PlacedGlyph[] = [];
+    let x = 0;
+    seq.forEach((g, i) => {
+      const glyph = g === MISSING ? null : glyphs[g];
+      const prev = placed[placed.length - 1];
+      if (glyph && prev?.glyph && features.has('kern')) x += kerningValue(kerning, prev.glyph.id, glyph.id);
+      const space = !glyph && missingCodepoints[i] === 0x20;
+      const advance = glyph ? glyph.advanceWidth : Math.round(unitsPerEm * (space ? 0.25 : 0.5));
+      placed.push({ glyph, missing: !glyph && !space, x, advance });
+      x += advance;
+    });
+    return { glyphs: placed, width: x };
+  };
+};
+
+/**
+ * Breaks text into lines no wider than `maxWidth` font units, at spaces and
+ * at line breaks of the text. A word wider than the line gets a line to itself.
+ */
+export const wrapText = (shape: (text: string) => TextLine, text: string, maxWidth: number): TextLine[] =>
+  text.split('\n').flatMap(paragraph => {
+    const lines: TextLine[] = [];
+    let line = '';
+    paragraph.split(' ').forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && shape(candidate).width > maxWidth) {
+        lines.push(shape(line));
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(shape(line));
+    return lines;
+  });
@@ -0,0 +1,220 @@
+import { BoundingBox } from '../types';
+import { Vec, contoursToSvgPath, pointInPolygon, polygonArea } from './svgPath';
+import { fitContour } from './curveFit';
+
+/**
+ * Bitmap-to-outline tracing for the character extractor.
+ *
+ * Contours follow the cracks between foreground and background pixels, so
+ * their vertices sit on pixel corners. Every boundary edge is directed with
+ * the foreground on its right (y pointing down), which makes outer contours
+ * wind one way (positive area) and the boundaries of holes the other.
+ */
+
+export interface TracedShape {
+  outer: Vec[];
+  holes: Vec[][];
+}
+
+// One 8-connected blob of ink
+export interface InkComponent {
+  id: number;
+  area: number; // in pixels
+  bounds: BoundingBox;
+  shape: TracedShape;
+}
+
+// Helper: Check if a pixel is "on" (black/foreground)
+export const isPixelOn = (data: Uint8ClampedArray, width: number, x: number, y: number, threshold: number): boolean => {
+  if (x < 0 || x >= width || y < 0 || y >= data.length / (4 * width)) return false;
+  const idx = (y * width + x) * 4;
+  // Considering standard paper: Light background, Dark text.
+  // We want Dark pixels. Brightness < Threshold.
+  const brightness = 0.34 * data[idx] + 0.5 * data[idx + 1] + 0.16 * data[idx + 2];
+  return brightness < threshold;
+};
+
+/**
+ * Thresholds RGBA pixels into a 1-byte-per-pixel mask (1 = ink).
+ */
+export const createMask = (data: Uint8ClampedArray, width: number, height: number, threshold: number): Uint8Array => {
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isPixelOn(data, width, x, y, threshold)) mask[y * width + x] = 1;
+    }
+  }
+  return mask;
+};
+
+interface Crack {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+}
+
+interface TracedContour {
+  points: Vec[];
+  // Centre of a pixel just to the left of the first edge, i.e. on the background side
+  probe: Vec;
+}
+
+/**
+ * Extracts every closed boundary in the mask. Diagonal neighbours count as
+ * connected ink, so a one-pixel diagonal stroke stays in one piece.
+ */
+export const traceContours = (mask: Uint8Array, width: number, height: number): TracedContour[] => {
+  const on = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+  const vertexId = (x: number, y: number) => y * (width + 1) + x;
+
+  // Outgoing edges per pixel-corner vertex; a vertex has two only where ink touches diagonally
+  const outgoing = new Map<number, Crack[]>();
+  const addEdge = (e: Crack) => {
+    const id = vertexId(e.x, e.y);
+    const list = outgoing.get(id);
+    if (list) list.push(e);
+    else outgoing.set(id, [e]);
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!on(x, y)) continue;
+      if (!on(x, y - 1)) addEdge({ x, y, dx: 1, dy: 0 });
+      if (!on(x + 1, y)) addEdge({ x: x + 1, y, dx: 0, dy: 1 });
+      if (!on(x, y + 1)) addEdge({ x: x + 1, y: y + 1, dx: -1, dy: 0 });
+      if (!on(x - 1, y)) addEdge({ x, y: y + 1, dx: 0, dy: -1 });
+    }
+  }
+
+  const used = new Set<Crack>();
+  const contours: TracedContour[] = [];
+
+  for (const edges of outgoing.values()) {
+    for (const first of edges) {
+      if (used.has(first)) continue;
+
+      const points: Vec[] = [];
+      let edge = first;
+      do {
+        used.add(edge);
+        const nx = edge.x + edge.dx;
+        const ny = edge.y + edge.dy;
+        const candidates = (outgoing.get(vertexId(nx, ny)) || []).filter(e => !used.has(e) || e === first);
+        // At a diagonal touch take the left turn, which keeps the two pixels in one outline
+        const next = candidates.length > 1
+          ? candidates.find(e => e.dx === edge.dy && e.dy === -edge.dx) || candidates[0]
+          : candidates[0];
+
+        // Only keep corners; straight runs collapse into their end points
+        if (!next || next.dx !== edge.dx || next.dy !== edge.dy) points.push({ x: nx, y: ny });
+        if (!next) break;
+        edge = next;
+      } while (edge !== first);
+
+      contours.push({
+        points,
+        probe: { x: first.x + (first.dx + first.dy) / 2, y: first.y + (first.dy - first.dx) / 2 }
+      });
+    }
+  }
+  return contours;
+};
+
+/**
+ * Groups contours into shapes: every outer boundary with the holes that sit directly inside it.
+ */
+export const nestContours = (contours: TracedContour[]): TracedShape[] => {
+  const outers = contours.filter(c => polygonArea(c.points) > 0);
+  const holes = contours.filter(c => polygonArea(c.points) < 0);
+
+  const shapes = outers.map(c => ({ outer: c.points, holes: [] as Vec[][], area: polygonArea(c.points) }));
+  for (const hole of holes) {
+    // The innermost enclosing outline is the one with the smallest area
+    let parent: (typeof shapes)[number] | null = null;
+    for (const s of shapes) {
+      if (pointInPolygon(hole.probe, s.outer) && (!parent || s.area < parent.area)) parent = s;
+    }
+    parent?.holes.push(hole.points);
+  }
+  return shapes.map(({ outer, holes }) => ({ outer, holes }));
+};
+
+/**
+ * Labels the 8-connected ink components of the mask, numbered in reading
+ * order of their first pixel. Returns the label image (0 = background) and
+ * the pixel count and bounds of each label.
+ */
+export const labelComponents = (mask: Uint8Array, width: number, height: number) => {
+  const labels = new Int32Array(width * height);
+  const stats: { area: number; bounds: BoundingBox }[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+    const label = stats.length + 1;
+    let area = 0;
+    let minX = width, minY = height, maxX = -1, maxY = -1;
+
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length) {
+      const i = stack.pop()!;
+      const x = i % width;
+      const y = (i - x) / width;
+      area++;
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+
+      for (let ny = Math.max(0, y - 1); ny <= Math.min(height - 1, y + 1); ny++) {
+        for (let nx = Math.max(0, x - 1); nx <= Math.min(width - 1, x + 1); nx++) {
+          const j = ny * width + nx;
+          if (mask[j] && !labels[j]) {
+            labels[j] = label;
+            stack.push(j);
+          }
+        }
+      }
+    }
+    stats.push({ area, bounds: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 } });
+  }
+  return { labels, stats };
+};
+
+/**
+ * Splits the mask into its connected components and traces each one, with
+ * its counters, in crop coordinates. Ink sitting inside another component's
+ * counter (a dot in an "o", say) is a component of its own.
+ */
+export const traceComponents = (mask: Uint8Array, width: number, height: number): InkComponent[] => {
+  const { labels, stats } = labelComponents(mask, width, height);
+
+  return stats.flatMap(({ area, bounds }, index) => {
+    const id = index + 1;
+    // Trace the component on its own so neighbouring ink does not leak into its holes
+    const sub = new Uint8Array(bounds.width * bounds.height);
+    for (let y = 0; y < bounds.height; y++) {
+      for (let x = 0; x < bounds.width; x++) {
+        if (labels[(y + bounds.y) * width + x + bounds.x] === id) sub[y * bounds.width + x] = 1;
+      }
+    }
+
+    const shape = nestContours(traceContours(sub, bounds.width, bounds.height))[0];
+    if (!shape) return [];
+    const offset = (pts: Vec[]) => pts.map(p => ({ x: p.x + bounds.x, y: p.y + bounds.y }));
+    return [{ id, area, bounds, shape: { outer: offset(shape.outer), holes: shape.holes.map(offset) } }];
+  });
+};
+
+const polygonToPath = (pts: Vec[]): string =>
+  pts.length < 3 ? '' : `M${pts[0].x} ${pts[0].y}` + pts.slice(1).map(p => `L${p.x} ${p.y}`).join('') + 'Z';
+
+/**
+ * Compound SVG path data: each outline is followed by its holes, which wind the opposite way.
+ * With a positive tolerance the pixel polygons are fitted with curves; otherwise they are emitted as-is.
+ */
+export const shapesToSvgPath = (shapes: TracedShape[], tolerance = 0): string => {
+  const polygons = shapes.flatMap(s => [s.outer, ...s.holes]).filter(p => p.length >= 3);
+  if (tolerance <= 0) return polygons.map(polygonToPath).join('');
+  return contoursToSvgPath(polygons.map(p => fitContour(p, tolerance)));
+};
@@ -0,0 +1,214 @@
+import { FontModel } from './fontModel';
+import { PathContour, Vec } from './svgPath';
+import { BinaryWriter, assembleSfnt } from './sfnt';
+import {
+  GlyphMetrics,
+  buildCmap,
+  buildHead,
+  buildHhea,
+  buildHmtx,
+  buildMaxp,
+  buildName,
+  buildOS2,
+  buildPost
+} from './fontTables';
+import { buildGpos, buildGsub, buildKern } from './layoutTables';
+import { isKerningEmpty } from './kerning';
+import { isSubstitutionsEmpty } from './substitutions';
+
+interface TTPoint {
+  x: number;
+  y: number;
+  onCurve: boolean;
+}
+
+// Maximum distance, in font units, between a cubic and its quadratic approximation
+const CUBIC_TOLERANCE = 1;
+const MAX_QUADS_PER_CUBIC = 16;
+
+const lerp = (a: Vec, b: Vec, t: number): Vec => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+
+// de Casteljau split of a cubic at t, returning both halves
+const splitCubic = (p: Vec[], t: number): [Vec[], Vec[]] => {
+  const ab = lerp(p[0], p[1], t), bc = lerp(p[1], p[2], t), cd = lerp(p[2], p[3], t);
+  const abc = lerp(ab, bc, t), bcd = lerp(bc, cd, t);
+  const mid = lerp(abc, bcd, t);
+  return [[p[0], ab, abc, mid], [mid, bcd, cd, p[3]]];
+};
+
+/**
+ * Approximates a cubic with the fewest equal-parameter quadratic pieces that stay within tolerance.
+ * Returns the quadratic control and end points of each piece.
+ */
+export const cubicToQuadratics = (p: Vec[], tolerance = CUBIC_TOLERANCE): { ctrl: Vec; end: Vec }[] => {
+  for (let n = 1; n <= MAX_QUADS_PER_CUBIC; n++) {
+    const pieces: Vec[][] = [];
+    let rest = p;
+    for (let i = 0; i < n - 1; i++) {
+      const [head, tail] = splitCubic(rest, 1 / (n - i));
+      pieces.push(head);
+      rest = tail;
+    }
+    pieces.push(rest);
+
+    // The error of the single-quadratic fit is bounded by sqrt(3)/36 * |p3 - 3p2 + 3p1 - p0|
+    const fits = pieces.every(c => {
+      const dx = c[3].x - 3 * c[2].x + 3 * c[1].x - c[0].x;
+      const dy = c[3].y - 3 * c[2].y + 3 * c[1].y - c[0].y;
+      return (Math.sqrt(3) / 36) * Math.hypot(dx, dy) <= tolerance;
+    });
+    if (fits || n === MAX_QUADS_PER_CUBIC) {
+      return pieces.map(c => ({
+        ctrl: {
+          x: (3 * (c[1].x + c[2].x) - (c[0].x + c[3].x)) / 4,
+          y: (3 * (c[1].y + c[2].y) - (c[0].y + c[3].y)) / 4
+        },
+        end: c[3]
+      }));
+    }
+  }
+  return [];
+};
+
+// Flattens a contour into rounded TrueType points, dropping duplicates and the closing point
+const contourToPoints = (contour: PathContour): TTPoint[] => {
+  const points: TTPoint[] = [];
+  const push = (v: Vec, onCurve: boolean) => {
+    const pt = { x: Math.round(v.x), y: Math.round(v.y), onCurve };
+    const last = points[points.length - 1];
+    if (last && last.onCurve && onCurve && last.x === pt.x && last.y === pt.y) return;
+    points.push(pt);
+  };
+
+  let cur = contour.start;
+  push(cur, true);
+  for (const s of contour.segments) {
+    const end = { x: s.x, y: s.y };
+    if (s.type === 'L') {
+      push(end, true);
+    } else if (s.type === 'Q') {
+      push({ x: s.x1, y: s.y1 }, false);
+      push(end, true);
+    } else {
+      for (const q of cubicToQuadratics([cur, { x: s.x1, y: s.y1 }, { x: s.x2, y: s.y2 }, end])) {
+        push(q.ctrl, false);
+        push(q.end, true);
+      }
+    }
+    cur = end;
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (points.length > 1 && last.onCurve && last.x === first.x && last.y === first.y) points.pop();
+  return points;
+};
+
+const encodeSimpleGlyph = (contours: TTPoint[][]): Uint8Array => {
+  const all = contours.flat();
+  const xs = all.map(p => p.x);
+  const ys = all.map(p => p.y);
+
+  const w = new BinaryWriter()
+    .int16(contours.length)
+    .int16(Math.min(...xs)).int16(Math.min(...ys))
+    .int16(Math.max(...xs)).int16(Math.max(...ys));
+
+  let end = -1;
+  for (const c of contours) {
+    end += c.length;
+    w.uint16(end);
+  }
+  w.uint16(0); // instructionLength
+
+  // Flags: ON_CURVE 0x01, X_SHORT 0x02, Y_SHORT 0x04, REPEAT 0x08, X_SAME_OR_POSITIVE 0x10, Y_SAME_OR_POSITIVE 0x20
+  const flags: number[] = [];
+  const xBytes = new BinaryWriter();
+  const yBytes = new BinaryWriter();
+  let prevX = 0, prevY = 0;
+  for (const p of all) {
+    let flag = p.onCurve ? 0x01 : 0;
+    const dx = p.x - prevX;
+    const dy = p.y - prevY;
+
+    if (dx === 0) flag |= 0x10;
+    else if (Math.abs(dx) <= 255) {
+      flag |= 0x02 | (dx > 0 ? 0x10 : 0);
+      xBytes.uint8(Math.abs(dx));
+    } else xBytes.int16(dx);
+
+    if (dy === 0) flag |= 0x20;
+    else if (Math.abs(dy) <= 255) {
+      flag |= 0x04 | (dy > 0 ? 0x20 : 0);
+      yBytes.uint8(Math.abs(dy));
+    } else yBytes.int16(dy);
+
+    flags.push(flag);
+    prevX = p.x;
+    prevY = p.y;
+  }
+
+  for (let i = 0; i < flags.length; i++) {
+    let repeat = 0;
+    while (i + repeat + 1 < flags.length && flags[i + repeat + 1] === flags[i] && repeat < 255) repeat++;
+    if (repeat > 0) {
+      w.uint8(flags[i] | 0x08).uint8(repeat);
+      i += repeat;
+    } else {
+      w.uint8(flags[i]);
+    }
+  }
+
+  return w.bytes(xBytes.toUint8Array()).bytes(yBytes.toUint8Array()).toUint8Array();
+};
+
+/**
+ * Writes a TrueType-flavoured font with quadratic glyf outlines.
+ */
+export const writeTtf = (model: FontModel): Uint8Array => {
+  const glyf = new BinaryWriter();
+  const loca = new BinaryWriter();
+  const metrics: GlyphMetrics[] = [];
+  let maxPoints = 0;
+  let maxContours = 0;
+
+  for (const glyph of model.glyphs) {
+    loca.uint32(glyf.length);
+    const contours = glyph.contours.map(contourToPoints).filter(c => c.length >= 3);
+    if (contours.length === 0) {
+      metrics.push({ advanceWidth: glyph.advanceWidth, bounds: null });
+      continue;
+    }
+
+    const all = contours.flat();
+    metrics.push({
+      advanceWidth: glyph.advanceWidth,
+      bounds: {
+        xMin: Math.min(...all.map(p => p.x)),
+        yMin: Math.min(...all.map(p => p.y)),
+        xMax: Math.max(...all.map(p => p.x)),
+        yMax: Math.max(...all.map(p => p.y))
+      }
+    });
+    maxPoints = Math.max(maxPoints, all.length);
+    maxContours = Math.max(maxContours, contours.length);
+
+    glyf.bytes(encodeSimpleGlyph(contours)).align(4);
+  }
+  loca.uint32(glyf.length);
+
+  return assembleSfnt({
+    head: buildHead(model.info, metrics, 1),
+    hhea: buildHhea(model.info, metrics),
+    maxp: buildMaxp(model.glyphs.length, { maxPoints, maxContours }),
+    'OS/2': buildOS2(model, metrics),
+    name: buildName(model.info),
+    cmap: buildCmap(model),
+    loca: loca.toUint8Array(),
+    glyf: glyf.toUint8Array(),
+    hmtx: buildHmtx(metrics),
+    post: buildPost(model.info, model.glyphs.map(g => g.name)),
+    ...(isKerningEmpty(model.kerning) ? {} : { GPOS: buildGpos(model.kerning), kern: buildKern(model.kerning) }),
+    ...(isSubstitutionsEmpty(model.substitutions) ? {} : { GSUB: buildGsub(model.substitutions) })
+  }, 'truetype');
+};
@@ -0,0 +1,184 @@
+import { VectorGlyph } from '../types';
+
+export const PUA_START = 0xe000;
+export const PUA_END = 0xf8ff;
+// Supplementary Private Use Area-A, used once the BMP area is exhausted
+const SPUA_A_START = 0xf0000;
+const SPUA_A_END = 0xffffd;
+
+export const isPrivateUse = (cp: number): boolean =>
+  (cp >= PUA_START && cp <= PUA_END) || (cp >= SPUA_A_START && cp <= SPUA_A_END) || (cp >= 0x100000 && cp <= 0x10fffd);
+
+export const formatCodepoint = (cp: number): string =>
+  `U+${cp.toString(16).toUpperCase().padStart(4, '0')}`;
+
+const checkScalarValue = (cp: number) => {
+  if (cp > 0x10ffff || (cp >= 0xd800 && cp <= 0xdfff)) {
+    throw new Error(`${formatCodepoint(cp)} is not a valid Unicode scalar value`);
+  }
+};
+
+/**
+ * Parses user input such as "A", "U+0041", "0x41" or "A, é, U+017F" into codepoints.
+ * Codepoints need their prefix, so a word such as "face" is an error rather than U+FACE.
+ * Throws if a token cannot be understood.
+ */
+export const parseCodepointInput = (input: string): number[] => {
+  const result: number[] = [];
+  for (const token of input.split(/[\s,;]+/).filter(Boolean)) {
+    let cp: number;
+    if (/^(U\+|0x)[0-9a-f]{1,6}$/i.test(token)) {
+      cp = parseInt(token.slice(2), 16);
+    } else if ([...token].length === 1) {
+      cp = token.codePointAt(0)!;
+    } else {
+      throw new Error(`"${token}" is not a character or a U+XXXX codepoint`);
+    }
+    checkScalarValue(cp);
+    if (!result.includes(cp)) result.push(cp);
+  }
+  return result;
+};
+
+/**
+ * Parses an ordered character sequence such as "ffi", "c t" or "U+017F t".
+ * Unlike parseCodepointInput, words are spelled out character by character
+ * and repeated characters are kept.
+ */
+export const parseCodepointSequence = (input: string): number[] => {
+  const result: number[] = [];
+  for (const token of input.split(/[\s,;]+/).filter(Boolean)) {
+    if (/^(U\+|0x)[0-9a-f]{1,6}$/i.test(token)) {
+      const cp = parseInt(token.slice(2), 16);
+      checkScalarValue(cp);
+      result.push(cp);
+    } else {
+      for (const ch of token) result.push(ch.codePointAt(0)!);
+    }
+  }
+  return result;
+};
+
+// Adobe Glyph List for New Fonts names for the Latin repertoire most manuscripts are transcribed with
+const AGL_NAMES: Record<number, string> = (() => {
+  const names: Record<number, string> = {};
+  const ascii = (
+    'space exclam quotedbl numbersign dollar percent ampersand quotesingle parenleft parenright asterisk plus ' +
+    'comma hyphen period slash zero one two three four five six seven eight nine colon semicolon less equal ' +
+    'greater question at A B C D E F G H I J K L M N O P Q R S T U V W X Y Z bracketleft backslash ' +
+    'bracketright asciicircum underscore grave a b c d e f g h i j k l m n o p q r s t u v w x y z braceleft ' +
+    'bar braceright asciitilde'
+  ).split(' ');
+  ascii.forEach((n, i) => (names[0x20 + i] = n));
+
+  const latin1 = (
+    'exclamdown cent sterling currency yen brokenbar section dieresis copyright ordfeminine guillemotleft ' +
+    'logicalnot - registered macron degree plusminus twosuperior threesuperior acute - paragraph ' +
+    'periodcentered cedilla onesuperior ordmasculine guillemotright onequarter onehalf threequarters ' +
+    'questiondown Agrave Aacute Acircumflex Atilde Adieresis Aring AE Ccedilla Egrave Eacute Ecircumflex ' +
+    'Edieresis Igrave Iacute Icircumflex Idieresis Eth Ntilde Ograve Oacute Ocircumflex Otilde Odieresis ' +
+    'multiply Oslash Ugrave Uacute Ucircumflex Udieresis Yacute Thorn germandbls agrave aacute acircumflex ' +
+    'atilde adieresis aring ae ccedilla egrave eacute ecircumflex edieresis igrave iacute icircumflex ' +
+    'idieresis eth ntilde ograve oacute ocircumflex otilde odieresis divide oslash ugrave uacute ucircumflex ' +
+    'udieresis yacute thorn ydieresis'
+  ).split(' ');
+  latin1.forEach((n, i) => {
+    if (n !== '-') names[0xa1 + i] = n;
+  });
+
+  Object.assign(names, {
+    0x0131: 'dotlessi', 0x0141: 'Lslash', 0x0142: 'lslash', 0x0152: 'OE', 0x0153: 'oe',
+    0x0160: 'Scaron', 0x0161: 'scaron', 0x0178: 'Ydieresis', 0x017d: 'Zcaron', 0x017e: 'zcaron',
+    0x017f: 'longs', 0x0192: 'florin', 0x02c6: 'circumflex', 0x02c7: 'caron', 0x02d8: 'breve',
+    0x02d9: 'dotaccent', 0x02da: 'ring', 0x02db: 'ogonek', 0x02dc: 'tilde', 0x02dd: 'hungarumlaut',
+    0x2013: 'endash', 0x2014: 'emdash', 0x2018: 'quoteleft', 0x2019: 'quoteright',
+    0x201a: 'quotesinglbase', 0x201c: 'quotedblleft', 0x201d: 'quotedblright', 0x201e: 'quotedblbase',
+    0x2020: 'dagger', 0x2021: 'daggerdbl', 0x2022: 'bullet', 0x2026: 'ellipsis', 0x2030: 'perthousand',
+    0x2039: 'guilsinglleft', 0x203a: 'guilsinglright', 0x20ac: 'Euro', 0x2122: 'trademark'
+  });
+  return names;
+})();
+
+/**
+ * AGL-style production name for a codepoint: the AGLFN name where one exists, otherwise uniXXXX / uXXXXX.
+ */
+export const glyphNameForCodepoint = (cp: number): string => {
+  if (AGL_NAMES[cp]) return AGL_NAMES[cp];
+  const hex = cp.toString(16).toUpperCase();
+  return cp <= 0xffff ? `uni${hex.padStart(4, '0')}` : `u${hex.padStart(5, '0')}`;
+};
+
+/**
+ * Codepoints claimed by more than one glyph, with the ids of the glyphs claiming them.
+ * Samples standing in for another glyph do not count.
+ */
+export const findCodepointConflicts = (glyphs: VectorGlyph[]): Map<number, string[]> => {
+  const owners = new Map<number, string[]>();
+  for (const g of glyphs.filter(g => !g.sampleOf)) {
+    for (const cp of g.codepoints) {
+      owners.set(cp, [...(owners.get(cp) || []), g.id]);
+    }
+  }
+  return new Map([...owners].filter(([, ids]) => ids.length > 1));
+};
+
+/**
+ * Gives every glyph without a codepoint the next free Private Use Area codepoint.
+ * New allocations continue after the highest PUA codepoint already in use, so
+ * codepoints freed by deleted glyphs are not silently handed to different characters.
+ */
+export const allocatePuaCodepoints = (glyphs: VectorGlyph[], onlyIds?: string[]): VectorGlyph[] => {
+  const used = new Set(glyphs.flatMap(g => g.codepoints));
+  const bmpUsed = [...used].filter(cp => cp >= PUA_START && cp <= PUA_END);
+  let next = bmpUsed.length ? Math.max(...bmpUsed) + 1 : PUA_START;
+
+  const take = (): number => {
+    for (;;) {
+      if (next > PUA_END && next < SPUA_A_START) next = SPUA_A_START;
+      if (next > SPUA_A_END) throw new Error('The Private Use Area is full');
+      if (!used.has(next)) break;
+      next++;
+    }
+    used.add(next);
+    return next;
+  };
+
+  return glyphs.map(g => {
+    if (g.codepoints.length > 0 || (onlyIds && !onlyIds.includes(g.id))) return g;
+    return { ...g, codepoints: [take()] };
+  });
+};
+
+export interface AllocationRow {
+  codepoint: string;
+  glyphName: string;
+  label: string;
+  glyphId: string;
+}
+
+/**
+ * The Private Use Area assignments of the project, sorted by codepoint.
+ */
+export const buildPuaAllocationTable = (glyphs: VectorGlyph[]): AllocationRow[] =>
+  glyphs
+    .flatMap(g => g.codepoints.filter(isPrivateUse).map(cp => ({ cp, g })))
+    .sort((a, b) => a.cp - b.cp)
+    .map(({ cp, g }) => ({
+      codepoint: formatCodepoint(cp),
+      glyphName: glyphNameForCodepoint(cp),
+      label: g.name,
+      glyphId: g.id
+    }));
+
+export const allocationTableToCsv = (rows: AllocationRow[]): string => {
+  const escape = (v: string) => (/[",\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v);
+  const header = ['codepoint', 'glyphName', 'label', 'glyphId'];
+  return [header.join(','), ...rows.map(r => header.map(k => escape(r[k as keyof AllocationRow])).join(','))].join('\n') + '\n';
+};
+
+export const formatCodepointList = (codepoints: number[]): string =>
+  codepoints.map(formatCodepoint).join(' ');
+
+// Printable preview of a codepoint; PUA and control characters have nothing meaningful to show
+export const codepointPreview = (cp: number): string =>
+  isPrivateUse(cp) || cp < 0x20 || (cp >= 0x7f && cp < 0xa0) ? '' : String.fromCodePoint(cp);
@@ -0,0 +1,250 @@
+import { BinaryWriter, SfntTable, readSfntTables } from './sfnt';
+
+// Table tags with a predefined index in the WOFF2 table directory; others are written out in full
+const KNOWN_TAGS = [
+  'cmap', 'head', 'hhea', 'hmtx', 'maxp', 'name', 'OS/2', 'post', 'cvt ', 'fpgm', 'glyf', 'loca', 'prep',
+  'CFF ', 'VORG', 'EBDT', 'EBLC', 'gasp', 'hdmx', 'kern', 'LTSH', 'PCLT', 'VDMX', 'vhea', 'vmtx', 'BASE',
+  'GDEF', 'GPOS', 'GSUB', 'EBSC', 'JSTF', 'MATH', 'CBDT', 'CBLC', 'COLR', 'CPAL', 'SVG ', 'sbix', 'acnt',
+  'avar', 'bdat', 'bloc', 'bsln', 'cvar', 'fdsc', 'feat', 'fmtx', 'fvar', 'gvar', 'hsty', 'just', 'lcar',
+  'mort', 'morx', 'opbd', 'prop', 'trak', 'Zapf', 'Silf', 'Glat', 'Gloc', 'Feat', 'Sill'
+];
+
+const WOFF2_HEADER_SIZE = 48;
+
+const brotliCompress = async (data: Uint8Array): Promise<Uint8Array> => {
+  // Loaded on demand: the encoder is a sizeable WebAssembly module
+  const brotli = await (await import('brotli-wasm')).default;
+  return brotli.compress(data, { quality: 11 });
+};
+
+const writeUIntBase128 = (w: BinaryWriter, v: number) => {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(v & 0x7f);
+    v = Math.floor(v / 128);
+  } while (v > 0);
+  bytes.forEach((b, i) => w.uint8(i < bytes.length - 1 ? b | 0x80 : b));
+};
+
+const write255UInt16 = (w: BinaryWriter, v: number) => {
+  if (v < 253) w.uint8(v);
+  else if (v < 506) w.uint8(255).uint8(v - 253);
+  else if (v < 762) w.uint8(254).uint8(v - 506);
+  else w.uint8(253).uint16(v);
+};
+
+// Packs a point delta into a flag byte plus 1-4 coordinate bytes
+const writeTriplet = (flags: BinaryWriter, glyphs: BinaryWriter, onCurve: boolean, x: number, y: number) => {
+  const absX = Math.abs(x);
+  const absY = Math.abs(y);
+  const onCurveBit = onCurve ? 0 : 128;
+  const xSign = x < 0 ? 0 : 1;
+  const ySign = y < 0 ? 0 : 1;
+  const xySigns = xSign + 2 * ySign;
+
+  if (x === 0 && absY < 1280) {
+    flags.uint8(onCurveBit + ((absY & 0xf00) >> 7) + ySign);
+    glyphs.uint8(absY & 0xff);
+  } else if (y === 0 && absX < 1280) {
+    flags.uint8(onCurveBit + 10 + ((absX & 0xf00) >> 7) + xSign);
+    glyphs.uint8(absX & 0xff);
+  } else if (absX < 65 && absY < 65) {
+    flags.uint8(onCurveBit + 20 + ((absX - 1) & 0x30) + (((absY - 1) & 0x30) >> 2) + xySigns);
+    glyphs.uint8((((absX - 1) & 0xf) << 4) | ((absY - 1) & 0xf));
+  } else if (absX < 769 && absY < 769) {
+    flags.uint8(onCurveBit + 84 + 12 * (((absX - 1) & 0x300) >> 8) + (((absY - 1) & 0x300) >> 6) + xySigns);
+    glyphs.uint8((absX - 1) & 0xff).uint8((absY - 1) & 0xff);
+  } else if (absX < 4096 && absY < 4096) {
+    flags.uint8(onCurveBit + 120 + xySigns);
+    glyphs.uint8(absX >> 4).uint8(((absX & 0xf) << 4) | (absY >> 8)).uint8(absY & 0xff);
+  } else {
+    flags.uint8(onCurveBit + 124 + xySigns);
+    glyphs.uint16(absX).uint16(absY);
+  }
+};
+
+/**
+ * Applies the WOFF2 glyf transform: the glyph data is split into separate
+ * streams (contour counts, point counts, flags, coordinates...) that
+ * Brotli compresses far better than the interleaved original.
+ */
+const transformGlyf = (glyf: Uint8Array, loca: Uint8Array, numGlyphs: number, indexFormat: number): Uint8Array => {
+  const glyfView = new DataView(glyf.buffer, glyf.byteOffset, glyf.byteLength);
+  const locaView = new DataView(loca.buffer, loca.byteOffset, loca.byteLength);
+  const locaAt = (i: number) => (indexFormat === 0 ? locaView.getUint16(i * 2) * 2 : locaView.getUint32(i * 4));
+
+  const nContourStream = new BinaryWriter();
+  const nPointsStream = new BinaryWriter();
+  const flagStream = new BinaryWriter();
+  const glyphStream = new BinaryWriter();
+  const instructionStream = new BinaryWriter();
+  const bboxBitmap = new Uint8Array(Math.floor((numGlyphs + 31) / 32) * 4);
+  const bboxValues = new BinaryWriter();
+
+  for (let gid = 0; gid < numGlyphs; gid++) {
+    const start = locaAt(gid);
+    const end = locaAt(gid + 1);
+    if (end <= start) {
+      nContourStream.int16(0);
+      continue;
+    }
+
+    const numContours = glyfView.getInt16(start);
+    if (numContours < 0) throw new Error('Composite glyphs are not supported by the WOFF2 writer');
+    nContourStream.int16(numContours);
+    const bbox = [2, 4, 6, 8].map(o => glyfView.getInt16(start + o));
+
+    let pos = start + 10;
+    const endPts: number[] = [];
+    for (let c = 0; c < numContours; c++) {
+      endPts.push(glyfView.getUint16(pos));
+      pos += 2;
+    }
+    const numPoints = endPts.length ? endPts[endPts.length - 1] + 1 : 0;
+    endPts.forEach((e, c) => write255UInt16(nPointsStream, e - (c === 0 ? -1 : endPts[c - 1])));
+
+    const instructionLength = glyfView.getUint16(pos);
+    pos += 2;
+    const instructions = glyf.subarray(pos, pos + instructionLength);
+    pos += instructionLength;
+
+    const flags: number[] = [];
+    while (flags.length < numPoints) {
+      const flag = glyf[pos++];
+      flags.push(flag);
+      if (flag & 0x08) {
+        const repeat = glyf[pos++];
+        for (let r = 0; r < repeat; r++) flags.push(flag);
+      }
+    }
+
+    const readCoords = (shortBit: number, sameBit: number) => {
+      const coords: number[] = [];
+      let value = 0;
+      for (const flag of flags) {
+        if (flag & shortBit) {
+          const d = glyf[pos++];
+          value += flag & sameBit ? d : -d;
+        } else if (!(flag & sameBit)) {
+          value += glyfView.getInt16(pos);
+          pos += 2;
+        }
+        coords.push(value);
+      }
+      return coords;
+    };
+    const xs = readCoords(0x02, 0x10);
+    const ys = readCoords(0x04, 0x20);
+
+    let prevX = 0, prevY = 0;
+    for (let i = 0; i < numPoints; i++) {
+      writeTriplet(flagStream, glyphStream, (flags[i] & 0x01) !== 0, xs[i] - prevX, ys[i] - prevY);
+      prevX = xs[i];
+      prevY = ys[i];
+    }
+    write255UInt16(glyphStream, instructionLength);
+    instructionStream.bytes(instructions);
+
+    // The bounding box only needs storing when it differs from the one computed from the points
+    const computed = numPoints
+      ? [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]
+      : [0, 0, 0, 0];
+    if (computed.some((v, i) => v !== bbox[i])) {
+      bboxBitmap[gid >> 3] |= 0x80 >> (gid & 7);
+      bbox.forEach(v => bboxValues.int16(v));
+    }
+  }
+
+  const streams = [
+    nContourStream.toUint8Array(),
+    nPointsStream.toUint8Array(),
+    flagStream.toUint8Array(),
+    glyphStream.toUint8Array(),
+    new Uint8Array(0), // composite stream
+    new BinaryWriter().bytes(bboxBitmap).bytes(bboxValues.toUint8Array()).toUint8Array(),
+    instructionStream.toUint8Array()
+  ];
+
+  const w = new BinaryWriter()
+    .uint16(0)                   // reserved
+    .uint16(0)                   // optionFlags
+    .uint16(numGlyphs)
+    .uint16(indexFormat);
+  streams.forEach(s => w.uint32(s.length));
+  streams.forEach(s => w.bytes(s));
+  return w.toUint8Array();
+};
+
+/**
+ * Packages an assembled TTF/OTF as WOFF2: glyf/loca are transformed and all
+ * tables are compressed together in a single Brotli stream.
+ */
+export const writeWoff2 = async (
+  font: Uint8Array,
+  compress: (data: Uint8Array) => Promise<Uint8Array> = brotliCompress
+): Promise<Uint8Array> => {
+  const { flavor, tables } = readSfntTables(font);
+  const byTag = new Map(tables.map(t => [t.tag, t]));
+
+  // loca must directly follow glyf in the table directory
+  const ordered: SfntTable[] = tables.filter(t => t.tag !== 'loca');
+  const loca = byTag.get('loca');
+  const glyf = byTag.get('glyf');
+  if (loca && glyf) ordered.splice(ordered.indexOf(glyf) + 1, 0, loca);
+
+  const head = byTag.get('head');
+  const maxp = byTag.get('maxp');
+  const entries = ordered.map(table => {
+    let data = table.data;
+    let transformed: Uint8Array | null = null;
+
+    if (table.tag === 'head') {
+      // Flag 11: the font has been through a lossless transform such as WOFF2
+      data = data.slice();
+      const view = new DataView(data.buffer);
+      view.setUint16(16, view.getUint16(16) | 0x0800);
+    } else if (table.tag === 'glyf' && loca && head && maxp) {
+      const numGlyphs = new DataView(maxp.data.buffer, maxp.data.byteOffset).getUint16(4);
+      const indexFormat = new DataView(head.data.buffer, head.data.byteOffset).getInt16(50);
+      transformed = transformGlyf(table.data, loca.data, numGlyphs, indexFormat);
+    } else if (table.tag === 'loca' && glyf) {
+      transformed = new Uint8Array(0);
+    }
+    return { tag: table.tag, data, transformed };
+  });
+
+  const payload = new BinaryWriter();
+  entries.forEach(e => payload.bytes(e.transformed ?? e.data));
+  const compressed = await compress(payload.toUint8Array());
+
+  const directory = new BinaryWriter();
+  for (const e of entries) {
+    const known = KNOWN_TAGS.indexOf(e.tag);
+    // Transform version 0 means "transformed" for glyf/loca and "untouched" for every other table
+    directory.uint8(known >= 0 ? known : 0x3f);
+    if (known < 0) directory.tag(e.tag);
+    writeUIntBase128(directory, e.data.length);
+    if (e.transformed) writeUIntBase128(directory, e.transformed.length);
+  }
+  const directoryData = directory.toUint8Array();
+
+  const totalSfntSize = 12 + 16 * entries.length +
+    entries.reduce((sum, e) => sum + Math.ceil(e.data.length / 4) * 4, 0);
+  const length = Math.ceil((WOFF2_HEADER_SIZE + directoryData.length + compressed.length) / 4) * 4;
+
+  return new BinaryWriter()
+    .tag('wOF2')
+    .uint32(flavor)
+    .uint32(length)
+    .uint16(entries.length)
+    .uint16(0)                   // reserved
+    .uint32(totalSfntSize)
+    .uint32(compressed.length)
+    .uint16(1).uint16(0)         // font version
+    .uint32(0).uint32(0).uint32(0) // no metadata
+    .uint32(0).uint32(0)         // no private data
+    .bytes(directoryData)
+    .bytes(compressed)
+    .align(4)
+    .toUint8Array();
+};
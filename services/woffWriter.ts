@@ -0,0 +1,50 @@
+import { BinaryWriter, readSfntTables } from './sfnt';
+
+const WOFF_HEADER_SIZE = 44;
+const WOFF_DIRECTORY_ENTRY_SIZE = 20;
+
+// zlib-wrapped deflate, as WOFF 1.0 requires
+export const zlibCompress = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Packages an assembled TTF/OTF as WOFF 1.0. Each table is zlib-compressed
+ * unless compression would make it larger.
+ */
+export const writeWoff = async (font: Uint8Array): Promise<Uint8Array> => {
+  const { flavor, tables } = readSfntTables(font);
+  const sorted = [...tables].sort((a, b) => (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0));
+
+  const entries = await Promise.all(sorted.map(async table => {
+    const compressed = await zlibCompress(table.data);
+    return { ...table, stored: compressed.length < table.data.length ? compressed : table.data };
+  }));
+
+  let offset = WOFF_HEADER_SIZE + entries.length * WOFF_DIRECTORY_ENTRY_SIZE;
+  const offsets = entries.map(e => {
+    const at = offset;
+    offset += Math.ceil(e.stored.length / 4) * 4;
+    return at;
+  });
+  const totalSfntSize = 12 + 16 * entries.length +
+    entries.reduce((sum, e) => sum + Math.ceil(e.data.length / 4) * 4, 0);
+
+  const w = new BinaryWriter()
+    .tag('wOFF')
+    .uint32(flavor)
+    .uint32(offset)              // length of the whole file
+    .uint16(entries.length)
+    .uint16(0)                   // reserved
+    .uint32(totalSfntSize)
+    .uint16(1).uint16(0)         // font version
+    .uint32(0).uint32(0).uint32(0) // no metadata
+    .uint32(0).uint32(0);        // no private data
+
+  entries.forEach((e, i) => {
+    w.tag(e.tag).uint32(offsets[i]).uint32(e.stored.length).uint32(e.data.length).uint32(e.checksum);
+  });
+  entries.forEach(e => w.bytes(e.stored).align(4));
+  return w.toUint8Array();
+};
@@ -6,17 +6,41 @@ export interface ImageState {
 
 export interface VectorGlyph {
   id: string;
-  svgPath: string;
-  width: number;
-  height: number;
+  svgPath: string;      // Outline in font units, y up, baseline at y = 0
+  advanceWidth: number; // Font units
   name: string;
+  codepoints: number[]; // Unicode scalar values mapped to this glyph; the first is the primary one
+  sourcePage?: number;  // 1-based page of the PDF the glyph was extracted from
+  leftGroup?: string;   // Spacing group sharing this glyph's left sidebearing
+  rightGroup?: string;  // Spacing group sharing this glyph's right sidebearing
+  substitution?: GlyphSubstitution; // How text reaches this glyph besides its own codepoints
+  sampleOf?: string;    // Id of the glyph standing for this one in the font; samples are left out of it
+  consensus?: boolean;  // Averaged from samples rather than extracted, so later averages leave it out
 }
 
+export type LigatureFeature = 'liga' | 'dlig' | 'hlig';
+export type PositionalForm = 'init' | 'medi' | 'fina' | 'isol';
+
+/**
+ * A GSUB rule that puts this glyph in place of other characters. Characters
+ * are given as codepoints and resolve to the glyphs that carry them.
+ */
+export type GlyphSubstitution =
+  // Replaces the sequence `components`, e.g. c + t
+  | { kind: 'ligature'; feature: LigatureFeature; components: number[] }
+  // Replaces `base` at the start, middle or end of a word, or standing alone
+  | { kind: 'positional'; form: PositionalForm; base: number }
+  // Replaces `base` when preceded by one of `before` and followed by one of `after`; empty means anything
+  | { kind: 'contextual'; base: number; before: number[]; after: number[] }
+  // Replaces `base` when a stylistic set (ss01-ss20), stylistic alternates (salt) or historical forms (hist) are on
+  | { kind: 'alternate'; feature: string; base: number };
+
 export enum ProcessingStatus {
   IDLE = 'IDLE',
   UPLOADING = 'UPLOADING',
   GENERATING = 'GENERATING',
   VECTORIZING = 'VECTORIZING',
+  PROCESSING = 'PROCESSING',
   ERROR = 'ERROR'
 }
 
@@ -25,4 +49,15 @@ export interface BoundingBox {
   y: number;
   width: number;
   height: number;
-}
\ No newline at end of file
+}
+
+/**
+ * Vertical metrics of the font being built, in font units. The baseline is y = 0.
+ */
+export interface FontMetrics {
+  unitsPerEm: number;
+  ascender: number;
+  descender: number; // Negative, below the baseline
+  xHeight: number;
+  capHeight: number;
+}